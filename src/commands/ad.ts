@@ -1,13 +1,22 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
-import inquirer from 'inquirer';
 import { BaseCommand } from './base';
-import { AdService } from '../services/ad';
-import { AuthService } from '../services/auth';
+import { Column, output } from '../utils/output';
+import { prompter } from '../utils/prompt';
+
+const CAMPAIGN_COLUMNS: Column[] = [
+  { header: 'ID', key: 'id' },
+  { header: 'NAME', key: 'name' },
+  { header: 'TYPE', key: 'type' },
+  { header: 'BUDGET', key: 'budget', format: (value) => `$${value}` },
+  { header: 'STATUS', key: 'status' },
+  { header: 'IMPRESSIONS', key: 'impressions', format: (value) => String(value || 0) },
+  { header: 'CLICKS', key: 'clicks', format: (value) => String(value || 0) }
+];
 
 export class AdCommand extends BaseCommand {
-  private adService = new AdService();
-  private authService = new AuthService();
+  private adService = this.context.ads;
+  private authService = this.context.auth;
 
   register(program: Command): void {
     const adCmd = program
@@ -28,10 +37,10 @@ export class AdCommand extends BaseCommand {
         }
       });
 
-    adCmd
+    const listCmd = adCmd
       .command('list')
       .description('List all advertisement campaigns')
-      .option('-f, --format <format>', 'Output format (table, json)', 'table')
+      .option('-f, --format <format>', 'Output format (table, json, ndjson, yaml, csv)')
       .option('-s, --status <status>', 'Filter by status (active, paused, completed)')
       .action(async (options) => {
         try {
@@ -40,6 +49,7 @@ export class AdCommand extends BaseCommand {
           this.handleError(error);
         }
       });
+    this.addPaginationOptions(listCmd);
 
     adCmd
       .command('info')
@@ -118,10 +128,7 @@ export class AdCommand extends BaseCommand {
   }
 
   private async create(options: any): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
+    this.authService.requireAuthentication();
 
     console.log(chalk.blue('📢 Creating Advertisement Campaign...'));
 
@@ -131,11 +138,12 @@ export class AdCommand extends BaseCommand {
     let targetAudience, duration;
 
     if (!name || !type || !budget) {
-      const answers = await inquirer.prompt([
+      const answers = await prompter.prompt([
         {
           type: 'input',
           name: 'name',
           message: 'Campaign name:',
+          flag: '--name <name>',
           when: !name,
           validate: (input) => input.length > 0 || 'Campaign name is required'
         },
@@ -143,6 +151,7 @@ export class AdCommand extends BaseCommand {
           type: 'list',
           name: 'type',
           message: 'Advertisement type:',
+          flag: '--type <type>',
           when: !type,
           choices: [
             { name: '🖼️  Banner - Display banner ads', value: 'banner' },
@@ -155,6 +164,7 @@ export class AdCommand extends BaseCommand {
           type: 'number',
           name: 'budget',
           message: 'Campaign budget (USD):',
+          flag: '--budget <budget>',
           when: !budget,
           validate: (input) => (input && input > 0) || 'Budget must be greater than 0'
         },
@@ -201,44 +211,20 @@ export class AdCommand extends BaseCommand {
   }
 
   private async list(options: any): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
-
-    const campaigns = await this.adService.listCampaigns(options.status);
-
-    if (options.format === 'json') {
-      console.log(JSON.stringify(campaigns, null, 2));
-      return;
-    }
-
-    if (campaigns.length === 0) {
-      console.log(chalk.yellow('📝 No advertisement campaigns found.'));
-      return;
-    }
+    this.authService.requireAuthentication();
 
-    console.log(chalk.blue('📢 Advertisement Campaigns:'));
-    console.log();
+    const page = await this.fetchList(this.adService.listCampaignPages(options.status, this.pageOptions(options)), options);
 
-    campaigns.forEach((campaign: any, index: number) => {
-      const statusIcon = this.getStatusIcon(campaign.status);
-      console.log(chalk.cyan(`${index + 1}. ${campaign.name}`));
-      console.log(chalk.gray(`   ID: ${campaign.id}`));
-      console.log(chalk.gray(`   Type: ${campaign.type}`));
-      console.log(chalk.gray(`   Budget: $${campaign.budget}`));
-      console.log(chalk.gray(`   Status: ${statusIcon} ${campaign.status}`));
-      console.log(chalk.gray(`   Impressions: ${campaign.impressions || 0}`));
-      console.log(chalk.gray(`   Clicks: ${campaign.clicks || 0}`));
-      console.log();
+    output.printList(page.items, CAMPAIGN_COLUMNS, {
+      format: options.format,
+      title: '📢 Advertisement Campaigns:',
+      empty: '📝 No advertisement campaigns found.'
     });
+    this.printNextPage(page);
   }
 
   private async info(campaignId: string): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
+    this.authService.requireAuthentication();
 
     const campaign = await this.adService.getCampaign(campaignId);
 
@@ -265,30 +251,21 @@ export class AdCommand extends BaseCommand {
   }
 
   private async start(campaignId: string): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
+    this.authService.requireAuthentication();
 
     await this.adService.startCampaign(campaignId);
     console.log(chalk.green('✅ Campaign started successfully!'));
   }
 
   private async pause(campaignId: string): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
+    this.authService.requireAuthentication();
 
     await this.adService.pauseCampaign(campaignId);
     console.log(chalk.green('✅ Campaign paused successfully!'));
   }
 
   private async stats(campaignId: string, options: any): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
+    this.authService.requireAuthentication();
 
     const stats = await this.adService.getCampaignStats(campaignId, options.period);
 
@@ -304,10 +281,7 @@ export class AdCommand extends BaseCommand {
   }
 
   private async managePlacements(options: any): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
+    this.authService.requireAuthentication();
 
     if (options.list) {
       const placements = await this.adService.listPlacements();
@@ -331,10 +305,7 @@ export class AdCommand extends BaseCommand {
   }
 
   private async revenue(options: any): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
+    this.authService.requireAuthentication();
 
     const revenue = await this.adService.getRevenue(options.period, options.game);
 
@@ -2,12 +2,11 @@ import { Command } from 'commander';
 import chalk from 'chalk';
 import inquirer from 'inquirer';
 import { BaseCommand } from './base';
-import { AnalyticsService } from '../services/analytics';
-import { AuthService } from '../services/auth';
+import { AuthError } from '../utils/errors';
 
 export class AnalyticsCommand extends BaseCommand {
-  private analyticsService = new AnalyticsService();
-  private authService = new AuthService();
+  private analyticsService = this.context.analytics;
+  private authService = this.context.auth;
 
   register(program: Command): void {
     const analyticsCmd = program
@@ -109,10 +108,7 @@ export class AnalyticsCommand extends BaseCommand {
   }
 
   private async overview(options: any): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
+    this.authService.requireAuthentication();
 
     const overview = await this.analyticsService.getOverview(options.period, options.game);
 
@@ -143,10 +139,7 @@ export class AnalyticsCommand extends BaseCommand {
   }
 
   private async players(options: any): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
+    this.authService.requireAuthentication();
 
     const playerData = await this.analyticsService.getPlayerAnalytics(options.period, options.game);
 
@@ -175,10 +168,7 @@ export class AnalyticsCommand extends BaseCommand {
   }
 
   private async revenue(options: any): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
+    this.authService.requireAuthentication();
 
     const revenueData = await this.analyticsService.getRevenueAnalytics(options.period, options.game);
 
@@ -209,10 +199,7 @@ export class AnalyticsCommand extends BaseCommand {
   }
 
   private async events(options: any): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
+    this.authService.requireAuthentication();
 
     const eventData = await this.analyticsService.getEventAnalytics(options.period, options.game, options.event);
 
@@ -239,10 +226,7 @@ export class AnalyticsCommand extends BaseCommand {
   }
 
   private async retention(options: any): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
+    this.authService.requireAuthentication();
 
     const retentionData = await this.analyticsService.getRetentionAnalytics(options.period, options.game);
 
@@ -270,10 +254,7 @@ export class AnalyticsCommand extends BaseCommand {
   }
 
   private async export(options: any): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
+    this.authService.requireAuthentication();
 
     console.log(chalk.blue('📤 Exporting analytics data...'));
 
@@ -287,10 +268,7 @@ export class AnalyticsCommand extends BaseCommand {
   }
 
   private async realtime(options: any): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
+    this.authService.requireAuthentication();
 
     console.log(chalk.blue('📊 Real-time Analytics Dashboard'));
     console.log(chalk.gray('Press Ctrl+C to exit'));
@@ -333,6 +311,10 @@ export class AnalyticsCommand extends BaseCommand {
           setTimeout(updateDashboard, updateInterval);
         }
       } catch (error) {
+        // Retrying won't help once the session can no longer be refreshed
+        if (error instanceof AuthError) {
+          this.handleError(error);
+        }
         console.log(chalk.red('❌ Error updating dashboard:'), error);
         if (isRunning) {
           setTimeout(updateDashboard, updateInterval);
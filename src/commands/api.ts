@@ -0,0 +1,224 @@
+import { Command } from 'commander';
+import * as fs from 'fs';
+import { BaseCommand } from './base';
+import { API_METHODS, ApiMethod, ApiRequest, ApiResponse } from '../services/api';
+import { CliError, ExitCode } from '../utils/errors';
+import { JsonParseError, parseJsonWithLocations } from '../utils/json';
+import { output } from '../utils/output';
+
+// Methods whose fields go in the query string rather than a JSON body
+const QUERY_METHODS = ['GET', 'HEAD', 'DELETE', 'OPTIONS'];
+
+export class ApiCommand extends BaseCommand {
+  private apiService = this.context.api;
+
+  register(program: Command): void {
+    program
+      .command('api')
+      .description('Send an authenticated request to any GameBuild API endpoint')
+      .argument('<method>', `HTTP method (${API_METHODS.join(', ')})`)
+      .argument('<path>', 'Endpoint path, e.g. /v1/games/{gameId}/builds ({gameId} is the current project)')
+      .option('-f, --field <key=value>', 'Add a string field; repeat for more, use key[]=value for arrays', collect, [])
+      .option('-F, --typed-field <key=value>', 'Like --field, but true, false, null and numbers keep their type and @file reads a file', collect, [])
+      .option('--input <file>', 'Send the JSON in a file as the request body ("-" for stdin)')
+      .option('--paginate', 'Follow the pagination of GET requests and print every page as one result')
+      .option('-i, --include', 'Print the response status and headers before the body')
+      .addHelpText('after', `
+Fields are sent as query parameters for GET, HEAD, DELETE and OPTIONS requests and
+when --input supplies the body; otherwise they make up a JSON body.
+
+Examples:
+  $ gamebuild api get /v1/analytics/funnels/onboarding -f period=week
+  $ gamebuild api post /v1/analytics/dashboards --input dashboard.json
+  $ gamebuild api get /v1/games/{gameId}/builds --paginate --query "[].id"`)
+      .action(async (method, path, options) => {
+        try {
+          await this.request(method, path, options);
+        } catch (error) {
+          this.handleError(error);
+        }
+      });
+  }
+
+  private async request(method: string, path: string, options: any): Promise<void> {
+    const request = this.buildRequest(method, path, options);
+
+    if (options.paginate && request.method !== 'GET') {
+      throw new CliError('--paginate can only be used with GET requests', ExitCode.Validation);
+    }
+    if (options.paginate && options.include) {
+      throw new CliError('--include cannot be used with --paginate', ExitCode.Validation);
+    }
+
+    if (!options.paginate) {
+      const response = await this.apiService.request(request);
+      if (options.include) {
+        this.printHeaders(response);
+      }
+      this.printBody(response.data);
+      return;
+    }
+
+    const pages: any[] = [];
+    for await (const page of this.apiService.paginate(request)) {
+      pages.push(page.data);
+    }
+    this.printBody(mergePages(pages));
+  }
+
+  private buildRequest(method: string, path: string, options: any): ApiRequest {
+    const normalized = method.toUpperCase();
+    if (!(API_METHODS as readonly string[]).includes(normalized)) {
+      throw new CliError(
+        `Unknown HTTP method "${method}". Expected one of: ${API_METHODS.join(', ')}`,
+        ExitCode.Validation
+      );
+    }
+
+    const fields: Record<string, any> = {};
+    options.field.forEach((field: string) => setField(fields, field, (value) => value));
+    options.typedField.forEach((field: string) => setField(fields, field, parseTypedValue));
+
+    const request: ApiRequest = { method: normalized as ApiMethod, path: this.expandPath(path) };
+    const hasFields = Object.keys(fields).length > 0;
+
+    if (options.input !== undefined) {
+      request.body = readInput(options.input);
+      if (hasFields) {
+        request.params = fields;
+      }
+    } else if (hasFields) {
+      if (QUERY_METHODS.includes(normalized)) {
+        request.params = fields;
+      } else {
+        request.body = fields;
+      }
+    }
+
+    return request;
+  }
+
+  private expandPath(path: string): string {
+    if (!path.includes('{gameId}')) {
+      return path;
+    }
+    const project = this.context.games.requireLocalProject();
+    return path.replace(/\{gameId\}/g, encodeURIComponent(project.gameId));
+  }
+
+  private printHeaders(response: ApiResponse): void {
+    console.log(`HTTP ${response.status}`);
+    Object.entries(response.headers).forEach(([name, value]) => console.log(`${name}: ${value}`));
+    console.log();
+  }
+
+  private printBody(data: any): void {
+    if (data === undefined || data === null || data === '') {
+      return;
+    }
+    if (typeof data === 'string') {
+      console.log(data.replace(/\n$/, ''));
+      return;
+    }
+    // Pretty JSON unless --output asks for another format
+    output.print(data, output.getFormat(undefined, 'json'));
+  }
+}
+
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Set a `key=value` field on `target`. `a[b]=1` sets a nested key and `a[]=1` appends
+ * to an array, as in HTML form encoding.
+ */
+function setField(target: Record<string, any>, field: string, convert: (value: string) => any): void {
+  const separator = field.indexOf('=');
+  const match = separator > 0 ? /^([^[\]]+)((?:\[[^[\]]*\])*)$/.exec(field.slice(0, separator)) : null;
+  if (!match) {
+    throw new CliError(`Invalid field "${field}". Expected key=value`, ExitCode.Validation);
+  }
+
+  const keys = [match[1], ...Array.from(match[2].matchAll(/\[([^[\]]*)\]/g), (part) => part[1])];
+  const value = convert(field.slice(separator + 1));
+
+  let current: any = target;
+  keys.forEach((key, index) => {
+    const last = index === keys.length - 1;
+    const container = keys[index + 1] === '' ? [] : {};
+
+    if (Array.isArray(current)) {
+      // Only `[]` follows an array, so each field adds one element
+      current.push(last ? value : container);
+      current = current[current.length - 1];
+    } else if (last) {
+      current[key] = value;
+    } else {
+      if (typeof current[key] !== 'object' || current[key] === null || Array.isArray(current[key]) !== Array.isArray(container)) {
+        current[key] = container;
+      }
+      current = current[key];
+    }
+  });
+}
+
+function parseTypedValue(value: string): any {
+  if (value === 'true' || value === 'false' || value === 'null') {
+    return JSON.parse(value);
+  }
+  if (/^-?(?:0|[1-9]\d*)(?:\.\d+)?$/.test(value)) {
+    return Number(value);
+  }
+  if (value.startsWith('@')) {
+    const file = value.slice(1);
+    try {
+      return fs.readFileSync(file, 'utf8');
+    } catch (error: any) {
+      throw new CliError(`Cannot read ${file}: ${error.message}`, ExitCode.NotFound);
+    }
+  }
+  return value;
+}
+
+function readInput(file: string): any {
+  let text: string;
+  try {
+    text = fs.readFileSync(file === '-' ? 0 : file, 'utf8');
+  } catch (error: any) {
+    throw new CliError(`Cannot read ${file}: ${error.message}`, ExitCode.NotFound);
+  }
+
+  try {
+    return parseJsonWithLocations(text).value;
+  } catch (error) {
+    if (error instanceof JsonParseError) {
+      throw new CliError(
+        `Invalid JSON in ${file === '-' ? 'stdin' : file} at line ${error.line}, column ${error.column}: ${error.message}`,
+        ExitCode.Validation
+      );
+    }
+    throw error;
+  }
+}
+
+// Arrays are joined; for objects, array fields are joined and the rest come from the last page
+function mergePages(pages: any[]): any {
+  if (pages.every(Array.isArray)) {
+    return pages.flat();
+  }
+
+  const last = pages[pages.length - 1];
+  if (!last || typeof last !== 'object' || Array.isArray(last)) {
+    return last;
+  }
+
+  const merged: Record<string, any> = { ...last };
+  for (const key of Object.keys(merged)) {
+    if (Array.isArray(merged[key])) {
+      merged[key] = pages.flatMap((page) => (Array.isArray(page?.[key]) ? page[key] : []));
+    }
+  }
+  delete merged.nextCursor;
+  return merged;
+}
@@ -1,13 +1,36 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
-import inquirer from 'inquirer';
 import { BaseCommand } from './base';
-import { AssetService } from '../services/asset';
-import { AuthService } from '../services/auth';
+import { Column, output } from '../utils/output';
+import { prompter } from '../utils/prompt';
+
+const ASSET_COLUMNS: Column[] = [
+  { header: 'ID', key: 'id' },
+  { header: 'NAME', key: 'name' },
+  { header: 'TOKEN', key: 'tokenId' },
+  { header: 'OWNER', key: 'owner' },
+  { header: 'IPFS', key: 'ipfsUrl' }
+];
+
+const ERC20_COLUMNS: Column[] = [
+  { header: 'NAME', key: 'name' },
+  { header: 'SYMBOL', key: 'symbol' },
+  { header: 'CONTRACT', key: 'contractAddress' },
+  { header: 'DECIMALS', key: 'decimals' },
+  { header: 'TOTAL SUPPLY', key: 'totalSupply' }
+];
+
+const ERC721_COLUMNS: Column[] = [
+  { header: 'NAME', key: 'name' },
+  { header: 'SYMBOL', key: 'symbol' },
+  { header: 'CONTRACT', key: 'contractAddress' },
+  { header: 'BASE URI', key: 'baseUri', format: (value) => value || 'Not set' }
+];
 
 export class AssetCommand extends BaseCommand {
-  private assetService = new AssetService();
-  private authService = new AuthService();
+  private assetService = this.context.assets;
+  private authService = this.context.auth;
+  private resolver = this.context.resolver;
 
   register(program: Command): void {
     const assetCmd = program
@@ -28,10 +51,10 @@ export class AssetCommand extends BaseCommand {
         }
       });
 
-    assetCmd
+    const listCmd = assetCmd
       .command('list')
       .description('List all assets')
-      .option('-f, --format <format>', 'Output format (table, json)', 'table')
+      .option('-f, --format <format>', 'Output format (table, json, ndjson, yaml, csv)')
       .action(async (options) => {
         try {
           await this.list(options);
@@ -39,6 +62,7 @@ export class AssetCommand extends BaseCommand {
           this.handleError(error);
         }
       });
+    this.addPaginationOptions(listCmd);
 
     assetCmd
       .command('info')
@@ -123,7 +147,7 @@ export class AssetCommand extends BaseCommand {
     assetCmd
       .command('list-erc20')
       .description('List all ERC20 tokens')
-      .option('-f, --format <format>', 'Output format (table, json)', 'table')
+      .option('-f, --format <format>', 'Output format (table, json, ndjson, yaml, csv)')
       .action(async (options) => {
         try {
           await this.listErc20(options);
@@ -135,7 +159,7 @@ export class AssetCommand extends BaseCommand {
     assetCmd
       .command('list-erc721')
       .description('List all ERC721 collections')
-      .option('-f, --format <format>', 'Output format (table, json)', 'table')
+      .option('-f, --format <format>', 'Output format (table, json, ndjson, yaml, csv)')
       .action(async (options) => {
         try {
           await this.listErc721(options);
@@ -146,18 +170,15 @@ export class AssetCommand extends BaseCommand {
   }
 
   private async mint(options: any): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
+    this.authService.requireAuthentication();
     let name = options.name;
     let description = options.description;
     let file = options.file;
     if (!name || !file) {
-      const answers = await inquirer.prompt([
-        { type: 'input', name: 'name', message: 'Asset name:', validate: (input) => input.length > 0 || 'Asset name is required' },
-        { type: 'input', name: 'description', message: 'Asset description:' },
-        { type: 'input', name: 'file', message: 'Asset file path:', validate: (input) => input.length > 0 || 'File path is required' }
+      const answers = await prompter.prompt([
+        { type: 'input', name: 'name', message: 'Asset name:', flag: '--name <name>', when: !name, validate: (input) => input.length > 0 || 'Asset name is required' },
+        { type: 'input', name: 'description', message: 'Asset description:', when: !description },
+        { type: 'input', name: 'file', message: 'Asset file path:', flag: '--file <file>', when: !file, validate: (input) => input.length > 0 || 'File path is required' }
       ]);
       name = name || answers.name;
       description = description || answers.description;
@@ -174,28 +195,17 @@ export class AssetCommand extends BaseCommand {
   }
 
   private async list(options: any): Promise<void> {
-    const assets = await this.assetService.listAssets();
-    if (options.format === 'json') {
-      console.log(JSON.stringify(assets, null, 2));
-      return;
-    }
-    if (assets.length === 0) {
-      console.log(chalk.yellow('📝 No assets found.'));
-      return;
-    }
-    console.log(chalk.blue('🎨 Assets:'));
-    assets.forEach((asset: any, index: number) => {
-      console.log(chalk.cyan(`${index + 1}. ${asset.name}`));
-      console.log(chalk.gray(`   ID: ${asset.id}`));
-      console.log(chalk.gray(`   Token: ${asset.tokenId}`));
-      console.log(chalk.gray(`   Owner: ${asset.owner}`));
-      console.log(chalk.gray(`   IPFS: ${asset.ipfsUrl}`));
-      console.log();
+    const page = await this.fetchList(this.assetService.listAssetPages(this.pageOptions(options)), options);
+    output.printList(page.items, ASSET_COLUMNS, {
+      format: options.format,
+      title: '🎨 Assets:',
+      empty: '📝 No assets found.'
     });
+    this.printNextPage(page);
   }
 
   private async info(assetId: string): Promise<void> {
-    const asset = await this.assetService.getAsset(assetId);
+    const asset = await this.resolver.findAsset(assetId);
     console.log(chalk.blue('🎨 Asset Information'));
     console.log(chalk.cyan(`Name: ${asset.name}`));
     console.log(chalk.gray(`ID: ${asset.id}`));
@@ -216,10 +226,7 @@ export class AssetCommand extends BaseCommand {
   }
 
   private async issueErc20(options: any): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
+    this.authService.requireAuthentication();
 
     console.log(chalk.blue('🪙 Issuing ERC20 Token...'));
 
@@ -229,11 +236,12 @@ export class AssetCommand extends BaseCommand {
     let totalSupply = options.totalSupply;
 
     if (!name || !symbol || !totalSupply) {
-      const answers = await inquirer.prompt([
+      const answers = await prompter.prompt([
         {
           type: 'input',
           name: 'name',
           message: 'Token name:',
+          flag: '--name <name>',
           when: !name,
           validate: (input) => input.length > 0 || 'Token name is required'
         },
@@ -241,6 +249,7 @@ export class AssetCommand extends BaseCommand {
           type: 'input',
           name: 'symbol',
           message: 'Token symbol:',
+          flag: '--symbol <symbol>',
           when: !symbol,
           validate: (input) => input.length > 0 || 'Token symbol is required'
         },
@@ -255,6 +264,7 @@ export class AssetCommand extends BaseCommand {
           type: 'input',
           name: 'totalSupply',
           message: 'Total supply:',
+          flag: '--total-supply <supply>',
           when: !totalSupply,
           validate: (input) => !isNaN(Number(input)) && Number(input) > 0 || 'Total supply must be a positive number'
         }
@@ -283,10 +293,7 @@ export class AssetCommand extends BaseCommand {
   }
 
   private async issueErc721(options: any): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
+    this.authService.requireAuthentication();
 
     console.log(chalk.blue('🎨 Issuing ERC721 NFT Collection...'));
 
@@ -295,11 +302,12 @@ export class AssetCommand extends BaseCommand {
     let baseUri = options.baseUri;
 
     if (!name || !symbol) {
-      const answers = await inquirer.prompt([
+      const answers = await prompter.prompt([
         {
           type: 'input',
           name: 'name',
           message: 'Collection name:',
+          flag: '--name <name>',
           when: !name,
           validate: (input) => input.length > 0 || 'Collection name is required'
         },
@@ -307,6 +315,7 @@ export class AssetCommand extends BaseCommand {
           type: 'input',
           name: 'symbol',
           message: 'Collection symbol:',
+          flag: '--symbol <symbol>',
           when: !symbol,
           validate: (input) => input.length > 0 || 'Collection symbol is required'
         },
@@ -338,10 +347,7 @@ export class AssetCommand extends BaseCommand {
   }
 
   private async mintErc721(contractAddress: string, options: any): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
+    this.authService.requireAuthentication();
 
     console.log(chalk.blue('🎨 Minting ERC721 NFT...'));
 
@@ -349,11 +355,12 @@ export class AssetCommand extends BaseCommand {
     let metadataUri = options.metadata;
 
     if (!toAddress) {
-      const answers = await inquirer.prompt([
+      const answers = await prompter.prompt([
         {
           type: 'input',
           name: 'toAddress',
           message: 'Recipient address:',
+          flag: '--to <address>',
           validate: (input) => /^0x[a-fA-F0-9]{40}$/.test(input) || 'Please enter a valid Ethereum address'
         },
         {
@@ -383,61 +390,26 @@ export class AssetCommand extends BaseCommand {
   }
 
   private async listErc20(options: any): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
+    this.authService.requireAuthentication();
 
     const tokens = await this.assetService.listErc20Tokens();
 
-    if (options.format === 'json') {
-      console.log(JSON.stringify(tokens, null, 2));
-      return;
-    }
-
-    if (tokens.length === 0) {
-      console.log(chalk.yellow('📝 No ERC20 tokens found.'));
-      return;
-    }
-
-    console.log(chalk.blue('🪙 ERC20 Tokens:'));
-    console.log();
-
-    tokens.forEach((token: any, index: number) => {
-      console.log(chalk.cyan(`${index + 1}. ${token.name} (${token.symbol})`));
-      console.log(chalk.gray(`   Contract: ${token.contractAddress}`));
-      console.log(chalk.gray(`   Decimals: ${token.decimals}`));
-      console.log(chalk.gray(`   Total Supply: ${token.totalSupply}`));
-      console.log();
+    output.printList(tokens, ERC20_COLUMNS, {
+      format: options.format,
+      title: '🪙 ERC20 Tokens:',
+      empty: '📝 No ERC20 tokens found.'
     });
   }
 
   private async listErc721(options: any): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
+    this.authService.requireAuthentication();
 
     const collections = await this.assetService.listErc721Collections();
 
-    if (options.format === 'json') {
-      console.log(JSON.stringify(collections, null, 2));
-      return;
-    }
-
-    if (collections.length === 0) {
-      console.log(chalk.yellow('📝 No ERC721 collections found.'));
-      return;
-    }
-
-    console.log(chalk.blue('🎨 ERC721 Collections:'));
-    console.log();
-
-    collections.forEach((collection: any, index: number) => {
-      console.log(chalk.cyan(`${index + 1}. ${collection.name} (${collection.symbol})`));
-      console.log(chalk.gray(`   Contract: ${collection.contractAddress}`));
-      console.log(chalk.gray(`   Base URI: ${collection.baseUri || 'Not set'}`));
-      console.log();
+    output.printList(collections, ERC721_COLUMNS, {
+      format: options.format,
+      title: '🎨 ERC721 Collections:',
+      empty: '📝 No ERC721 collections found.'
     });
   }
 }
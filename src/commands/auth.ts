@@ -1,13 +1,48 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
-import inquirer from 'inquirer';
 import { BaseCommand } from './base';
-import { AuthService } from '../services/auth';
-import { ConfigService } from '../services/config';
+import { ApiToken, TOKEN_SCOPES, UserInfo } from '../services/auth';
+import { ConfigService, DEFAULT_ACCOUNT, KEYSTORE_PASSWORD_ENV, PRIVATE_KEY_ENV } from '../services/config';
+import { UnreadableCredentialsError, maskSecret } from '../services/credentials';
+import { TokenSet } from '../services/oauth';
+import { WalletKey } from '../services/wallet-auth';
+import { openBrowser } from '../utils/browser';
+import { AuthError, CancelledError, CliError, ExitCode } from '../utils/errors';
+import { Column, output } from '../utils/output';
+import { prompter } from '../utils/prompt';
+
+const ACCOUNT_COLUMNS: Column[] = [
+  { header: '', key: 'active', format: (value) => (value ? '*' : '') },
+  { header: 'ACCOUNT', key: 'name' },
+  { header: 'USER', key: 'username' },
+  { header: 'EXPIRES', key: 'expiresAt', format: (value) => (value ? new Date(value).toLocaleString() : 'never') }
+];
+
+const TOKEN_COLUMNS: Column[] = [
+  { header: 'ID', key: 'id' },
+  { header: 'DESCRIPTION', key: 'description' },
+  { header: 'SCOPES', key: 'scopes', format: (value) => formatScopes(value) },
+  { header: 'EXPIRES', key: 'expiresAt', format: (value) => (value ? new Date(value).toLocaleDateString() : 'never') },
+  { header: 'LAST USED', key: 'lastUsedAt', format: (value) => (value ? new Date(value).toLocaleDateString() : 'never') }
+];
+
+const DURATION_UNITS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+  y: 365 * 24 * 60 * 60 * 1000
+};
+
+function formatScopes(scopes: string[] | undefined): string {
+  return scopes && scopes.length > 0 ? scopes.join(', ') : 'full access';
+}
 
 export class AuthCommand extends BaseCommand {
-  private authService = new AuthService();
-  private configService = new ConfigService();
+  private authService = this.context.auth;
+  private oauthService = this.context.oauth;
+  private walletAuthService = this.context.walletAuth;
+  private idService = this.context.identities;
+  private configService = this.context.config;
 
   register(program: Command): void {
     const authCmd = program
@@ -19,6 +54,12 @@ export class AuthCommand extends BaseCommand {
       .description('Login to GameBuild platform')
       .option('-t, --token <token>', 'API token')
       .option('-u, --url <url>', 'API base URL')
+      .option('--web', 'Login in the browser (OAuth with PKCE)')
+      .option('--device', 'Login by entering a one-time code on another device (OAuth device flow)')
+      .option('--wallet', 'Login by signing a message with an Ethereum wallet (Sign-In with Ethereum)')
+      .option('--keystore <path>', 'JSON keystore holding the wallet key (with --wallet)')
+      .option('--private-key <key>', `Wallet private key (with --wallet; prefer ${PRIVATE_KEY_ENV})`)
+      .option('--chain-id <id>', 'Chain ID to sign in on (with --wallet)', '1')
       .action(async (options) => {
         try {
           await this.login(options);
@@ -29,7 +70,7 @@ export class AuthCommand extends BaseCommand {
 
     authCmd
       .command('logout')
-      .description('Logout from GameBuild platform')
+      .description('Logout of the active account')
       .action(async () => {
         try {
           await this.logout();
@@ -38,6 +79,18 @@ export class AuthCommand extends BaseCommand {
         }
       });
 
+    authCmd
+      .command('token')
+      .description('Print the access token of the active account')
+      .option('--show', 'Print the full token instead of a masked one')
+      .action(async (options) => {
+        try {
+          await this.token(options);
+        } catch (error) {
+          this.handleError(error);
+        }
+      });
+
     authCmd
       .command('status')
       .description('Check authentication status')
@@ -48,76 +101,472 @@ export class AuthCommand extends BaseCommand {
           this.handleError(error);
         }
       });
+
+    const tokensCmd = authCmd
+      .command('tokens')
+      .description('Manage personal access tokens, e.g. least-privilege tokens for CI');
+
+    tokensCmd
+      .command('create')
+      .description('Create a personal access token')
+      .option('-d, --description <text>', 'What the token is used for')
+      .option('-s, --scopes <scopes>', `Comma-separated scopes (${TOKEN_SCOPES.join(', ')})`)
+      .option('--expires-in <duration>', 'Lifetime such as 12h, 30d, 8w or 1y, or "never"', '90d')
+      .action(async (options) => {
+        try {
+          await this.createToken(options);
+        } catch (error) {
+          this.handleError(error);
+        }
+      });
+
+    tokensCmd
+      .command('list', { isDefault: true })
+      .description('List personal access tokens')
+      .option('-f, --format <format>', 'Output format (table, json, ndjson, yaml, csv)')
+      .action(async (options) => {
+        try {
+          await this.listTokens(options);
+        } catch (error) {
+          this.handleError(error);
+        }
+      });
+
+    tokensCmd
+      .command('revoke')
+      .description('Revoke a personal access token')
+      .argument('<tokenId>', 'Token ID')
+      .option('-f, --force', 'Force revocation without confirmation')
+      .action(async (tokenId, options) => {
+        try {
+          await this.revokeToken(tokenId, options);
+        } catch (error) {
+          this.handleError(error);
+        }
+      });
+
+    const accountsCmd = authCmd
+      .command('accounts')
+      .description('Manage the accounts logged in on the active profile');
+
+    accountsCmd
+      .command('list', { isDefault: true })
+      .description('List stored accounts')
+      .option('-f, --format <format>', 'Output format (table, json, ndjson, yaml, csv)')
+      .action(async (options) => {
+        try {
+          await this.listAccounts(options);
+        } catch (error) {
+          this.handleError(error);
+        }
+      });
+
+    accountsCmd
+      .command('use')
+      .description('Switch the active account')
+      .argument('<name>', 'Account name')
+      .action(async (name) => {
+        try {
+          await this.useAccount(name);
+        } catch (error) {
+          this.handleError(error);
+        }
+      });
+
+    accountsCmd
+      .command('remove')
+      .description('Remove a stored account and its session')
+      .argument('<name>', 'Account name')
+      .option('-f, --force', 'Force removal without confirmation')
+      .action(async (name, options) => {
+        try {
+          await this.removeAccount(name, options);
+        } catch (error) {
+          this.handleError(error);
+        }
+      });
   }
 
   private async login(options: any): Promise<void> {
     console.log(chalk.blue('🔐 GameBuild Authentication'));
     
     let token = options.token;
-    let baseUrl = options.url || 'https://api.gamebuild.com';
+    let baseUrl = options.url || this.configService.get('auth.baseUrl');
+
+    if (options.web || options.device || options.wallet) {
+      const tokens = options.wallet
+        ? await this.loginWithWallet(baseUrl, options)
+        : options.device
+          ? await this.loginWithDevice(baseUrl)
+          : await this.loginWithBrowser(baseUrl);
+      await this.saveLogin(baseUrl, tokens);
+      return;
+    }
 
     if (!token) {
-      const answers = await inquirer.prompt([
+      const answers = await prompter.prompt([
         {
           type: 'input',
           name: 'token',
           message: 'Enter your GameBuild API token:',
+          flag: '--token <token>',
           validate: (input) => input.length > 0 || 'Token is required'
         },
         {
           type: 'input',
           name: 'baseUrl',
           message: 'API Base URL:',
-          default: 'https://api.gamebuild.com'
+          when: !options.url,
+          default: baseUrl
         }
       ]);
       
       token = answers.token;
-      baseUrl = answers.baseUrl;
+      baseUrl = answers.baseUrl || baseUrl;
     }
 
     // Validate token
-    const isValid = await this.authService.validateToken(token, baseUrl);
+    const user = await this.authService.lookupUser(token, baseUrl);
     
-    if (isValid) {
-      // Save credentials
-      this.configService.set('auth.token', token);
-      this.configService.set('auth.baseUrl', baseUrl);
-      this.configService.save();
-      
-      console.log(chalk.green('✅ Successfully authenticated!'));
+    if (user) {
+      await this.saveLogin(baseUrl, { accessToken: token }, user);
     } else {
-      console.log(chalk.red('❌ Authentication failed. Please check your token.'));
-      process.exit(1);
+      throw new AuthError('Authentication failed. Please check your token.');
+    }
+  }
+
+  // The session is stored under --account, or else under the name of the user it belongs to
+  private async saveLogin(baseUrl: string, tokens: TokenSet, user?: UserInfo): Promise<void> {
+    const username = (user || (await this.authService.lookupUser(tokens.accessToken, baseUrl)))?.username;
+    const account = ConfigService.getAccountOverride() || username || DEFAULT_ACCOUNT;
+    // A store locked with another passphrase is kept: the right one still opens it
+    if (this.configService.getCredentialsError() instanceof UnreadableCredentialsError) {
+      this.replaceUnreadableCredentials();
+    }
+    this.authService.saveSession(baseUrl, tokens, account, username);
+
+    console.log(chalk.green('✅ Successfully authenticated!'));
+    console.log(chalk.gray(`   Account: ${account}`));
+    console.log(chalk.gray(`   Profile: ${this.configService.getActiveProfile()}`));
+  }
+
+  private async loginWithBrowser(baseUrl: string): Promise<TokenSet> {
+    const authorization = await this.oauthService.startBrowserAuthorization(baseUrl);
+
+    const opened = await openBrowser(authorization.url);
+    console.log(chalk.gray(opened ? 'Opened your browser to complete the login.' : 'Open this URL in your browser to login:'));
+    console.log(chalk.cyan(`   ${authorization.url}`));
+    console.log(chalk.yellow('⏳ Waiting for the browser login...'));
+
+    return authorization.tokens;
+  }
+
+  private async loginWithDevice(baseUrl: string): Promise<TokenSet> {
+    const device = await this.oauthService.startDeviceAuthorization(baseUrl);
+
+    console.log(chalk.gray(`Open ${device.verificationUri} on any device and enter the code:`));
+    console.log(chalk.cyan(`   ${device.userCode}`));
+    if (device.verificationUriComplete && prompter.isInteractive()) {
+      await openBrowser(device.verificationUriComplete);
     }
+    console.log(chalk.yellow('⏳ Waiting for approval...'));
+
+    return this.oauthService.pollDeviceAuthorization(baseUrl, device);
+  }
+
+  private async loginWithWallet(baseUrl: string, options: any): Promise<TokenSet> {
+    const chainId = parseInt(options.chainId, 10);
+    if (isNaN(chainId) || chainId <= 0) {
+      throw new CliError(`Invalid chain ID: ${options.chainId}`, ExitCode.Validation);
+    }
+
+    const wallet = await this.loadWallet(options);
+    console.log(chalk.gray(`   Wallet: ${wallet.address}`));
+    console.log(chalk.yellow('✍️  Signing in with your wallet...'));
+
+    return this.walletAuthService.login(baseUrl, wallet.address, chainId, (message) =>
+      this.idService.signMessage(wallet.privateKey, message)
+    );
+  }
+
+  private async loadWallet(options: any): Promise<WalletKey> {
+    if (options.keystore) {
+      let password = process.env[KEYSTORE_PASSWORD_ENV];
+      if (password === undefined) {
+        if (!prompter.isInteractive()) {
+          throw new CliError(
+            'A keystore password is required',
+            ExitCode.Validation,
+            `Prompts are disabled (--no-input or CI). Set ${KEYSTORE_PASSWORD_ENV} instead.`
+          );
+        }
+        const answers = await prompter.prompt([
+          { type: 'password', name: 'password', message: 'Keystore password:', mask: '*' }
+        ]);
+        password = answers.password as string;
+      }
+      return this.walletAuthService.loadKeystore(options.keystore, password);
+    }
+
+    let privateKey = options.privateKey || process.env[PRIVATE_KEY_ENV];
+    if (!privateKey) {
+      if (!prompter.isInteractive()) {
+        throw new CliError(
+          'A wallet private key is required',
+          ExitCode.Validation,
+          `Prompts are disabled (--no-input or CI). Set ${PRIVATE_KEY_ENV}, or pass --private-key <key> or --keystore <path>.`
+        );
+      }
+      const answers = await prompter.prompt([
+        {
+          type: 'password',
+          name: 'privateKey',
+          message: 'Wallet private key:',
+          mask: '*',
+          validate: (input) => input.length > 0 || 'Private key is required'
+        }
+      ]);
+      privateKey = answers.privateKey;
+    }
+    return this.walletAuthService.loadPrivateKey(privateKey);
   }
 
   private async logout(): Promise<void> {
-    this.configService.delete('auth.token');
-    this.configService.delete('auth.baseUrl');
+    const account = this.configService.getActiveAccount();
+    const next = this.authService.clearSession();
+
+    console.log(chalk.green(account ? `✅ Logged out of account "${account}"!` : '✅ Successfully logged out!'));
+    if (next) {
+      console.log(chalk.gray(`   Now using account "${next}"`));
+    }
+  }
+
+  private async createToken(options: any): Promise<void> {
+    this.authService.requireAuthentication();
+
+    const expiresAt = this.parseExpiry(options.expiresIn);
+
+    const answers = await prompter.prompt([
+      {
+        type: 'input',
+        name: 'description',
+        message: 'Token description:',
+        flag: '--description <text>',
+        when: !options.description,
+        validate: (input) => input.length > 0 || 'Description is required'
+      },
+      {
+        type: 'checkbox',
+        name: 'scopes',
+        message: 'Scopes (none for full access):',
+        flag: '--scopes <scopes>',
+        when: !options.scopes,
+        choices: TOKEN_SCOPES
+      }
+    ]);
+
+    const scopes: string[] = options.scopes
+      ? options.scopes.split(',').map((scope: string) => scope.trim()).filter(Boolean)
+      : answers.scopes;
+    const unknown = scopes.filter((scope) => !TOKEN_SCOPES.includes(scope));
+    if (unknown.length > 0) {
+      throw new CliError(
+        `Unknown scope${unknown.length > 1 ? 's' : ''}: ${unknown.join(', ')}`,
+        ExitCode.Validation,
+        `Valid scopes: ${TOKEN_SCOPES.join(', ')}`
+      );
+    }
+
+    const token = await this.authService.createToken({
+      description: options.description || answers.description,
+      scopes,
+      expiresAt
+    });
+
+    if (output.getFormat() !== 'table') {
+      output.print(token);
+      return;
+    }
+
+    console.log(chalk.green('✅ Token created!'));
+    console.log(chalk.gray(`   ID: ${token.id}`));
+    console.log(chalk.gray(`   Description: ${token.description}`));
+    console.log(chalk.gray(`   Scopes: ${formatScopes(token.scopes)}`));
+    console.log(chalk.gray(`   Expires: ${token.expiresAt ? new Date(token.expiresAt).toLocaleString() : 'never'}`));
+    console.log(chalk.red(`⚠️  Token: ${token.token}`));
+    console.log(chalk.yellow('   Copy it now, it will not be shown again.'));
+  }
+
+  // "30d" -> ISO timestamp 30 days from now; "never" -> undefined
+  private parseExpiry(value: string): string | undefined {
+    if (value === 'never') {
+      return undefined;
+    }
+
+    const match = /^(\d+)([hdwy])$/.exec(value);
+    if (!match || Number(match[1]) === 0) {
+      throw new CliError(
+        `Invalid expiry "${value}"`,
+        ExitCode.Validation,
+        'Use a duration such as 12h, 30d, 8w or 1y, or "never".'
+      );
+    }
+
+    return new Date(Date.now() + Number(match[1]) * DURATION_UNITS[match[2]]).toISOString();
+  }
+
+  private async listTokens(options: any): Promise<void> {
+    this.authService.requireAuthentication();
+
+    const tokens = await this.authService.listTokens();
+
+    output.printList(tokens, TOKEN_COLUMNS, {
+      format: options.format,
+      title: '🔑 Personal Access Tokens:',
+      empty: '📝 No tokens found. Create one with "gamebuild auth tokens create".'
+    });
+  }
+
+  private async revokeToken(tokenId: string, options: any): Promise<void> {
+    this.authService.requireAuthentication();
+
+    if (!options.force) {
+      const confirm = await prompter.confirm(`Are you sure you want to revoke token ${tokenId}? Anything using it will lose access.`);
+
+      if (!confirm) {
+        throw new CancelledError();
+      }
+    }
+
+    await this.authService.revokeToken(tokenId);
+
+    console.log(chalk.green('✅ Token revoked!'));
+  }
+
+  private async listAccounts(options: any): Promise<void> {
+    const active = this.configService.getActiveAccount();
+    const accounts = this.configService.listAccounts().map((name) => {
+      const account = this.configService.getAccount(name) || {};
+      return {
+        name,
+        active: name === active,
+        username: account.username,
+        expiresAt: account.expiresAt
+      };
+    });
+
+    output.printList(accounts, ACCOUNT_COLUMNS, {
+      format: options.format,
+      title: `👥 Accounts (profile: ${this.configService.getActiveProfile()}):`,
+      empty: '📝 No accounts found. Log in with "gamebuild auth login".'
+    });
+  }
+
+  private async useAccount(name: string): Promise<void> {
+    this.configService.useAccount(name);
     this.configService.save();
-    
-    console.log(chalk.green('✅ Successfully logged out!'));
+
+    console.log(chalk.green(`✅ Now using account "${name}"`));
   }
 
-  private async status(): Promise<void> {
-    const token = this.configService.get('auth.token');
-    const baseUrl = this.configService.get('auth.baseUrl');
-    
+  private async removeAccount(name: string, options: any): Promise<void> {
+    if (!this.configService.getAccount(name)) {
+      throw new CliError(`Account "${name}" not found`, ExitCode.NotFound);
+    }
+
+    if (!options.force) {
+      const confirm = await prompter.confirm(`Are you sure you want to remove account "${name}" and its session?`);
+
+      if (!confirm) {
+        throw new CancelledError();
+      }
+    }
+
+    const wasActive = this.configService.getActiveAccount() === name;
+    this.configService.removeAccount(name);
+    this.configService.save();
+
+    console.log(chalk.green(`✅ Account "${name}" removed!`));
+    const next = this.configService.getActiveAccount();
+    if (wasActive && next) {
+      console.log(chalk.gray(`   Now using account "${next}"`));
+    }
+  }
+
+  private async token(options: any): Promise<void> {
+    const token = await this.authService.getAccessToken();
+
     if (!token) {
-      console.log(chalk.yellow('⚠️  Not authenticated. Run "gamebuild auth login" to get started.'));
+      throw new AuthError('Not authenticated');
+    }
+
+    // Print the bare token so it can be captured, e.g. TOKEN=$(gamebuild auth token --show)
+    if (options.show) {
+      console.log(token);
       return;
     }
 
-    const isValid = await this.authService.validateToken(token, baseUrl);
-    
-    if (isValid) {
-      const userInfo = await this.authService.getUserInfo();
-      console.log(chalk.green('✅ Authenticated'));
-      console.log(chalk.gray(`   User: ${userInfo.username || 'Unknown'}`));
-      console.log(chalk.gray(`   API URL: ${baseUrl}`));
-    } else {
-      console.log(chalk.red('❌ Token is invalid or expired. Please login again.'));
+    console.log(chalk.gray(`Token: ${maskSecret(token)}`));
+    console.log(chalk.gray('Use --show to print the full token.'));
+  }
+
+  private async status(): Promise<void> {
+    const baseUrl = this.configService.get('auth.baseUrl');
+
+    if (!this.configService.get('auth.token')) {
+      throw new AuthError('Not authenticated');
+    }
+
+    // Through the authenticated client, so expired sessions are refreshed like for any other command
+    let userInfo: UserInfo;
+    try {
+      userInfo = await this.authService.getUserInfo();
+    } catch (error) {
+      if (error instanceof AuthError && error.status === 401) {
+        throw new AuthError('Token is invalid or expired');
+      }
+      throw error;
+    }
+
+    console.log(chalk.green('✅ Authenticated'));
+    console.log(chalk.gray(`   User: ${userInfo.username || 'Unknown'}`));
+    console.log(chalk.gray(`   API URL: ${baseUrl}`));
+    console.log(chalk.gray(`   Profile: ${this.configService.getActiveProfile()}`));
+
+    const account = this.configService.getActiveAccount();
+    if (account) {
+      console.log(chalk.gray(`   Account: ${account}`));
+    }
+    const others = this.configService.listAccounts().filter((name) => name !== account);
+    if (others.length > 0) {
+      console.log(chalk.gray(`   Other accounts: ${others.join(', ')} (switch with "gamebuild auth accounts use <name>")`));
+    }
+
+    const currentToken = await this.authService.getCurrentToken();
+    if (currentToken) {
+      this.printTokenDetails(currentToken);
+    }
+    if (userInfo.plan) {
+      this.printPlan(userInfo);
+    }
+  }
+
+  private printTokenDetails(token: ApiToken): void {
+    console.log();
+    console.log(chalk.cyan('🔑 Token:'));
+    console.log(chalk.gray(`   Description: ${token.description}`));
+    console.log(chalk.gray(`   Scopes: ${formatScopes(token.scopes)}`));
+    console.log(chalk.gray(`   Expires: ${token.expiresAt ? new Date(token.expiresAt).toLocaleString() : 'never'}`));
+  }
+
+  private printPlan(userInfo: UserInfo): void {
+    console.log();
+    console.log(chalk.cyan(`📦 Plan: ${userInfo.plan.name}`));
+    for (const [limit, value] of Object.entries(userInfo.plan.limits || {})) {
+      // concurrentBuilds -> Concurrent builds
+      const label = limit.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+      const display = value === null ? 'unlimited' : value.toLocaleString();
+      console.log(chalk.gray(`   ${label.charAt(0).toUpperCase()}${label.slice(1)}: ${display}`));
     }
   }
 }
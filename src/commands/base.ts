@@ -1,14 +1,106 @@
 import { Command } from 'commander';
+import chalk from 'chalk';
+import { CancelledError, CliError, ExitCode, GameBuildApiError, ValidationError } from '../utils/errors';
+import { ProjectManifestError } from '../services/project';
+import { Context } from '../services/context';
+import { Page, PageOptions } from '../utils/pagination';
 
 export interface ICommand {
   register(program: Command): void;
 }
 
 export abstract class BaseCommand implements ICommand {
+  protected context: Context;
+
+  // Commands get their services from the invocation's context rather than creating their own
+  constructor(context: Context = new Context()) {
+    this.context = context;
+  }
+
   abstract register(program: Command): void;
-  
+
+  /**
+   * Add --page-size, --all and --cursor to a list command. Its action reads them with
+   * pageOptions() and fetchList().
+   */
+  protected addPaginationOptions(command: Command): Command {
+    return command
+      .option('--page-size <number>', 'Number of items to fetch per request')
+      .option('--all', 'Fetch every page instead of only the first')
+      .option('--cursor <cursor>', 'Start from the cursor printed after an earlier page');
+  }
+
+  protected pageOptions(options: any): PageOptions {
+    const pageSize = options.pageSize === undefined ? undefined : Number(options.pageSize);
+    if (pageSize !== undefined && (!Number.isInteger(pageSize) || pageSize < 1)) {
+      throw new CliError(`Invalid page size: ${options.pageSize}`, ExitCode.Validation);
+    }
+    return { pageSize, cursor: options.cursor };
+  }
+
+  /**
+   * The first page of `pages`, or every page merged into one with --all.
+   */
+  protected async fetchList<T>(pages: AsyncGenerator<Page<T>>, options: any): Promise<Page<T>> {
+    const items: T[] = [];
+    for await (const page of pages) {
+      items.push(...page.items);
+      if (!options.all) {
+        return { items, nextCursor: page.nextCursor };
+      }
+    }
+    return { items };
+  }
+
+  // On stderr, so the list itself stays machine readable
+  protected printNextPage(page: Page<unknown>): void {
+    if (page.nextCursor) {
+      console.error(chalk.gray(`More results are available. Use --all, or --cursor ${page.nextCursor} for the next page.`));
+    }
+  }
+
+  // Before a command that writes new credentials, so a store that cannot be read does
+  // not fail the very commands that would fix it
+  protected replaceUnreadableCredentials(): void {
+    const error = this.context.config.getCredentialsError();
+    if (error) {
+      console.error(chalk.yellow(`⚠️  ${error.message}. Replacing the credential store; the sessions in it are lost.`));
+      this.context.config.replaceCredentials();
+    }
+  }
+
   protected handleError(error: any): void {
-    console.error('Error:', error.message);
-    process.exit(1);
+    if (error instanceof CancelledError) {
+      console.error(chalk.yellow(error.message));
+      process.exit(error.exitCode);
+    }
+
+    console.error(chalk.red('Error:'), error.message);
+
+    if (error instanceof ValidationError && error.details.length > 0) {
+      error.details.forEach((detail) => {
+        console.error(chalk.red(`   • ${detail.field ? `${detail.field}: ` : ''}${detail.message}`));
+      });
+    }
+
+    if (error instanceof ProjectManifestError) {
+      error.issues.forEach((issue) => {
+        const location = issue.line ? `line ${issue.line}, column ${issue.column}: ` : '';
+        console.error(chalk.red(`   • ${location}${issue.message}`));
+        error.getSnippet(issue).forEach((line) => console.error(chalk.gray(`     ${line}`)));
+      });
+    }
+
+    if (error instanceof CliError) {
+      if (error.hint) {
+        console.error(chalk.yellow(`   ${error.hint}`));
+      }
+      if (error instanceof GameBuildApiError && error.requestId) {
+        console.error(chalk.gray(`   Request ID: ${error.requestId}`));
+      }
+      process.exit(error.exitCode);
+    }
+
+    process.exit(ExitCode.GeneralError);
   }
 }
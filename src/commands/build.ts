@@ -1,23 +1,31 @@
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
 import chalk from 'chalk';
 import inquirer from 'inquirer';
 import { BaseCommand } from './base';
-import { BuildService } from '../services/build';
-import { AuthService } from '../services/auth';
-import { GameService } from '../services/game';
+import { BuildOptions } from '../services/build';
+import { AuthError, CliError, ExitCode } from '../utils/errors';
+import { Column, output } from '../utils/output';
+
+const BUILD_COLUMNS: Column[] = [
+  { header: 'ID', key: 'id' },
+  { header: 'STATUS', key: 'status' },
+  { header: 'ENVIRONMENT', key: 'environment' },
+  { header: 'STARTED', key: 'startedAt', format: (value) => (value ? new Date(value).toLocaleString() : '') }
+];
 
 export class BuildCommand extends BaseCommand {
-  private buildService = new BuildService();
-  private authService = new AuthService();
-  private gameService = new GameService();
+  private buildService = this.context.builds;
+  private authService = this.context.auth;
+  private gameService = this.context.games;
 
   register(program: Command): void {
     const buildCmd = program
       .command('build')
       .description('Build game project');
 
+    // "gamebuild build" on its own starts a build
     buildCmd
-      .command('start')
+      .command('start', { isDefault: true })
       .description('Start a new build')
       .option('-e, --env <environment>', 'Target environment (dev, staging, prod)', 'dev')
       .option('-p, --platform <platform>', 'Target platform override')
@@ -42,11 +50,11 @@ export class BuildCommand extends BaseCommand {
         }
       });
 
-    buildCmd
+    const listCmd = buildCmd
       .command('list')
       .description('List recent builds')
-      .option('-l, --limit <number>', 'Number of builds to show', '10')
-      .option('-f, --format <format>', 'Output format (table, json)', 'table')
+      .option('-l, --limit <number>', 'Number of builds per page (same as --page-size)', '10')
+      .option('-f, --format <format>', 'Output format (table, json, ndjson, yaml, csv)')
       .action(async (options) => {
         try {
           await this.list(options);
@@ -54,6 +62,7 @@ export class BuildCommand extends BaseCommand {
           this.handleError(error);
         }
       });
+    this.addPaginationOptions(listCmd);
 
     buildCmd
       .command('logs')
@@ -72,7 +81,8 @@ export class BuildCommand extends BaseCommand {
       .command('download')
       .description('Download build artifacts')
       .argument('<buildId>', 'Build ID')
-      .option('-o, --output <path>', 'Output directory', './downloads')
+      .option('-d, --dir <path>', 'Output directory', './downloads')
+      .addOption(new Option('-o, --output <path>', 'Deprecated, use --dir').hideHelp())
       .action(async (buildId, options) => {
         try {
           await this.download(buildId, options);
@@ -80,36 +90,18 @@ export class BuildCommand extends BaseCommand {
           this.handleError(error);
         }
       });
-
-    // Default build command (shorthand for 'build start')
-    program
-      .command('build')
-      .description('Build game project (alias for build start)')
-      .option('-e, --env <environment>', 'Target environment (dev, staging, prod)', 'dev')
-      .option('-p, --platform <platform>', 'Target platform override')
-      .option('-w, --watch', 'Watch for changes and rebuild')
-      .action(async (options) => {
-        try {
-          await this.start(options);
-        } catch (error) {
-          this.handleError(error);
-        }
-      });
   }
 
   private async start(options: any): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
+    this.authService.requireAuthentication();
 
-    const project = this.gameService.getLocalProject();
-    if (!project) {
-      console.log(chalk.red('❌ No GameBuild project found. Run "gamebuild game init" first.'));
-      return;
-    }
+    const project = this.gameService.requireLocalProject();
 
     console.log(chalk.blue('🔨 Starting build...'));
+    const files = this.buildService.getProjectFiles();
+    if (files.length > 0) {
+      console.log(chalk.gray(`📤 Uploading ${files.length} files...`));
+    }
 
     const buildOptions = {
       gameId: project.gameId,
@@ -119,7 +111,7 @@ export class BuildCommand extends BaseCommand {
     };
 
     if (options.watch) {
-      await this.buildService.startWatchBuild(buildOptions);
+      await this.watch(buildOptions);
     } else {
       const build = await this.buildService.startBuild(buildOptions);
       
@@ -134,28 +126,51 @@ export class BuildCommand extends BaseCommand {
     }
   }
 
-  private async status(buildId?: string): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
+  private async watch(buildOptions: BuildOptions): Promise<void> {
+    console.log(chalk.blue('👀 Starting watch mode...'));
+    console.log(chalk.gray('Press Ctrl+C to stop watching'));
+
+    const watcher = await this.buildService.startWatchBuild(buildOptions, {
+      onRebuild: () => console.log(chalk.blue('🔄 File changes detected, rebuilding...')),
+      onBuild: () => console.log(chalk.green('✅ Rebuild completed!')),
+      onError: (error) => {
+        // Retrying won't help once the session can no longer be refreshed
+        if (error instanceof AuthError) {
+          watcher.close();
+          this.handleError(error);
+        }
+        console.log(chalk.red(`❌ Rebuild failed: ${error.message}`));
+      }
+    });
 
-    const project = this.gameService.getLocalProject();
-    if (!project && !buildId) {
-      console.log(chalk.red('❌ No GameBuild project found. Run "gamebuild game init" first.'));
+    if (watcher.paths.length === 0) {
+      console.log(chalk.yellow('⚠️  No source directories found to watch.'));
       return;
     }
 
+    console.log(chalk.gray(`Watching: ${watcher.paths.join(', ')}`));
+
+    process.on('SIGINT', () => {
+      watcher.close();
+      console.log(chalk.yellow('\n👋 Stopping watch mode...'));
+      process.exit(0);
+    });
+  }
+
+  private async status(buildId?: string): Promise<void> {
+    this.authService.requireAuthentication();
+
+    const project = buildId ? this.gameService.getLocalProject() : this.gameService.requireLocalProject();
+
     let build;
     if (buildId) {
       build = await this.buildService.getBuild(buildId);
-    } else {
+    } else if (project) {
       build = await this.buildService.getLatestBuild(project.gameId);
     }
 
     if (!build) {
-      console.log(chalk.yellow('📝 No builds found. Start your first build with "gamebuild build start"'));
-      return;
+      throw new CliError('No builds found', ExitCode.NotFound, 'Start your first build with "gamebuild build start".');
     }
 
     console.log(chalk.blue('🔨 Build Status'));
@@ -177,52 +192,40 @@ export class BuildCommand extends BaseCommand {
   }
 
   private async list(options: any): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
+    this.authService.requireAuthentication();
 
-    const project = this.gameService.getLocalProject();
-    if (!project) {
-      console.log(chalk.red('❌ No GameBuild project found. Run "gamebuild game init" first.'));
-      return;
-    }
+    const project = this.gameService.requireLocalProject();
 
-    const builds = await this.buildService.listBuilds(project.gameId, parseInt(options.limit));
-
-    if (options.format === 'json') {
-      console.log(JSON.stringify(builds, null, 2));
-      return;
-    }
+    const pageOptions = this.pageOptions({ ...options, pageSize: options.pageSize ?? options.limit });
+    const page = await this.fetchList(this.buildService.listBuildPages(project.gameId, pageOptions), options);
 
-    if (builds.length === 0) {
-      console.log(chalk.yellow('📝 No builds found. Start your first build with "gamebuild build start"'));
-      return;
-    }
-
-    console.log(chalk.blue('🔨 Recent Builds:'));
-    console.log();
-
-    builds.forEach((build: any, index: number) => {
-      console.log(chalk.cyan(`${index + 1}. Build ${build.id}`));
-      console.log(chalk.gray(`   Status: ${this.getStatusIcon(build.status)} ${build.status}`));
-      console.log(chalk.gray(`   Environment: ${build.environment}`));
-      console.log(chalk.gray(`   Started: ${new Date(build.startedAt).toLocaleString()}`));
-      console.log();
+    output.printList(page.items, BUILD_COLUMNS, {
+      format: options.format,
+      title: '🔨 Recent Builds:',
+      empty: '📝 No builds found. Start your first build with "gamebuild build start"'
     });
+    this.printNextPage(page);
   }
 
   private async logs(buildId: string, options: any): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
+    this.authService.requireAuthentication();
 
     console.log(chalk.blue(`📋 Build Logs (${buildId})`));
     console.log();
 
     if (options.follow) {
-      await this.buildService.followLogs(buildId);
+      console.log(chalk.gray('Following logs... Press Ctrl+C to stop'));
+      process.on('SIGINT', () => {
+        console.log(chalk.yellow('\n👋 Stopped following logs.'));
+        process.exit(0);
+      });
+
+      const status = await this.buildService.followLogs(buildId, (logs) => process.stdout.write(logs));
+      console.log(chalk.gray(`\nBuild finished with status: ${status}`));
+      // So scripts following the logs can tell a failed build from a successful one
+      if (status === 'failed' || status === 'cancelled') {
+        throw new CliError(`Build ${buildId} ${status}`, ExitCode.RemoteFailure);
+      }
     } else {
       const logs = await this.buildService.getLogs(buildId);
       console.log(logs);
@@ -230,17 +233,20 @@ export class BuildCommand extends BaseCommand {
   }
 
   private async download(buildId: string, options: any): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
+    this.authService.requireAuthentication();
+
+    let dir = options.dir;
+    if (options.output) {
+      console.error(chalk.yellow('⚠️  --output is deprecated for "build download" and will be removed; use --dir.'));
+      dir = options.output;
     }
 
     console.log(chalk.blue(`📥 Downloading build ${buildId}...`));
 
-    await this.buildService.downloadBuild(buildId, options.output);
+    await this.buildService.downloadBuild(buildId, dir);
     
     console.log(chalk.green('✅ Build downloaded successfully!'));
-    console.log(chalk.gray(`   Location: ${options.output}`));
+    console.log(chalk.gray(`   Location: ${dir}`));
   }
 
   private getStatusIcon(status: string): string {
@@ -0,0 +1,29 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { BaseCommand } from './base';
+
+export class CacheCommand extends BaseCommand {
+  private responseCache = this.context.cache;
+
+  register(program: Command): void {
+    const cacheCmd = program
+      .command('cache')
+      .description('Manage cached API responses and names');
+
+    cacheCmd
+      .command('clear')
+      .description('Remove every cached response and name, for all profiles')
+      .action(async () => {
+        try {
+          await this.clear();
+        } catch (error) {
+          this.handleError(error);
+        }
+      });
+  }
+
+  private async clear(): Promise<void> {
+    const count = this.responseCache.clear();
+    console.log(chalk.green(count > 0 ? `✅ Cleared ${count} cached ${count === 1 ? 'entry' : 'entries'}` : '✅ The cache is already empty'));
+  }
+}
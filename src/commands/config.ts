@@ -1,11 +1,33 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
-import inquirer from 'inquirer';
 import { BaseCommand } from './base';
-import { ConfigService } from '../services/config';
+import {
+  ConfigScope,
+  DEFAULT_ACCOUNT,
+  DEFAULT_CONFIG,
+  parseConfigValue,
+  ProfileConfig
+} from '../services/config';
+import { maskSecret } from '../services/credentials';
+import { CancelledError, CliError, ExitCode } from '../utils/errors';
+import { Column, output } from '../utils/output';
+import { prompter } from '../utils/prompt';
+
+const CONFIG_ENTRY_COLUMNS: Column[] = [
+  { header: 'KEY', key: 'key' },
+  { header: 'VALUE', key: 'value' },
+  { header: 'ORIGIN', key: 'origin' }
+];
+
+const PROFILE_COLUMNS: Column[] = [
+  { header: '', key: 'active', format: (value) => (value ? '*' : '') },
+  { header: 'NAME', key: 'name' },
+  { header: 'API URL', key: 'baseUrl' },
+  { header: 'AUTHENTICATED', key: 'authenticated', format: (value) => (value ? 'yes' : 'no') }
+];
 
 export class ConfigCommand extends BaseCommand {
-  private configService = new ConfigService();
+  private configService = this.context.config;
 
   register(program: Command): void {
     const configCmd = program
@@ -17,9 +39,10 @@ export class ConfigCommand extends BaseCommand {
       .description('Set a configuration value')
       .argument('<key>', 'Configuration key (e.g., auth.baseUrl)')
       .argument('<value>', 'Configuration value')
-      .action(async (key, value) => {
+      .option('--local', 'Store the value in the project .gamebuild.json instead of the global config')
+      .action(async (key, value, options) => {
         try {
-          await this.set(key, value);
+          await this.set(key, value, options);
         } catch (error) {
           this.handleError(error);
         }
@@ -40,7 +63,8 @@ export class ConfigCommand extends BaseCommand {
     configCmd
       .command('list')
       .description('List all configuration values')
-      .option('-f, --format <format>', 'Output format (table, json)', 'table')
+      .option('-f, --format <format>', 'Output format (table, json, ndjson, yaml, csv)')
+      .option('--show-origin', 'Show where each effective value comes from, including defaults')
       .action(async (options) => {
         try {
           await this.list(options);
@@ -54,6 +78,7 @@ export class ConfigCommand extends BaseCommand {
       .description('Delete a configuration value')
       .argument('<key>', 'Configuration key')
       .option('-f, --force', 'Force deletion without confirmation')
+      .option('--local', 'Delete the value from the project .gamebuild.json')
       .action(async (key, options) => {
         try {
           await this.delete(key, options);
@@ -84,50 +109,107 @@ export class ConfigCommand extends BaseCommand {
           this.handleError(error);
         }
       });
+
+    const profileCmd = configCmd
+      .command('profile')
+      .description('Manage named configuration profiles');
+
+    profileCmd
+      .command('create')
+      .description('Create a new profile')
+      .argument('<name>', 'Profile name')
+      .option('-u, --url <url>', 'API base URL for this profile')
+      .option('-t, --token <token>', 'API token for this profile')
+      .option('--use', 'Switch to the new profile')
+      .action(async (name, options) => {
+        try {
+          await this.createProfile(name, options);
+        } catch (error) {
+          this.handleError(error);
+        }
+      });
+
+    profileCmd
+      .command('use')
+      .description('Switch the active profile')
+      .argument('<name>', 'Profile name')
+      .action(async (name) => {
+        try {
+          await this.useProfile(name);
+        } catch (error) {
+          this.handleError(error);
+        }
+      });
+
+    profileCmd
+      .command('list')
+      .description('List all profiles')
+      .option('-f, --format <format>', 'Output format (table, json, ndjson, yaml, csv)')
+      .action(async (options) => {
+        try {
+          await this.listProfiles(options);
+        } catch (error) {
+          this.handleError(error);
+        }
+      });
+
+    profileCmd
+      .command('delete')
+      .description('Delete a profile')
+      .argument('<name>', 'Profile name')
+      .option('-f, --force', 'Force deletion without confirmation')
+      .action(async (name, options) => {
+        try {
+          await this.deleteProfile(name, options);
+        } catch (error) {
+          this.handleError(error);
+        }
+      });
   }
 
-  private async set(key: string, value: string): Promise<void> {
-    // Try to parse as JSON for complex values
-    let parsedValue: any = value;
-    
-    if (value.toLowerCase() === 'true') {
-      parsedValue = true;
-    } else if (value.toLowerCase() === 'false') {
-      parsedValue = false;
-    } else if (!isNaN(Number(value))) {
-      parsedValue = Number(value);
-    } else if (value.startsWith('{') || value.startsWith('[')) {
-      try {
-        parsedValue = JSON.parse(value);
-      } catch {
-        // Keep as string if not valid JSON
-      }
-    }
+  private async set(key: string, value: string, options: any): Promise<void> {
+    const parsedValue = parseConfigValue(value, key);
+    const scope: ConfigScope = options.local ? 'local' : 'global';
 
-    this.configService.set(key, parsedValue);
+    this.configService.set(key, parsedValue, scope);
     this.configService.save();
 
     console.log(chalk.green('✅ Configuration updated!'));
-    console.log(chalk.gray(`   ${key} = ${JSON.stringify(parsedValue)}`));
+    if (options.local) {
+      console.log(chalk.gray(`   File: ${this.configService.getProjectPath()}`));
+    }
+    console.log(chalk.gray(`   ${key} = ${JSON.stringify(this.maskSensitiveValue(key, parsedValue))}`));
   }
 
   private async get(key: string): Promise<void> {
     const value = this.configService.get(key);
 
     if (value === undefined) {
-      console.log(chalk.yellow(`⚠️  Configuration key "${key}" not found.`));
-      return;
+      throw new CliError(`Configuration key "${key}" not found`, ExitCode.NotFound);
     }
 
+    const displayValue = this.maskSensitiveValue(key, value);
+
     console.log(chalk.cyan(key));
-    console.log(chalk.gray(JSON.stringify(value, null, 2)));
+    console.log(chalk.gray(JSON.stringify(displayValue, null, 2)));
+    if (JSON.stringify(displayValue) !== JSON.stringify(value)) {
+      console.log(chalk.gray('Secrets are masked. Use "gamebuild auth token --show" to print the token.'));
+    }
   }
 
   private async list(options: any): Promise<void> {
-    const config = this.configService.getAll();
+    if (options.showOrigin) {
+      this.listWithOrigin(options);
+      return;
+    }
+
+    const config = this.configService.getEntries(false).reduce((result: any, entry) => {
+      this.setNested(result, entry.key, this.maskSensitiveValue(entry.key, entry.value));
+      return result;
+    }, {});
 
-    if (options.format === 'json') {
-      console.log(JSON.stringify(config, null, 2));
+    if (output.getFormat(options.format) !== 'table') {
+      output.print(config, options.format);
       return;
     }
 
@@ -136,12 +218,41 @@ export class ConfigCommand extends BaseCommand {
       return;
     }
 
-    console.log(chalk.blue('⚙️  Configuration:'));
+    console.log(chalk.blue(`⚙️  Configuration (profile: ${this.configService.getActiveProfile()}):`));
     console.log();
 
     this.printConfigObject(config);
   }
 
+  private listWithOrigin(options: any): void {
+    const entries = this.configService.getEntries().map((entry) => ({
+      ...entry,
+      value: this.maskSensitiveValue(entry.key, entry.value)
+    }));
+
+    if (output.getFormat(options.format) !== 'table') {
+      output.printList(entries, CONFIG_ENTRY_COLUMNS, { format: options.format });
+      return;
+    }
+
+    console.log(chalk.blue(`⚙️  Configuration (profile: ${this.configService.getActiveProfile()}):`));
+    console.log();
+
+    entries.forEach((entry) => {
+      console.log(chalk.gray(`  ${entry.key} = ${JSON.stringify(entry.value)}`) + chalk.cyan(`  (${entry.origin})`));
+    });
+  }
+
+  private setNested(obj: any, key: string, value: any): void {
+    const keys = key.split('.');
+    let current = obj;
+    for (let i = 0; i < keys.length - 1; i++) {
+      current[keys[i]] = current[keys[i]] || {};
+      current = current[keys[i]];
+    }
+    current[keys[keys.length - 1]] = value;
+  }
+
   private printConfigObject(obj: any, prefix = ''): void {
     for (const [key, value] of Object.entries(obj)) {
       const fullKey = prefix ? `${prefix}.${key}` : key;
@@ -150,48 +261,47 @@ export class ConfigCommand extends BaseCommand {
         console.log(chalk.cyan(`${fullKey}:`));
         this.printConfigObject(value, fullKey);
       } else {
-        // Mask sensitive values
-        const displayValue = this.maskSensitiveValue(fullKey, value);
-        console.log(chalk.gray(`  ${fullKey} = ${JSON.stringify(displayValue)}`));
+        console.log(chalk.gray(`  ${fullKey} = ${JSON.stringify(value)}`));
       }
     }
   }
 
   private maskSensitiveValue(key: string, value: any): any {
     const sensitiveKeys = ['token', 'password', 'secret', 'key', 'apiKey'];
-    
+
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([childKey, childValue]) => [
+          childKey,
+          this.maskSensitiveValue(`${key}.${childKey}`, childValue)
+        ])
+      );
+    }
+
     if (typeof value === 'string' && sensitiveKeys.some(sk => key.toLowerCase().includes(sk))) {
-      return value.length > 8 ? `${value.substring(0, 4)}...${value.substring(value.length - 4)}` : '***';
+      return maskSecret(value);
     }
     
     return value;
   }
 
   private async delete(key: string, options: any): Promise<void> {
-    const currentValue = this.configService.get(key);
+    const scope: ConfigScope = options.local ? 'local' : 'global';
+    const currentValue = options.local ? this.configService.getLocal(key) : this.configService.get(key);
     
     if (currentValue === undefined) {
-      console.log(chalk.yellow(`⚠️  Configuration key "${key}" not found.`));
-      return;
+      throw new CliError(`Configuration key "${key}" not found`, ExitCode.NotFound);
     }
 
     if (!options.force) {
-      const { confirm } = await inquirer.prompt([
-        {
-          type: 'confirm',
-          name: 'confirm',
-          message: `Are you sure you want to delete "${key}"?`,
-          default: false
-        }
-      ]);
+      const confirm = await prompter.confirm(`Are you sure you want to delete "${key}"?`);
 
       if (!confirm) {
-        console.log(chalk.yellow('Operation cancelled.'));
-        return;
+        throw new CancelledError();
       }
     }
 
-    this.configService.delete(key);
+    this.configService.delete(key, scope);
     this.configService.save();
 
     console.log(chalk.green('✅ Configuration key deleted!'));
@@ -199,21 +309,14 @@ export class ConfigCommand extends BaseCommand {
 
   private async reset(options: any): Promise<void> {
     if (!options.force) {
-      const { confirm } = await inquirer.prompt([
-        {
-          type: 'confirm',
-          name: 'confirm',
-          message: 'Are you sure you want to reset all configuration? This will remove all saved settings including authentication.',
-          default: false
-        }
-      ]);
+      const confirm = await prompter.confirm('Are you sure you want to reset all configuration? This will remove all saved settings including authentication.');
 
       if (!confirm) {
-        console.log(chalk.yellow('Operation cancelled.'));
-        return;
+        throw new CancelledError();
       }
     }
 
+    this.replaceUnreadableCredentials();
     this.configService.clear();
     this.configService.save();
 
@@ -221,12 +324,79 @@ export class ConfigCommand extends BaseCommand {
     console.log(chalk.gray('   You will need to login again: gamebuild auth login'));
   }
 
+  private async createProfile(name: string, options: any): Promise<void> {
+    const profile: ProfileConfig = {};
+
+    if (options.url) {
+      profile.auth = { baseUrl: options.url };
+    }
+    if (options.token) {
+      profile.accounts = { [DEFAULT_ACCOUNT]: { token: options.token } };
+      profile.activeAccount = DEFAULT_ACCOUNT;
+    }
+
+    this.configService.createProfile(name, profile);
+    if (options.use) {
+      this.configService.useProfile(name);
+    }
+    this.configService.save();
+
+    console.log(chalk.green(`✅ Profile "${name}" created!`));
+    if (options.use) {
+      console.log(chalk.gray(`   Now using profile "${name}".`));
+    } else {
+      console.log(chalk.gray(`   Switch to it with: gamebuild config profile use ${name}`));
+    }
+    if (!options.token) {
+      console.log(chalk.gray(`   Log in with: gamebuild --profile ${name} auth login`));
+    }
+  }
+
+  private async useProfile(name: string): Promise<void> {
+    this.configService.useProfile(name);
+    this.configService.save();
+
+    console.log(chalk.green(`✅ Now using profile "${name}"`));
+  }
+
+  private async listProfiles(options: any): Promise<void> {
+    const active = this.configService.getActiveProfile();
+    const profiles = this.configService.listProfiles().map((name) => {
+      const profile = this.configService.getProfile(name) || {};
+      return {
+        name,
+        active: name === active,
+        baseUrl: profile.auth?.baseUrl || DEFAULT_CONFIG.auth?.baseUrl,
+        authenticated: Object.values(profile.accounts || {}).some((account) => !!account.token)
+      };
+    });
+
+    output.printList(profiles, PROFILE_COLUMNS, { format: options.format, title: '👤 Profiles:' });
+  }
+
+  private async deleteProfile(name: string, options: any): Promise<void> {
+    if (!this.configService.getProfile(name)) {
+      throw new CliError(`Profile "${name}" not found`, ExitCode.NotFound);
+    }
+
+    if (!options.force) {
+      const confirm = await prompter.confirm(`Are you sure you want to delete profile "${name}" and its credentials?`);
+
+      if (!confirm) {
+        throw new CancelledError();
+      }
+    }
+
+    this.configService.deleteProfile(name);
+    this.configService.save();
+
+    console.log(chalk.green(`✅ Profile "${name}" deleted!`));
+  }
+
   private async edit(): Promise<void> {
     const { spawn } = require('child_process');
-    const os = require('os');
-    const path = require('path');
 
-    const configPath = path.join(os.homedir(), '.gamebuild', 'config.json');
+    const configPath = this.configService.getPath();
     
     // Determine editor
     const editor = process.env.EDITOR || process.env.VISUAL || (process.platform === 'win32' ? 'notepad' : 'nano');
@@ -242,9 +412,10 @@ export class ConfigCommand extends BaseCommand {
       if (code === 0) {
         console.log(chalk.green('✅ Configuration file saved!'));
         // Reload configuration
-        this.configService = new ConfigService();
+        this.configService.reload();
       } else {
         console.log(chalk.red('❌ Editor closed with error.'));
+        process.exitCode = ExitCode.GeneralError;
       }
     });
 
@@ -252,6 +423,7 @@ export class ConfigCommand extends BaseCommand {
       console.log(chalk.red(`❌ Failed to open editor: ${error.message}`));
       console.log(chalk.gray(`   Try setting the EDITOR environment variable to your preferred editor.`));
       console.log(chalk.gray(`   Example: export EDITOR=code  # for VS Code`));
+      process.exitCode = ExitCode.GeneralError;
     });
   }
 }
@@ -1,23 +1,32 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
-import inquirer from 'inquirer';
 import { BaseCommand } from './base';
-import { DeployService } from '../services/deploy';
-import { AuthService } from '../services/auth';
-import { GameService } from '../services/game';
+import { CancelledError, CliError, ExitCode } from '../utils/errors';
+import { Column, output } from '../utils/output';
+import { prompter } from '../utils/prompt';
+
+const DEPLOYMENT_COLUMNS: Column[] = [
+  { header: 'ID', key: 'id' },
+  { header: 'STATUS', key: 'status' },
+  { header: 'ENVIRONMENT', key: 'environment' },
+  { header: 'PLATFORM', key: 'platform' },
+  { header: 'STARTED', key: 'startedAt', format: (value) => (value ? new Date(value).toLocaleString() : '') },
+  { header: 'URL', key: 'url' }
+];
 
 export class DeployCommand extends BaseCommand {
-  private deployService = new DeployService();
-  private authService = new AuthService();
-  private gameService = new GameService();
+  private deployService = this.context.deployments;
+  private authService = this.context.auth;
+  private gameService = this.context.games;
 
   register(program: Command): void {
     const deployCmd = program
       .command('deploy')
       .description('Deploy game to various platforms');
 
+    // "gamebuild deploy" on its own starts a deployment
     deployCmd
-      .command('start')
+      .command('start', { isDefault: true })
       .description('Start a new deployment')
       .option('-b, --build-id <buildId>', 'Build ID to deploy')
       .option('-e, --env <environment>', 'Target environment (staging, prod)', 'staging')
@@ -42,11 +51,11 @@ export class DeployCommand extends BaseCommand {
         }
       });
 
-    deployCmd
+    const listCmd = deployCmd
       .command('list')
       .description('List recent deployments')
-      .option('-l, --limit <number>', 'Number of deployments to show', '10')
-      .option('-f, --format <format>', 'Output format (table, json)', 'table')
+      .option('-l, --limit <number>', 'Number of deployments per page (same as --page-size)', '10')
+      .option('-f, --format <format>', 'Output format (table, json, ndjson, yaml, csv)')
       .action(async (options) => {
         try {
           await this.list(options);
@@ -54,6 +63,7 @@ export class DeployCommand extends BaseCommand {
           this.handleError(error);
         }
       });
+    this.addPaginationOptions(listCmd);
 
     deployCmd
       .command('rollback')
@@ -80,34 +90,12 @@ export class DeployCommand extends BaseCommand {
           this.handleError(error);
         }
       });
-
-    // Default deploy command (shorthand for 'deploy start')
-    program
-      .command('deploy')
-      .description('Deploy game (alias for deploy start)')
-      .option('-b, --build-id <buildId>', 'Build ID to deploy')
-      .option('-e, --env <environment>', 'Target environment (staging, prod)', 'staging')
-      .option('-p, --platform <platform>', 'Deployment platform')
-      .action(async (options) => {
-        try {
-          await this.start(options);
-        } catch (error) {
-          this.handleError(error);
-        }
-      });
   }
 
   private async start(options: any): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
+    this.authService.requireAuthentication();
 
-    const project = this.gameService.getLocalProject();
-    if (!project) {
-      console.log(chalk.red('❌ No GameBuild project found. Run "gamebuild game init" first.'));
-      return;
-    }
+    const project = this.gameService.requireLocalProject();
 
     console.log(chalk.blue('🚀 Starting deployment...'));
 
@@ -118,8 +106,7 @@ export class DeployCommand extends BaseCommand {
       // Get latest successful build
       const latestBuild = await this.deployService.getLatestSuccessfulBuild(project.gameId);
       if (!latestBuild) {
-        console.log(chalk.red('❌ No successful builds found. Run "gamebuild build start" first.'));
-        return;
+        throw new CliError('No successful builds found', ExitCode.NotFound, 'Run "gamebuild build start" first.');
       }
       buildId = latestBuild.id;
       console.log(chalk.gray(`Using latest build: ${buildId}`));
@@ -130,19 +117,19 @@ export class DeployCommand extends BaseCommand {
       const platforms = this.deployService.getAvailablePlatforms(game.platform);
       
       if (platforms.length === 0) {
-        console.log(chalk.red('❌ No deployment platforms available for this game type.'));
-        return;
+        throw new CliError('No deployment platforms available for this game type', ExitCode.Validation);
       }
 
       if (platforms.length === 1) {
         platform = platforms[0].value;
         console.log(chalk.gray(`Using platform: ${platform}`));
       } else {
-        const { selectedPlatform } = await inquirer.prompt([
+        const { selectedPlatform } = await prompter.prompt([
           {
             type: 'list',
             name: 'selectedPlatform',
             message: 'Select deployment platform:',
+            flag: '--platform <platform>',
             choices: platforms
           }
         ]);
@@ -168,27 +155,19 @@ export class DeployCommand extends BaseCommand {
   }
 
   private async status(deploymentId?: string): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
+    this.authService.requireAuthentication();
 
-    const project = this.gameService.getLocalProject();
-    if (!project && !deploymentId) {
-      console.log(chalk.red('❌ No GameBuild project found. Run "gamebuild game init" first.'));
-      return;
-    }
+    const project = deploymentId ? this.gameService.getLocalProject() : this.gameService.requireLocalProject();
 
     let deployment;
     if (deploymentId) {
       deployment = await this.deployService.getDeployment(deploymentId);
-    } else {
+    } else if (project) {
       deployment = await this.deployService.getLatestDeployment(project.gameId);
     }
 
     if (!deployment) {
-      console.log(chalk.yellow('📝 No deployments found. Start your first deployment with "gamebuild deploy start"'));
-      return;
+      throw new CliError('No deployments found', ExitCode.NotFound, 'Start your first deployment with "gamebuild deploy start".');
     }
 
     console.log(chalk.blue('🚀 Deployment Status'));
@@ -210,64 +189,29 @@ export class DeployCommand extends BaseCommand {
   }
 
   private async list(options: any): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
-
-    const project = this.gameService.getLocalProject();
-    if (!project) {
-      console.log(chalk.red('❌ No GameBuild project found. Run "gamebuild game init" first.'));
-      return;
-    }
+    this.authService.requireAuthentication();
 
-    const deployments = await this.deployService.listDeployments(project.gameId, parseInt(options.limit));
-
-    if (options.format === 'json') {
-      console.log(JSON.stringify(deployments, null, 2));
-      return;
-    }
-
-    if (deployments.length === 0) {
-      console.log(chalk.yellow('📝 No deployments found. Start your first deployment with "gamebuild deploy start"'));
-      return;
-    }
+    const project = this.gameService.requireLocalProject();
 
-    console.log(chalk.blue('🚀 Recent Deployments:'));
-    console.log();
+    const pageOptions = this.pageOptions({ ...options, pageSize: options.pageSize ?? options.limit });
+    const page = await this.fetchList(this.deployService.listDeploymentPages(project.gameId, pageOptions), options);
 
-    deployments.forEach((deployment: any, index: number) => {
-      console.log(chalk.cyan(`${index + 1}. Deployment ${deployment.id}`));
-      console.log(chalk.gray(`   Status: ${this.getStatusIcon(deployment.status)} ${deployment.status}`));
-      console.log(chalk.gray(`   Environment: ${deployment.environment}`));
-      console.log(chalk.gray(`   Platform: ${deployment.platform}`));
-      console.log(chalk.gray(`   Started: ${new Date(deployment.startedAt).toLocaleString()}`));
-      if (deployment.url) {
-        console.log(chalk.gray(`   URL: ${deployment.url}`));
-      }
-      console.log();
+    output.printList(page.items, DEPLOYMENT_COLUMNS, {
+      format: options.format,
+      title: '🚀 Recent Deployments:',
+      empty: '📝 No deployments found. Start your first deployment with "gamebuild deploy start"'
     });
+    this.printNextPage(page);
   }
 
   private async rollback(deploymentId: string, options: any): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
+    this.authService.requireAuthentication();
 
     if (!options.force) {
-      const { confirm } = await inquirer.prompt([
-        {
-          type: 'confirm',
-          name: 'confirm',
-          message: `Are you sure you want to rollback to deployment "${deploymentId}"?`,
-          default: false
-        }
-      ]);
+      const confirm = await prompter.confirm(`Are you sure you want to rollback to deployment "${deploymentId}"?`);
 
       if (!confirm) {
-        console.log(chalk.yellow('Operation cancelled.'));
-        return;
+        throw new CancelledError();
       }
     }
 
@@ -281,16 +225,24 @@ export class DeployCommand extends BaseCommand {
   }
 
   private async logs(deploymentId: string, options: any): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
+    this.authService.requireAuthentication();
 
     console.log(chalk.blue(`📋 Deployment Logs (${deploymentId})`));
     console.log();
 
     if (options.follow) {
-      await this.deployService.followLogs(deploymentId);
+      console.log(chalk.gray('Following logs... Press Ctrl+C to stop'));
+      process.on('SIGINT', () => {
+        console.log(chalk.yellow('\n👋 Stopped following logs.'));
+        process.exit(0);
+      });
+
+      const status = await this.deployService.followLogs(deploymentId, (logs) => process.stdout.write(logs));
+      console.log(chalk.gray(`\nDeployment finished with status: ${status}`));
+      // So scripts following the logs can tell a failed deployment from a successful one
+      if (status === 'failed' || status === 'cancelled') {
+        throw new CliError(`Deployment ${deploymentId} ${status}`, ExitCode.RemoteFailure);
+      }
     } else {
       const logs = await this.deployService.getLogs(deploymentId);
       console.log(logs);
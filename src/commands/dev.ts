@@ -0,0 +1,66 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { BaseCommand } from './base';
+import { DEFAULT_MOCK_PORT, MockRequestLog, MockServer } from '../services/mock-server';
+import { CliError, ExitCode } from '../utils/errors';
+
+export class DevCommand extends BaseCommand {
+  register(program: Command): void {
+    const devCmd = program
+      .command('dev')
+      .description('Tools for developing against GameBuild offline');
+
+    devCmd
+      .command('mock-server')
+      .description('Run a local mock of the GameBuild API')
+      .option('-p, --port <port>', 'Port to listen on', String(DEFAULT_MOCK_PORT))
+      .option('--host <host>', 'Interface to listen on', '127.0.0.1')
+      .option('--data <file>', 'Keep state in a JSON file so it survives restarts')
+      .option('--token <token>', 'Only accept this token (any token is accepted by default)')
+      .option('-q, --quiet', 'Do not log requests')
+      .action(async (options) => {
+        try {
+          await this.mockServer(options);
+        } catch (error) {
+          this.handleError(error);
+        }
+      });
+  }
+
+  private async mockServer(options: any): Promise<void> {
+    const port = Number(options.port);
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+      throw new CliError(`Invalid port: ${options.port}`, ExitCode.Validation);
+    }
+
+    const server = new MockServer({
+      port,
+      host: options.host,
+      dataFile: options.data,
+      token: options.token,
+      onRequest: options.quiet ? undefined : (request) => console.log(this.formatRequest(request))
+    });
+    const url = await server.start();
+
+    console.log(chalk.green(`🧪 Mock GameBuild API listening on ${url}`));
+    console.log(chalk.gray(`   State: ${options.data ? options.data : 'in memory'}`));
+    console.log();
+    console.log(chalk.gray('Point the CLI at it with:'));
+    console.log(chalk.cyan(`   gamebuild config profile create mock --url ${url}`));
+    console.log(chalk.cyan(`   gamebuild --profile mock auth login --token ${options.token || 'dev'}`));
+    console.log(chalk.gray(`or set GAMEBUILD_BASE_URL=${url} for a single command.`));
+    console.log(chalk.gray('Press Ctrl+C to stop'));
+    console.log();
+
+    process.on('SIGINT', async () => {
+      await server.stop();
+      console.log(chalk.yellow('\n👋 Mock server stopped.'));
+      process.exit(0);
+    });
+  }
+
+  private formatRequest(request: MockRequestLog): string {
+    const color = request.status >= 500 ? chalk.red : request.status >= 400 ? chalk.yellow : chalk.green;
+    return `${chalk.gray(new Date().toLocaleTimeString())} ${request.method.padEnd(6)} ${request.path} ${color(String(request.status))} ${chalk.gray(`${request.duration}ms`)}`;
+  }
+}
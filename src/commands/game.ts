@@ -1,13 +1,22 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
-import inquirer from 'inquirer';
 import { BaseCommand } from './base';
-import { GameService } from '../services/game';
-import { AuthService } from '../services/auth';
+import { CancelledError, CliError, ExitCode } from '../utils/errors';
+import { Column, output } from '../utils/output';
+import { prompter } from '../utils/prompt';
+
+const GAME_COLUMNS: Column[] = [
+  { header: 'ID', key: 'id' },
+  { header: 'NAME', key: 'name' },
+  { header: 'PLATFORM', key: 'platform' },
+  { header: 'STATUS', key: 'status' },
+  { header: 'CREATED', key: 'createdAt', format: (value) => (value ? new Date(value).toLocaleDateString() : '') }
+];
 
 export class GameCommand extends BaseCommand {
-  private gameService = new GameService();
-  private authService = new AuthService();
+  private gameService = this.context.games;
+  private authService = this.context.auth;
+  private resolver = this.context.resolver;
 
   register(program: Command): void {
     const gameCmd = program
@@ -28,10 +37,10 @@ export class GameCommand extends BaseCommand {
         }
       });
 
-    gameCmd
+    const listCmd = gameCmd
       .command('list')
       .description('List all your games')
-      .option('-f, --format <format>', 'Output format (table, json)', 'table')
+      .option('-f, --format <format>', 'Output format (table, json, ndjson, yaml, csv)')
       .action(async (options) => {
         try {
           await this.list(options);
@@ -39,11 +48,12 @@ export class GameCommand extends BaseCommand {
           this.handleError(error);
         }
       });
+    this.addPaginationOptions(listCmd);
 
     gameCmd
       .command('info')
       .description('Get information about a game')
-      .argument('<gameId>', 'Game ID or name')
+      .argument('<gameId>', 'Game ID or name, or "." for the current project')
       .action(async (gameId) => {
         try {
           await this.info(gameId);
@@ -55,7 +65,7 @@ export class GameCommand extends BaseCommand {
     gameCmd
       .command('delete')
       .description('Delete a game')
-      .argument('<gameId>', 'Game ID or name')
+      .argument('<gameId>', 'Game ID or exact name, or "." for the current project')
       .option('-f, --force', 'Force deletion without confirmation')
       .action(async (gameId, options) => {
         try {
@@ -79,10 +89,7 @@ export class GameCommand extends BaseCommand {
   }
 
   private async create(options: any): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
+    this.authService.requireAuthentication();
 
     console.log(chalk.blue('🎮 Creating new game project...'));
 
@@ -90,12 +97,13 @@ export class GameCommand extends BaseCommand {
     let platform = options.platform;
     let template = options.template;
 
-    if (!name || !platform) {
-      const answers = await inquirer.prompt([
+    if (!name || !platform || !template) {
+      const answers = await prompter.prompt([
         {
           type: 'input',
           name: 'name',
           message: 'Game name:',
+          flag: '--name <name>',
           when: !name,
           validate: (input) => input.length > 0 || 'Game name is required'
         },
@@ -103,6 +111,7 @@ export class GameCommand extends BaseCommand {
           type: 'list',
           name: 'platform',
           message: 'Target platform:',
+          flag: '--platform <platform>',
           when: !platform,
           choices: [
             { name: '🌐 Web (HTML5)', value: 'web' },
@@ -115,6 +124,7 @@ export class GameCommand extends BaseCommand {
           type: 'list',
           name: 'template',
           message: 'Project template:',
+          flag: '--template <template>',
           when: !template,
           choices: [
             { name: '🎯 Basic Game Template', value: 'basic' },
@@ -146,43 +156,22 @@ export class GameCommand extends BaseCommand {
   }
 
   private async list(options: any): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
-
-    const games = await this.gameService.listGames();
-
-    if (options.format === 'json') {
-      console.log(JSON.stringify(games, null, 2));
-      return;
-    }
-
-    if (games.length === 0) {
-      console.log(chalk.yellow('📝 No games found. Create your first game with "gamebuild game create"'));
-      return;
-    }
+    this.authService.requireAuthentication();
 
-    console.log(chalk.blue('🎮 Your Games:'));
-    console.log();
+    const page = await this.fetchList(this.gameService.listGamePages(this.pageOptions(options)), options);
 
-    games.forEach((game, index) => {
-      console.log(chalk.cyan(`${index + 1}. ${game.name}`));
-      console.log(chalk.gray(`   ID: ${game.id}`));
-      console.log(chalk.gray(`   Platform: ${game.platform}`));
-      console.log(chalk.gray(`   Status: ${game.status}`));
-      console.log(chalk.gray(`   Created: ${new Date(game.createdAt).toLocaleDateString()}`));
-      console.log();
+    output.printList(page.items, GAME_COLUMNS, {
+      format: options.format,
+      title: '🎮 Your Games:',
+      empty: '📝 No games found. Create your first game with "gamebuild game create"'
     });
+    this.printNextPage(page);
   }
 
   private async info(gameId: string): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
+    this.authService.requireAuthentication();
 
-    const game = await this.gameService.getGame(gameId);
+    const game = await this.resolver.findGame(gameId);
 
     console.log(chalk.blue(`🎮 Game Information`));
     console.log();
@@ -197,36 +186,27 @@ export class GameCommand extends BaseCommand {
   }
 
   private async delete(gameId: string, options: any): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
+    this.authService.requireAuthentication();
+
+    const game = await this.resolver.findGame(gameId, { exact: true });
 
     if (!options.force) {
-      const { confirm } = await inquirer.prompt([
-        {
-          type: 'confirm',
-          name: 'confirm',
-          message: `Are you sure you want to delete game "${gameId}"? This action cannot be undone.`,
-          default: false
-        }
-      ]);
+      const confirm = await prompter.confirm(
+        `Are you sure you want to delete game "${game.name}" (${game.id})? This action cannot be undone.`
+      );
 
       if (!confirm) {
-        console.log(chalk.yellow('Operation cancelled.'));
-        return;
+        throw new CancelledError();
       }
     }
 
-    await this.gameService.deleteGame(gameId);
+    await this.gameService.deleteGame(game.id);
+    this.resolver.forget('game', game.id);
     console.log(chalk.green('✅ Game deleted successfully!'));
   }
 
   private async init(options: any): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
+    this.authService.requireAuthentication();
 
     console.log(chalk.blue('🚀 Initializing GameBuild project...'));
 
@@ -236,15 +216,15 @@ export class GameCommand extends BaseCommand {
       const games = await this.gameService.listGames();
       
       if (games.length === 0) {
-        console.log(chalk.yellow('No games found. Create a game first with "gamebuild game create"'));
-        return;
+        throw new CliError('No games found', ExitCode.NotFound, 'Create a game first with "gamebuild game create".');
       }
 
-      const { selectedGame } = await inquirer.prompt([
+      const { selectedGame } = await prompter.prompt([
         {
           type: 'list',
           name: 'selectedGame',
           message: 'Select a game to link:',
+          flag: '--game-id <gameId>',
           choices: games.map(game => ({
             name: `${game.name} (${game.platform})`,
             value: game.id
@@ -1,13 +1,19 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
-import inquirer from 'inquirer';
 import { BaseCommand } from './base';
-import { GuildService } from '../services/guild';
-import { AuthService } from '../services/auth';
+import { Column, output } from '../utils/output';
+import { prompter } from '../utils/prompt';
+
+const GUILD_COLUMNS: Column[] = [
+  { header: 'ID', key: 'id' },
+  { header: 'NAME', key: 'name' },
+  { header: 'DESCRIPTION', key: 'description' }
+];
 
 export class GuildCommand extends BaseCommand {
-  private guildService = new GuildService();
-  private authService = new AuthService();
+  private guildService = this.context.guilds;
+  private authService = this.context.auth;
+  private resolver = this.context.resolver;
 
   register(program: Command): void {
     const guildCmd = program
@@ -27,10 +33,10 @@ export class GuildCommand extends BaseCommand {
         }
       });
 
-    guildCmd
+    const listCmd = guildCmd
       .command('list')
       .description('List all guilds')
-      .option('-f, --format <format>', 'Output format (table, json)', 'table')
+      .option('-f, --format <format>', 'Output format (table, json, ndjson, yaml, csv)')
       .action(async (options) => {
         try {
           await this.list(options);
@@ -38,6 +44,7 @@ export class GuildCommand extends BaseCommand {
           this.handleError(error);
         }
       });
+    this.addPaginationOptions(listCmd);
 
     guildCmd
       .command('info')
@@ -77,19 +84,16 @@ export class GuildCommand extends BaseCommand {
   }
 
   private async create(options: any): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
+    this.authService.requireAuthentication();
     let name = options.name;
     let description = options.description;
     if (!name) {
-      const answers = await inquirer.prompt([
-        { type: 'input', name: 'name', message: 'Guild name:', validate: (input) => input.length > 0 || 'Guild name is required' },
-        { type: 'input', name: 'description', message: 'Guild description:' }
+      const answers = await prompter.prompt([
+        { type: 'input', name: 'name', message: 'Guild name:', flag: '--name <name>', validate: (input) => input.length > 0 || 'Guild name is required' },
+        { type: 'input', name: 'description', message: 'Guild description:', when: !description }
       ]);
       name = answers.name;
-      description = answers.description;
+      description = description || answers.description;
     }
     const guild = await this.guildService.createGuild({ name, description });
     console.log(chalk.green('✅ Guild created successfully!'));
@@ -99,26 +103,17 @@ export class GuildCommand extends BaseCommand {
   }
 
   private async list(options: any): Promise<void> {
-    const guilds = await this.guildService.listGuilds();
-    if (options.format === 'json') {
-      console.log(JSON.stringify(guilds, null, 2));
-      return;
-    }
-    if (guilds.length === 0) {
-      console.log(chalk.yellow('📝 No guilds found.'));
-      return;
-    }
-    console.log(chalk.blue('🏰 Guilds:'));
-    guilds.forEach((guild: any, index: number) => {
-      console.log(chalk.cyan(`${index + 1}. ${guild.name}`));
-      console.log(chalk.gray(`   ID: ${guild.id}`));
-      console.log(chalk.gray(`   Description: ${guild.description}`));
-      console.log();
+    const page = await this.fetchList(this.guildService.listGuildPages(this.pageOptions(options)), options);
+    output.printList(page.items, GUILD_COLUMNS, {
+      format: options.format,
+      title: '🏰 Guilds:',
+      empty: '📝 No guilds found.'
     });
+    this.printNextPage(page);
   }
 
   private async info(guildId: string): Promise<void> {
-    const guild = await this.guildService.getGuild(guildId);
+    const guild = await this.resolver.findGuild(guildId);
     console.log(chalk.blue('🏰 Guild Information'));
     console.log(chalk.cyan(`Name: ${guild.name}`));
     console.log(chalk.gray(`ID: ${guild.id}`));
@@ -133,12 +128,14 @@ export class GuildCommand extends BaseCommand {
   }
 
   private async join(guildId: string): Promise<void> {
-    await this.guildService.joinGuild(guildId);
+    const guild = await this.resolver.findGuild(guildId);
+    await this.guildService.joinGuild(guild.id);
     console.log(chalk.green('✅ Joined guild successfully!'));
   }
 
   private async leave(guildId: string): Promise<void> {
-    await this.guildService.leaveGuild(guildId);
+    const guild = await this.resolver.findGuild(guildId);
+    await this.guildService.leaveGuild(guild.id);
     console.log(chalk.green('✅ Left guild successfully!'));
   }
 }
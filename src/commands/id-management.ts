@@ -1,13 +1,21 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
-import inquirer from 'inquirer';
 import { BaseCommand } from './base';
-import { IdManagementService } from '../services/id-management';
-import { AuthService } from '../services/auth';
+import { CliError, ExitCode } from '../utils/errors';
+import { Column, output } from '../utils/output';
+import { prompter } from '../utils/prompt';
+
+const IDENTITY_COLUMNS: Column[] = [
+  { header: 'ID', key: 'id' },
+  { header: 'NAME', key: 'displayName' },
+  { header: 'TYPE', key: 'type' },
+  { header: 'STATUS', key: 'status' },
+  { header: 'REPUTATION', key: 'reputation', format: (value) => `${value}/100` }
+];
 
 export class IdManagementCommand extends BaseCommand {
-  private idService = new IdManagementService();
-  private authService = new AuthService();
+  private idService = this.context.identities;
+  private authService = this.context.auth;
 
   register(program: Command): void {
     const idCmd = program
@@ -20,6 +28,8 @@ export class IdManagementCommand extends BaseCommand {
       .description('Create a new Web3 identity')
       .option('-t, --type <type>', 'Identity type (player, developer, guild)', 'player')
       .option('-w, --wallet <address>', 'Wallet address')
+      .option('-n, --name <displayName>', 'Display name')
+      .option('-e, --email <email>', 'Contact email')
       .action(async (options) => {
         try {
           await this.createIdentity(options);
@@ -68,11 +78,11 @@ export class IdManagementCommand extends BaseCommand {
         }
       });
 
-    idCmd
+    const listCmd = idCmd
       .command('list')
       .description('List identities')
       .option('-t, --type <type>', 'Filter by identity type')
-      .option('-f, --format <format>', 'Output format (table, json)', 'table')
+      .option('-f, --format <format>', 'Output format (table, json, ndjson, yaml, csv)')
       .action(async (options) => {
         try {
           await this.listIdentities(options);
@@ -80,6 +90,7 @@ export class IdManagementCommand extends BaseCommand {
           this.handleError(error);
         }
       });
+    this.addPaginationOptions(listCmd);
 
     idCmd
       .command('reputation')
@@ -110,23 +121,22 @@ export class IdManagementCommand extends BaseCommand {
   }
 
   private async createIdentity(options: any): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
+    this.authService.requireAuthentication();
 
     console.log(chalk.blue('🆔 Creating Web3 Identity...'));
 
     let identityType = options.type;
     let walletAddress = options.wallet;
-    let displayName, email;
+    let displayName = options.name;
+    let email = options.email;
 
-    if (!walletAddress) {
-      const answers = await inquirer.prompt([
+    if (!walletAddress || !displayName) {
+      const answers = await prompter.prompt([
         {
           type: 'list',
           name: 'identityType',
           message: 'Identity type:',
+          flag: '--type <type>',
           when: !identityType,
           choices: [
             { name: '🎮 Player - Gaming identity for players', value: 'player' },
@@ -139,6 +149,7 @@ export class IdManagementCommand extends BaseCommand {
           type: 'input',
           name: 'walletAddress',
           message: 'Wallet address (or press Enter to generate):',
+          when: !walletAddress,
           validate: (input) => {
             if (!input) return true; // Allow empty for generation
             return /^0x[a-fA-F0-9]{40}$/.test(input) || 'Please enter a valid Ethereum address';
@@ -148,12 +159,15 @@ export class IdManagementCommand extends BaseCommand {
           type: 'input',
           name: 'displayName',
           message: 'Display name:',
+          flag: '--name <displayName>',
+          when: !displayName,
           validate: (input) => input.length > 0 || 'Display name is required'
         },
         {
           type: 'input',
           name: 'email',
           message: 'Email (optional):',
+          when: !email,
           validate: (input) => {
             if (!input) return true;
             return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(input) || 'Please enter a valid email';
@@ -162,9 +176,9 @@ export class IdManagementCommand extends BaseCommand {
       ]);
 
       identityType = identityType || answers.identityType;
-      walletAddress = answers.walletAddress;
-      displayName = answers.displayName;
-      email = answers.email;
+      walletAddress = walletAddress || answers.walletAddress;
+      displayName = displayName || answers.displayName;
+      email = email || answers.email;
     }
 
     const identity = await this.idService.createIdentity({
@@ -187,10 +201,7 @@ export class IdManagementCommand extends BaseCommand {
   }
 
   private async linkWallet(identityId: string, walletAddress: string, options: any): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
+    this.authService.requireAuthentication();
 
     console.log(chalk.blue('🔗 Linking wallet to identity...'));
 
@@ -203,21 +214,19 @@ export class IdManagementCommand extends BaseCommand {
   }
 
   private async verifyIdentity(identityId: string, options: any): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
+    this.authService.requireAuthentication();
 
     console.log(chalk.blue('✅ Verifying identity...'));
 
     let signature = options.signature;
 
     if (!signature) {
-      const { providedSignature } = await inquirer.prompt([
+      const { providedSignature } = await prompter.prompt([
         {
           type: 'input',
           name: 'providedSignature',
           message: 'Enter verification signature:',
+          flag: '--signature <signature>',
           validate: (input) => input.length > 0 || 'Signature is required'
         }
       ]);
@@ -231,16 +240,16 @@ export class IdManagementCommand extends BaseCommand {
       console.log(chalk.gray(`   Verification Level: ${verification.level}`));
       console.log(chalk.gray(`   Trust Score: ${verification.trustScore}`));
     } else {
-      console.log(chalk.red('❌ Identity verification failed'));
-      console.log(chalk.gray(`   Reason: ${verification.reason}`));
+      throw new CliError(
+        'Identity verification failed',
+        ExitCode.RemoteFailure,
+        verification.reason ? `Reason: ${verification.reason}` : undefined
+      );
     }
   }
 
   private async manageProfile(identityId: string, options: any): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
+    this.authService.requireAuthentication();
 
     if (options.update) {
       await this.updateProfile(identityId);
@@ -280,7 +289,7 @@ export class IdManagementCommand extends BaseCommand {
   private async updateProfile(identityId?: string): Promise<void> {
     const currentProfile = await this.idService.getProfile(identityId);
 
-    const answers = await inquirer.prompt([
+    const answers = await prompter.prompt([
       {
         type: 'input',
         name: 'displayName',
@@ -307,41 +316,20 @@ export class IdManagementCommand extends BaseCommand {
   }
 
   private async listIdentities(options: any): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
-
-    const identities = await this.idService.listIdentities(options.type);
+    this.authService.requireAuthentication();
 
-    if (options.format === 'json') {
-      console.log(JSON.stringify(identities, null, 2));
-      return;
-    }
-
-    if (identities.length === 0) {
-      console.log(chalk.yellow('📝 No identities found.'));
-      return;
-    }
-
-    console.log(chalk.blue('🆔 Identities:'));
-    console.log();
+    const page = await this.fetchList(this.idService.listIdentityPages(options.type, this.pageOptions(options)), options);
 
-    identities.forEach((identity: any, index: number) => {
-      console.log(chalk.cyan(`${index + 1}. ${identity.displayName}`));
-      console.log(chalk.gray(`   ID: ${identity.id}`));
-      console.log(chalk.gray(`   Type: ${identity.type}`));
-      console.log(chalk.gray(`   Status: ${identity.status}`));
-      console.log(chalk.gray(`   Reputation: ${identity.reputation}/100`));
-      console.log();
+    output.printList(page.items, IDENTITY_COLUMNS, {
+      format: options.format,
+      title: '🆔 Identities:',
+      empty: '📝 No identities found.'
     });
+    this.printNextPage(page);
   }
 
   private async viewReputation(identityId: string): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
+    this.authService.requireAuthentication();
 
     const reputation = await this.idService.getReputation(identityId);
 
@@ -369,10 +357,7 @@ export class IdManagementCommand extends BaseCommand {
   }
 
   private async managePermissions(identityId: string, options: any): Promise<void> {
-    if (!this.authService.isAuthenticated()) {
-      console.log(chalk.red('❌ Please login first: gamebuild auth login'));
-      return;
-    }
+    this.authService.requireAuthentication();
 
     if (options.add) {
       await this.idService.addPermission(identityId, options.add);
@@ -0,0 +1,84 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import * as fs from 'fs';
+import { BaseCommand } from './base';
+import { ConfigService } from '../services/config';
+import { CliError, ExitCode } from '../utils/errors';
+import { PROJECT_FILE, PROJECT_MANIFEST_VERSION } from '../services/project';
+
+export class ProjectCommand extends BaseCommand {
+  private projectService = this.context.projects;
+
+  register(program: Command): void {
+    const projectCmd = program
+      .command('project')
+      .description(`Project file (${PROJECT_FILE}) commands`);
+
+    projectCmd
+      .command('validate')
+      .description('Validate the project file against the current schema')
+      .action(async () => {
+        try {
+          await this.validate();
+        } catch (error) {
+          this.handleError(error);
+        }
+      });
+
+    projectCmd
+      .command('migrate')
+      .description('Upgrade the project file to the current schema version')
+      .option('--dry-run', 'Print the migrated file without writing it')
+      .action(async (options) => {
+        try {
+          await this.migrate(options);
+        } catch (error) {
+          this.handleError(error);
+        }
+      });
+  }
+
+  private findProjectFile(): string {
+    const projectPath = ConfigService.findProjectFile();
+    if (!projectPath) {
+      throw new CliError(`No ${PROJECT_FILE} found`, ExitCode.NotFound, 'Run "gamebuild game init" first.');
+    }
+    return projectPath;
+  }
+
+  private async validate(): Promise<void> {
+    const projectPath = this.findProjectFile();
+    const { fromVersion } = this.projectService.read(projectPath);
+
+    console.log(chalk.green(`✅ ${projectPath} is valid`));
+    if (fromVersion < PROJECT_MANIFEST_VERSION) {
+      console.log(
+        chalk.yellow(`⚠️  Schema version ${fromVersion} is outdated. Run "gamebuild project migrate" to upgrade.`)
+      );
+    }
+  }
+
+  private async migrate(options: any): Promise<void> {
+    const projectPath = this.findProjectFile();
+    const { manifest, fromVersion, applied } = this.projectService.read(projectPath);
+
+    if (applied.length === 0) {
+      console.log(chalk.green(`✅ Already at schema version ${PROJECT_MANIFEST_VERSION}. Nothing to migrate.`));
+      return;
+    }
+
+    if (options.dryRun) {
+      console.log(JSON.stringify(manifest, null, 2));
+      return;
+    }
+
+    // Keep the original around in case the upgrade needs to be undone
+    const backupPath = `${projectPath}.v${fromVersion}.bak`;
+    fs.copyFileSync(projectPath, backupPath);
+    this.projectService.save(projectPath, manifest);
+
+    console.log(chalk.green(`✅ Migrated ${PROJECT_FILE} from version ${fromVersion} to ${PROJECT_MANIFEST_VERSION}`));
+    applied.forEach((description) => console.log(chalk.gray(`   • ${description}`)));
+    console.log(chalk.gray(`   Backup: ${backupPath}`));
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * GameBuild SDK: the services behind the CLI, for use from Node scripts.
+ *
+ * Services created through createClient (or from a ConfigService.inMemory config) never
+ * touch ~/.gamebuild, the environment or the project file, and never print. Failures
+ * are thrown as the errors exported below.
+ */
+import { Config, ConfigService } from './services/config';
+import { Context } from './services/context';
+import { HttpSettings } from './utils/http';
+
+export * from './services/ad';
+export * from './services/analytics';
+export * from './services/api';
+export * from './services/asset';
+export * from './services/auth';
+export * from './services/build';
+export { CacheSettings, DEFAULT_CACHE_TTLS, ResponseCache } from './services/cache';
+export * from './services/deploy';
+export * from './services/game';
+export * from './services/guild';
+export * from './services/id-management';
+export * from './services/project';
+export { FindOptions, NamedResource, NamePicker, NameResolver, ResourceKind } from './services/resolver';
+export { DEFAULT_MOCK_PORT, MockRequestLog, MockServer, MockServerOptions, MockState } from './services/mock-server';
+export * from './services/wallet-auth';
+export { AuthConfig, Config, ConfigService, DEFAULT_CONFIG } from './services/config';
+export { Context, ContextOptions, Services } from './services/context';
+export { OAuthService, TokenSet } from './services/oauth';
+export { HttpSettings, RetryOptions } from './utils/http';
+export { Logger } from './utils/logger';
+export { Page, PageOptions, allItems } from './utils/pagination';
+export * from './utils/errors';
+
+export interface ClientOptions {
+  // Defaults to the production API
+  baseUrl?: string;
+  token?: string;
+  // With a refresh token, expired access tokens are refreshed in memory
+  refreshToken?: string;
+  expiresAt?: number;
+  http?: HttpSettings;
+}
+
+/**
+ * Create a context whose services share one in-memory session.
+ */
+export function createClient(options: ClientOptions = {}): Context {
+  const config: Config = {
+    auth: {
+      baseUrl: options.baseUrl,
+      token: options.token,
+      refreshToken: options.refreshToken,
+      expiresAt: options.expiresAt
+    },
+    http: options.http
+  };
+
+  return new Context({ config: ConfigService.inMemory(config) });
+}
@@ -0,0 +1,171 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { version } from '../package.json';
+import { AuthCommand } from './commands/auth';
+import { GameCommand } from './commands/game';
+import { BuildCommand } from './commands/build';
+import { DeployCommand } from './commands/deploy';
+import { ConfigCommand } from './commands/config';
+import { IdManagementCommand } from './commands/id-management';
+import { GuildCommand } from './commands/guild';
+import { AssetCommand } from './commands/asset';
+import { AdCommand } from './commands/ad';
+import { AnalyticsCommand } from './commands/analytics';
+import { ProjectCommand } from './commands/project';
+import { DevCommand } from './commands/dev';
+import { ApiCommand } from './commands/api';
+import { CacheCommand } from './commands/cache';
+import { ResponseCache } from './services/cache';
+import { ConfigService } from './services/config';
+import { Context } from './services/context';
+import { NamePicker } from './services/resolver';
+import { REPLAY_TOKEN, cassette } from './utils/cassette';
+import { CliError, ExitCode } from './utils/errors';
+import { output } from './utils/output';
+import { prompter } from './utils/prompt';
+
+// Add ASCII art banner
+const banner = `
+${chalk.cyan('   ____                      ____        _ _     _ ')}
+${chalk.cyan('  / ___| __ _ _ __ ___   ___  | __ ) _   _(_) | __| |')}
+${chalk.cyan(' | |  _ / _` | \'_ ` _ \\ / _ \\ |  _ \\| | | | | |/ _` |')}
+${chalk.cyan(' | |_| | (_| | | | | | |  __/ | |_) | |_| | | | (_| |')}
+${chalk.cyan('  \\____|\\__,_|_| |_| |_|\\___| |____/ \\__,_|_|_|\\__,_|')}
+${chalk.yellow('                                                   ')}
+${chalk.yellow('  Command Line Interface for Game Development      ')}
+`;
+
+/**
+ * Lets the user choose between the games, guilds or assets an ambiguous name matches,
+ * unless prompts are disabled.
+ */
+export const pickName: NamePicker = async (kind, input, matches) => {
+  if (!prompter.isInteractive()) {
+    return undefined;
+  }
+
+  const { id } = await prompter.prompt<{ id: string }>([
+    {
+      type: 'list',
+      name: 'id',
+      message: `"${input}" matches several ${kind}s. Which one?`,
+      choices: matches.map((match) => ({ name: `${match.name} (${match.id})`, value: match.id }))
+    }
+  ]);
+  return id;
+};
+
+/**
+ * The gamebuild command with every subcommand registered on `context`.
+ */
+export function createProgram(context: Context): Command {
+  const program = new Command();
+
+  // Configure the main program
+  program
+    .name('gamebuild')
+    .description('GameBuild SDK Command Line Interface')
+    .version(version)
+    .option('-v, --verbose', 'Enable verbose output')
+    .option('--config <path>', 'Specify config file path')
+    .option('--profile <name>', 'Configuration profile to use (or set GAMEBUILD_PROFILE)')
+    .option('--account <name>', 'Logged in account to use (or set GAMEBUILD_ACCOUNT)')
+    .option('-o, --output <format>', 'Output format for list commands (table, json, ndjson, yaml, csv)')
+    .option('--fields <fields>', 'Comma-separated fields to include in the output, e.g. id,status')
+    .option('--query <path>', 'Select part of the output with a path expression, e.g. "[].id"')
+    .option('--no-input', 'Never prompt; fail when a required value is missing (default when CI=true)')
+    .option('-y, --yes', 'Answer yes to confirmation prompts')
+    .option('--record <file>', 'Save every API request and response to a file, with credentials redacted')
+    .option('--replay <file>', 'Answer API requests from a --record file instead of the network')
+    .option('--no-cache', 'Neither use nor store cached API responses')
+    .option('--refresh', 'Ignore cached API responses and store fresh ones');
+
+  program.addHelpText('beforeAll', banner);
+
+  // Apply global options before any command action runs
+  program.hook('preAction', (_thisCommand, actionCommand) => {
+    const globalOptions = program.opts();
+    // -o is parsed as the global option wherever it appears, so a command with its own
+    // --output (the old name of "build download --dir") takes it from there
+    const ownOutput = actionCommand.options.some((option) => option.long === '--output');
+    if (ownOutput && globalOptions.output !== undefined) {
+      actionCommand.setOptionValue('output', globalOptions.output);
+    }
+    ConfigService.setDefaultPath(globalOptions.config);
+    ConfigService.setProfileOverride(globalOptions.profile);
+    ConfigService.setAccountOverride(globalOptions.account);
+    context.logger.setVerbose(!!globalOptions.verbose);
+    output.configure({
+      output: ownOutput ? undefined : globalOptions.output,
+      fields: globalOptions.fields,
+      query: globalOptions.query
+    });
+    prompter.configure({ input: globalOptions.input, yes: globalOptions.yes });
+    cassette.configure({
+      record: globalOptions.record,
+      replay: globalOptions.replay,
+      project: globalOptions.record ? context.config.get('project') : undefined
+    });
+    // A replay answers every request itself, so it needs neither a login nor the project file
+    const replayedProject = cassette.getProject();
+    ConfigService.setReplayOverrides(
+      cassette.isReplaying()
+        ? { auth: { token: REPLAY_TOKEN }, ...(replayedProject && { project: replayedProject }) }
+        : undefined
+    );
+    // Recordings must see every request, so the cache stays out of their way
+    ResponseCache.configure({
+      enabled: globalOptions.cache && !globalOptions.record && !globalOptions.replay,
+      refresh: globalOptions.refresh
+    });
+  });
+
+  // Global error handler. Set before registering commands so subcommands inherit it
+  // and report usage errors through the handler in run().
+  program.exitOverride();
+
+  // Register commands
+  new AuthCommand(context).register(program);
+  new GameCommand(context).register(program);
+  new BuildCommand(context).register(program);
+  new DeployCommand(context).register(program);
+  new ConfigCommand(context).register(program);
+  new IdManagementCommand(context).register(program);
+  new GuildCommand(context).register(program);
+  new AssetCommand(context).register(program);
+  new AdCommand(context).register(program);
+  new AnalyticsCommand(context).register(program);
+  new ProjectCommand(context).register(program);
+  new DevCommand(context).register(program);
+  new ApiCommand(context).register(program);
+  new CacheCommand(context).register(program);
+
+  return program;
+}
+
+/**
+ * Parse `argv` (including the node and script entries) and run the matching command.
+ */
+export async function run(argv: string[], context: Context = new Context({ pickName })): Promise<void> {
+  const program = createProgram(context);
+
+  try {
+    await program.parseAsync(argv);
+  } catch (error: any) {
+    if (error.code === 'commander.version') {
+      console.log(banner);
+      console.log(chalk.green(`GameBuild CLI v${version}`));
+    } else if (error.code === 'commander.help' || error.code === 'commander.helpDisplayed') {
+      // Help is already displayed
+    } else if (error instanceof CliError) {
+      console.error(chalk.red('Error:'), error.message);
+      process.exit(error.exitCode);
+    } else {
+      // Commander has already printed usage errors such as unknown options or missing arguments
+      if (!error.code?.startsWith('commander.')) {
+        console.error(chalk.red('Error:'), error.message);
+      }
+      process.exit(error.code?.startsWith('commander.') ? ExitCode.Validation : ExitCode.GeneralError);
+    }
+  }
+}
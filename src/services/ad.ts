@@ -1,4 +1,6 @@
 import { AuthService } from './auth';
+import { toApiError } from '../utils/errors';
+import { Page, PageOptions, allItems, pageOf, paginate } from '../utils/pagination';
 
 export interface Campaign {
   id: string;
@@ -50,7 +52,11 @@ export interface RevenueData {
 }
 
 export class AdService {
-  private authService = new AuthService();
+  private authService: AuthService;
+
+  constructor(authService: AuthService = new AuthService()) {
+    this.authService = authService;
+  }
 
   async createCampaign(options: CreateCampaignOptions): Promise<Campaign> {
     const client = this.authService.getAuthenticatedClient();
@@ -65,22 +71,27 @@ export class AdService {
       });
       
       return response.data;
-    } catch (error: any) {
-      throw new Error(`Failed to create campaign: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to create campaign');
     }
   }
 
   async listCampaigns(status?: string): Promise<Campaign[]> {
-    const client = this.authService.getAuthenticatedClient();
-    
-    try {
-      const response = await client.get('/v1/ads/campaigns', {
-        params: status ? { status } : {}
-      });
-      return response.data.campaigns || [];
-    } catch (error: any) {
-      throw new Error(`Failed to list campaigns: ${error.response?.data?.message || error.message}`);
-    }
+    return allItems(this.listCampaignPages(status));
+  }
+
+  listCampaignPages(status?: string, options: PageOptions = {}): AsyncGenerator<Page<Campaign>> {
+    return paginate(async (cursor) => {
+      const client = this.authService.getAuthenticatedClient();
+      try {
+        const response = await client.get('/v1/ads/campaigns', {
+          params: { status, limit: options.pageSize, cursor }
+        });
+        return pageOf<Campaign>(response.data, 'campaigns');
+      } catch (error) {
+        throw toApiError(error, 'Failed to list campaigns');
+      }
+    }, options.cursor);
   }
 
   async getCampaign(campaignId: string): Promise<Campaign> {
@@ -89,8 +100,8 @@ export class AdService {
     try {
       const response = await client.get(`/v1/ads/campaigns/${campaignId}`);
       return response.data;
-    } catch (error: any) {
-      throw new Error(`Failed to get campaign: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to get campaign');
     }
   }
 
@@ -99,8 +110,8 @@ export class AdService {
     
     try {
       await client.post(`/v1/ads/campaigns/${campaignId}/start`);
-    } catch (error: any) {
-      throw new Error(`Failed to start campaign: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to start campaign');
     }
   }
 
@@ -109,8 +120,8 @@ export class AdService {
     
     try {
       await client.post(`/v1/ads/campaigns/${campaignId}/pause`);
-    } catch (error: any) {
-      throw new Error(`Failed to pause campaign: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to pause campaign');
     }
   }
 
@@ -122,8 +133,8 @@ export class AdService {
         params: { period }
       });
       return response.data;
-    } catch (error: any) {
-      throw new Error(`Failed to get campaign stats: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to get campaign stats');
     }
   }
 
@@ -133,8 +144,8 @@ export class AdService {
     try {
       const response = await client.get('/v1/ads/placements');
       return response.data.placements || [];
-    } catch (error: any) {
-      throw new Error(`Failed to list placements: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to list placements');
     }
   }
 
@@ -146,8 +157,8 @@ export class AdService {
         params: { period, gameId }
       });
       return response.data;
-    } catch (error: any) {
-      throw new Error(`Failed to get revenue data: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to get revenue data');
     }
   }
 
@@ -157,8 +168,8 @@ export class AdService {
     try {
       const response = await client.post('/v1/ads/placements', options);
       return response.data;
-    } catch (error: any) {
-      throw new Error(`Failed to create placement: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to create placement');
     }
   }
 
@@ -168,8 +179,8 @@ export class AdService {
     try {
       const response = await client.patch(`/v1/ads/campaigns/${campaignId}`, updates);
       return response.data;
-    } catch (error: any) {
-      throw new Error(`Failed to update campaign: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to update campaign');
     }
   }
 
@@ -178,8 +189,8 @@ export class AdService {
     
     try {
       await client.delete(`/v1/ads/campaigns/${campaignId}`);
-    } catch (error: any) {
-      throw new Error(`Failed to delete campaign: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to delete campaign');
     }
   }
 }
@@ -1,4 +1,5 @@
 import { AuthService } from './auth';
+import { toApiError } from '../utils/errors';
 
 export interface AnalyticsOverview {
   players: {
@@ -98,7 +99,11 @@ export interface RealTimeData {
 }
 
 export class AnalyticsService {
-  private authService = new AuthService();
+  private authService: AuthService;
+
+  constructor(authService: AuthService = new AuthService()) {
+    this.authService = authService;
+  }
 
   async getOverview(period: string, gameId?: string): Promise<AnalyticsOverview> {
     const client = this.authService.getAuthenticatedClient();
@@ -108,8 +113,8 @@ export class AnalyticsService {
         params: { period, gameId }
       });
       return response.data;
-    } catch (error: any) {
-      throw new Error(`Failed to get analytics overview: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to get analytics overview');
     }
   }
 
@@ -121,8 +126,8 @@ export class AnalyticsService {
         params: { period, gameId }
       });
       return response.data;
-    } catch (error: any) {
-      throw new Error(`Failed to get player analytics: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to get player analytics');
     }
   }
 
@@ -134,8 +139,8 @@ export class AnalyticsService {
         params: { period, gameId }
       });
       return response.data;
-    } catch (error: any) {
-      throw new Error(`Failed to get revenue analytics: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to get revenue analytics');
     }
   }
 
@@ -147,8 +152,8 @@ export class AnalyticsService {
         params: { period, gameId, eventType }
       });
       return response.data;
-    } catch (error: any) {
-      throw new Error(`Failed to get event analytics: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to get event analytics');
     }
   }
 
@@ -160,8 +165,8 @@ export class AnalyticsService {
         params: { period, gameId }
       });
       return response.data;
-    } catch (error: any) {
-      throw new Error(`Failed to get retention analytics: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to get retention analytics');
     }
   }
 
@@ -175,8 +180,8 @@ export class AnalyticsService {
         period
       });
       return response.data;
-    } catch (error: any) {
-      throw new Error(`Failed to export data: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to export data');
     }
   }
 
@@ -188,8 +193,8 @@ export class AnalyticsService {
         params: { gameId }
       });
       return response.data;
-    } catch (error: any) {
-      throw new Error(`Failed to get real-time data: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to get real-time data');
     }
   }
 
@@ -201,8 +206,8 @@ export class AnalyticsService {
         event: eventName,
         properties
       });
-    } catch (error: any) {
-      throw new Error(`Failed to track event: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to track event');
     }
   }
 
@@ -215,8 +220,8 @@ export class AnalyticsService {
         widgets
       });
       return response.data;
-    } catch (error: any) {
-      throw new Error(`Failed to create dashboard: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to create dashboard');
     }
   }
 
@@ -226,8 +231,8 @@ export class AnalyticsService {
     try {
       const response = await client.get('/v1/analytics/dashboards');
       return response.data.dashboards || [];
-    } catch (error: any) {
-      throw new Error(`Failed to get dashboards: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to get dashboards');
     }
   }
 
@@ -239,8 +244,8 @@ export class AnalyticsService {
         params: { period }
       });
       return response.data;
-    } catch (error: any) {
-      throw new Error(`Failed to get funnel analysis: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to get funnel analysis');
     }
   }
 
@@ -252,8 +257,8 @@ export class AnalyticsService {
         params: { segmentType, period }
       });
       return response.data;
-    } catch (error: any) {
-      throw new Error(`Failed to get segmentation data: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to get segmentation data');
     }
   }
 }
@@ -0,0 +1,135 @@
+import { AxiosResponse } from 'axios';
+import { AuthService } from './auth';
+import { CliError, ExitCode, toApiError } from '../utils/errors';
+
+export const API_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'] as const;
+
+export type ApiMethod = typeof API_METHODS[number];
+
+export interface ApiRequest {
+  method: ApiMethod;
+  // Relative to the API base URL, e.g. /v1/games
+  path: string;
+  params?: Record<string, unknown>;
+  body?: unknown;
+}
+
+export interface ApiResponse {
+  status: number;
+  headers: Record<string, string>;
+  // Parsed JSON, or the raw text when the response is not JSON
+  data: any;
+}
+
+/**
+ * Raw requests to any API endpoint, sent with the same client, base URL and session
+ * as every other service.
+ */
+export class ApiService {
+  private authService: AuthService;
+
+  constructor(authService: AuthService = new AuthService()) {
+    this.authService = authService;
+  }
+
+  async request(request: ApiRequest): Promise<ApiResponse> {
+    const client = this.authService.getAuthenticatedClient();
+
+    try {
+      const response = await client.request({
+        method: request.method,
+        url: normalizePath(request.path),
+        params: request.params,
+        data: request.body
+      });
+      return toResponse(response);
+    } catch (error) {
+      throw toApiError(error, `${request.method} ${request.path} failed`);
+    }
+  }
+
+  /**
+   * Send `request`, then follow the pagination of each response until the last page.
+   * The next page comes from a `Link: <...>; rel="next"` header or a `nextCursor` field,
+   * which is sent back as the `cursor` parameter. Links are only followed within the
+   * API base URL.
+   */
+  async *paginate(request: ApiRequest): AsyncGenerator<ApiResponse> {
+    const baseUrl = this.authService.getAuthenticatedClient().defaults.baseURL || '';
+    const seen = new Set<string>();
+    let next: ApiRequest | undefined = request;
+    // A cursor or link that does not move would loop forever
+    while (next && !seen.has(pageKey(next))) {
+      seen.add(pageKey(next));
+      const response = await this.request(next);
+      yield response;
+      next = nextPage(next, response, baseUrl);
+    }
+  }
+}
+
+function normalizePath(path: string): string {
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(path)) {
+    // The session token must only ever go to the configured API
+    throw new CliError(
+      `Expected a path relative to the API, got ${path}`,
+      ExitCode.Validation,
+      'Pass only the path, e.g. /v1/games. The base URL comes from the active profile.'
+    );
+  }
+  return path.startsWith('/') ? path : `/${path}`;
+}
+
+function toResponse(response: AxiosResponse): ApiResponse {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(response.headers || {})) {
+    if (value !== undefined && value !== null) {
+      headers[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+    }
+  }
+  return { status: response.status, headers, data: response.data };
+}
+
+function nextPage(request: ApiRequest, response: ApiResponse, baseUrl: string): ApiRequest | undefined {
+  const link = parseNextLink(response.headers.link);
+  if (link) {
+    return { ...request, path: pathWithinApi(link, request.path, baseUrl), params: undefined };
+  }
+
+  const data = response.data;
+  const cursor = data && typeof data === 'object' && !Array.isArray(data)
+    ? data.nextCursor ?? data.pagination?.nextCursor
+    : undefined;
+  if (cursor === undefined || cursor === null || cursor === '') {
+    return undefined;
+  }
+  return { ...request, params: { ...request.params, cursor } };
+}
+
+// A Link URL as a path relative to the base URL, which may have a path of its own
+// (https://host/api). Relative links resolve against the page that returned them.
+function pathWithinApi(link: string, requestPath: string, baseUrl: string): string {
+  const base = new URL(baseUrl);
+  const basePath = base.pathname.replace(/\/$/, '');
+  const url = new URL(link, `${base.origin}${basePath}${normalizePath(requestPath)}`);
+
+  if (url.origin !== base.origin || !(url.pathname === basePath || url.pathname.startsWith(`${basePath}/`))) {
+    // The session token must only ever go to the configured API
+    throw new CliError(`The next page link ${link} points outside the API at ${baseUrl}`, ExitCode.RemoteFailure);
+  }
+  return url.pathname.slice(basePath.length) + url.search;
+}
+
+function pageKey(request: ApiRequest): string {
+  return JSON.stringify([request.path, request.params || {}]);
+}
+
+function parseNextLink(header: string | undefined): string | undefined {
+  for (const part of (header || '').split(',')) {
+    const match = /<([^>]+)>\s*;.*\brel="?next"?/.exec(part);
+    if (match) {
+      return match[1];
+    }
+  }
+  return undefined;
+}
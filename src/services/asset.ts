@@ -1,6 +1,14 @@
 import { AuthService } from './auth';
-import { create as ipfsHttpClient } from 'ipfs-http-client';
+import type { create as createIpfsClient } from 'ipfs-http-client';
 import * as fs from 'fs';
+import { toApiError } from '../utils/errors';
+import { Page, PageOptions, allItems, pageOf, paginate } from '../utils/pagination';
+
+type IpfsClient = ReturnType<typeof createIpfsClient>;
+
+// ipfs-http-client is an ES module, which require() cannot load. TypeScript compiles
+// import() to require() for CommonJS output, so the import is kept out of its sight.
+const importModule = new Function('specifier', 'return import(specifier)') as (specifier: string) => Promise<any>;
 
 export interface Asset {
   id: string;
@@ -62,13 +70,18 @@ export interface MintErc721Options {
 }
 
 export class AssetService {
-  private authService = new AuthService();
-  private ipfs = ipfsHttpClient({ url: 'https://ipfs.io' });
+  private authService: AuthService;
+
+  constructor(authService: AuthService = new AuthService()) {
+    this.authService = authService;
+  }
+  private ipfs?: IpfsClient;
 
   async mintAsset(options: MintAssetOptions): Promise<Asset> {
     // Upload file to IPFS
     const fileContent = fs.readFileSync(options.file);
-    const ipfsResult = await this.ipfs.add(fileContent);
+    const ipfs = await this.getIpfs();
+    const ipfsResult = await ipfs.add(fileContent);
     const ipfsUrl = `https://ipfs.io/ipfs/${ipfsResult.path}`;
 
     // Call backend to mint NFT
@@ -80,19 +93,27 @@ export class AssetService {
         ipfsUrl
       });
       return { ...response.data, ipfsUrl };
-    } catch (error: any) {
-      throw new Error(`Failed to mint asset: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to mint asset');
     }
   }
 
   async listAssets(): Promise<Asset[]> {
-    const client = this.authService.getAuthenticatedClient();
-    try {
-      const response = await client.get('/v1/assets');
-      return response.data.assets || [];
-    } catch (error: any) {
-      throw new Error(`Failed to list assets: ${error.response?.data?.message || error.message}`);
-    }
+    return allItems(this.listAssetPages());
+  }
+
+  listAssetPages(options: PageOptions = {}): AsyncGenerator<Page<Asset>> {
+    return paginate(async (cursor) => {
+      const client = this.authService.getAuthenticatedClient();
+      try {
+        const response = await client.get('/v1/assets', {
+          params: { limit: options.pageSize, cursor }
+        });
+        return pageOf<Asset>(response.data, 'assets');
+      } catch (error) {
+        throw toApiError(error, 'Failed to list assets');
+      }
+    }, options.cursor);
   }
 
   async getAsset(assetId: string): Promise<Asset> {
@@ -100,8 +121,8 @@ export class AssetService {
     try {
       const response = await client.get(`/v1/assets/${assetId}`);
       return response.data;
-    } catch (error: any) {
-      throw new Error(`Failed to get asset: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to get asset');
     }
   }
 
@@ -109,8 +130,8 @@ export class AssetService {
     const client = this.authService.getAuthenticatedClient();
     try {
       await client.post(`/v1/assets/${assetId}/transfer`, { toAddress });
-    } catch (error: any) {
-      throw new Error(`Failed to transfer asset: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to transfer asset');
     }
   }
 
@@ -118,8 +139,8 @@ export class AssetService {
     const client = this.authService.getAuthenticatedClient();
     try {
       await client.post(`/v1/assets/${assetId}/burn`);
-    } catch (error: any) {
-      throw new Error(`Failed to burn asset: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to burn asset');
     }
   }
 
@@ -133,8 +154,8 @@ export class AssetService {
         totalSupply: options.totalSupply
       });
       return response.data;
-    } catch (error: any) {
-      throw new Error(`Failed to issue ERC20 token: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to issue ERC20 token');
     }
   }
 
@@ -147,8 +168,8 @@ export class AssetService {
         baseUri: options.baseUri
       });
       return response.data;
-    } catch (error: any) {
-      throw new Error(`Failed to issue ERC721 collection: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to issue ERC721 collection');
     }
   }
 
@@ -161,8 +182,8 @@ export class AssetService {
         metadataUri: options.metadataUri
       });
       return response.data;
-    } catch (error: any) {
-      throw new Error(`Failed to mint ERC721 NFT: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to mint ERC721 NFT');
     }
   }
 
@@ -171,8 +192,8 @@ export class AssetService {
     try {
       const response = await client.get(`/v1/tokens/erc20/${contractAddress}`);
       return response.data;
-    } catch (error: any) {
-      throw new Error(`Failed to get ERC20 token: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to get ERC20 token');
     }
   }
 
@@ -181,8 +202,8 @@ export class AssetService {
     try {
       const response = await client.get(`/v1/tokens/erc721/${contractAddress}`);
       return response.data;
-    } catch (error: any) {
-      throw new Error(`Failed to get ERC721 collection: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to get ERC721 collection');
     }
   }
 
@@ -191,8 +212,8 @@ export class AssetService {
     try {
       const response = await client.get(`/v1/tokens/erc721/${contractAddress}/${tokenId}`);
       return response.data;
-    } catch (error: any) {
-      throw new Error(`Failed to get ERC721 token: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to get ERC721 token');
     }
   }
 
@@ -201,8 +222,8 @@ export class AssetService {
     try {
       const response = await client.get('/v1/tokens/erc20');
       return response.data.tokens || [];
-    } catch (error: any) {
-      throw new Error(`Failed to list ERC20 tokens: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to list ERC20 tokens');
     }
   }
 
@@ -211,8 +232,17 @@ export class AssetService {
     try {
       const response = await client.get('/v1/tokens/erc721');
       return response.data.collections || [];
-    } catch (error: any) {
-      throw new Error(`Failed to list ERC721 collections: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to list ERC721 collections');
+    }
+  }
+
+  // Loaded on first use, so commands that never upload don't pay for the import
+  private async getIpfs(): Promise<IpfsClient> {
+    if (!this.ipfs) {
+      const { create } = await importModule('ipfs-http-client');
+      this.ipfs = create({ url: 'https://ipfs.io' }) as IpfsClient;
     }
+    return this.ipfs;
   }
 }
@@ -1,65 +1,296 @@
-import axios, { AxiosInstance } from 'axios';
-import { ConfigService } from './config';
+import { AxiosError, AxiosInstance, InternalAxiosRequestConfig, isAxiosError } from 'axios';
+import { ResponseCache } from './cache';
+import { AuthConfig, ConfigService } from './config';
+import { OAuthService, TokenSet } from './oauth';
+import { createHttpClient } from '../utils/http';
+import { AuthError, SessionExpiredError, toApiError } from '../utils/errors';
+import { Logger, logger } from '../utils/logger';
 
 export interface UserInfo {
   id: string;
   username: string;
   email: string;
-  plan: string;
+  plan: Plan;
+}
+
+export interface Plan {
+  name: string;
+  // e.g. { concurrentBuilds: 2, buildMinutesPerMonth: 1000 }; null means unlimited
+  limits?: Record<string, number | null>;
+}
+
+// Scopes the API understands for personal access tokens
+export const TOKEN_SCOPES = [
+  'games:read',
+  'games:write',
+  'builds:read',
+  'builds:write',
+  'deploy:staging',
+  'deploy:prod',
+  'analytics:read',
+  'assets:write'
+];
+
+export interface ApiToken {
+  id: string;
+  description: string;
+  // Empty for tokens with the full permissions of their user
+  scopes: string[];
+  createdAt: string;
+  expiresAt?: string;
+  lastUsedAt?: string;
+  // Only returned when the token is created
+  token?: string;
+}
+
+export interface CreateTokenOptions {
+  description: string;
+  scopes: string[];
+  expiresAt?: string;
+}
+
+// Refresh this long before the recorded expiry so requests in flight don't race it
+const EXPIRY_MARGIN = 60 * 1000;
+
+// Refreshes by the refresh token they spend, kept for the process: another AuthService
+// on the same session (e.g. from a second Context) still holding the old refresh token
+// picks up the new tokens instead of spending a token the server has already rotated.
+const refreshes = new Map<string, Promise<TokenSet>>();
+
+interface AuthRequestConfig extends InternalAxiosRequestConfig {
+  refreshed?: boolean;
 }
 
 export class AuthService {
-  private configService = new ConfigService();
-  private client: AxiosInstance;
-
-  constructor() {
-    const baseUrl = this.configService.get('auth.baseUrl') || 'https://api.gamebuild.com';
-    this.client = axios.create({
-      baseURL: baseUrl,
-      headers: {
-        'Content-Type': 'application/json',
-        'User-Agent': 'GameBuild-CLI/1.0.0'
-      }
-    });
+  private configService: ConfigService;
+  private logger: Logger;
+  private oauthService: OAuthService;
+  private client?: AxiosInstance;
 
-    // Add auth interceptor
-    this.client.interceptors.request.use((config) => {
-      const token = this.configService.get('auth.token');
-      if (token) {
-        config.headers.Authorization = `Bearer ${token}`;
-      }
-      return config;
-    });
+  /**
+   * Sessions are read from and saved to `configService`; by default the CLI's config.
+   */
+  constructor(
+    configService: ConfigService = new ConfigService(),
+    log: Logger = logger,
+    oauthService: OAuthService = new OAuthService(configService, log)
+  ) {
+    this.configService = configService;
+    this.logger = log;
+    this.oauthService = oauthService;
   }
 
   async validateToken(token: string, baseUrl: string): Promise<boolean> {
+    return (await this.lookupUser(token, baseUrl)) !== undefined;
+  }
+
+  /**
+   * The user a token belongs to, or undefined when the token is not accepted.
+   */
+  async lookupUser(token: string, baseUrl: string): Promise<UserInfo | undefined> {
     try {
-      const response = await axios.get(`${baseUrl}/v1/user/me`, {
+      const response = await this.createClient(baseUrl).get('/v1/user/me', {
         headers: {
-          Authorization: `Bearer ${token}`,
-          'User-Agent': 'GameBuild-CLI/1.0.0'
+          Authorization: `Bearer ${token}`
         }
       });
-      return response.status === 200;
+      return response.status === 200 ? response.data : undefined;
     } catch (error) {
-      return false;
+      return undefined;
     }
   }
 
   async getUserInfo(): Promise<UserInfo> {
     try {
-      const response = await this.client.get('/v1/user/me');
+      const response = await this.getAuthenticatedClient().get('/v1/user/me');
       return response.data;
-    } catch (error: any) {
-      throw new Error(`Failed to get user info: ${error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to get user info');
+    }
+  }
+
+  async createToken(options: CreateTokenOptions): Promise<ApiToken> {
+    try {
+      const response = await this.getAuthenticatedClient().post('/v1/user/tokens', options);
+      return response.data;
+    } catch (error) {
+      throw toApiError(error, 'Failed to create token');
+    }
+  }
+
+  async listTokens(): Promise<ApiToken[]> {
+    try {
+      const response = await this.getAuthenticatedClient().get('/v1/user/tokens');
+      return response.data.tokens || [];
+    } catch (error) {
+      throw toApiError(error, 'Failed to list tokens');
+    }
+  }
+
+  /**
+   * The token this CLI is authenticated with, or undefined for sessions that are not
+   * personal access tokens (OAuth and wallet logins).
+   */
+  async getCurrentToken(): Promise<ApiToken | undefined> {
+    try {
+      const response = await this.getAuthenticatedClient().get('/v1/user/tokens/current');
+      return response.data;
+    } catch (error) {
+      if (isAxiosError(error) && error.response?.status === 404) {
+        return undefined;
+      }
+      throw toApiError(error, 'Failed to get token details');
+    }
+  }
+
+  async revokeToken(tokenId: string): Promise<void> {
+    try {
+      await this.getAuthenticatedClient().delete(`/v1/user/tokens/${tokenId}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to revoke token');
     }
   }
 
   getAuthenticatedClient(): AxiosInstance {
+    // Created on first use so that global flags (--config, --verbose) are already applied
+    if (!this.client) {
+      const client = this.createClient(this.configService.get('auth.baseUrl'));
+
+      // Add auth interceptor
+      client.interceptors.request.use(async (config) => {
+        const token = await this.getAccessToken();
+        if (token) {
+          config.headers.Authorization = `Bearer ${token}`;
+        }
+        return config;
+      });
+
+      // The token can be revoked or rotated before its recorded expiry: refresh and retry once
+      client.interceptors.response.use(undefined, async (error: AxiosError) => {
+        const config = error.config as AuthRequestConfig | undefined;
+        if (!config || config.refreshed || error.response?.status !== 401 || !this.getSession()?.refreshToken) {
+          throw error;
+        }
+
+        config.refreshed = true;
+        await this.refreshSession();
+        return client.request(config);
+      });
+
+      // Below the interceptors, so cache keys see the Authorization header
+      new ResponseCache(this.configService, this.logger).attach(client);
+
+      this.client = client;
+    }
+
     return this.client;
   }
 
+  /**
+   * Store a session as `account` in the active profile and switch to it. Other
+   * accounts are kept; a previous session of the same account is replaced.
+   */
+  saveSession(baseUrl: string, tokens: TokenSet, account: string, username?: string): void {
+    this.configService.set('auth.baseUrl', baseUrl);
+    this.configService.addAccount(account);
+    this.storeTokens(tokens);
+    if (username) {
+      this.configService.set('auth.username', username);
+    }
+    this.configService.save();
+    this.client = undefined;
+  }
+
+  /**
+   * Remove the session of the active account. Returns the account now active, if any.
+   */
+  clearSession(): string | undefined {
+    const account = this.configService.getActiveAccount();
+    if (account && this.configService.getAccount(account)) {
+      this.configService.removeAccount(account);
+      this.configService.save();
+    }
+    this.client = undefined;
+    const next = this.configService.getActiveAccount();
+    return next && this.configService.getAccount(next) ? next : undefined;
+  }
+
   isAuthenticated(): boolean {
     return !!this.configService.get('auth.token');
   }
+
+  /**
+   * Throw an AuthError (exit code 3) unless a token is configured.
+   */
+  requireAuthentication(): void {
+    if (!this.isAuthenticated()) {
+      const account = ConfigService.getAccountOverride();
+      throw new AuthError(account ? `No session stored for account "${account}"` : 'Please login first');
+    }
+  }
+
+  /**
+   * The access token in use. A stored session is refreshed first when it is about to
+   * expire, and throws a SessionExpiredError once it has expired without a refresh token.
+   */
+  async getAccessToken(): Promise<string | undefined> {
+    const token = this.configService.get('auth.token');
+    const session = this.getSession();
+    const expiresAt = session?.expiresAt;
+
+    if (!token || !expiresAt || Date.now() < expiresAt - EXPIRY_MARGIN) {
+      return token;
+    }
+
+    if (session?.refreshToken) {
+      return (await this.refreshSession()).accessToken;
+    }
+
+    if (Date.now() >= expiresAt) {
+      throw new SessionExpiredError();
+    }
+
+    return token;
+  }
+
+  // The stored session of the active account, when its token is the one in use. A token
+  // from GAMEBUILD_TOKEN overrides the session, and its expiry and refresh token with it.
+  private getSession(): AuthConfig | undefined {
+    const account = this.configService.getActiveAccount();
+    const session = account ? this.configService.getAccount(account) : undefined;
+    return session?.token && session.token === this.configService.get('auth.token') ? session : undefined;
+  }
+
+  private async refreshSession(): Promise<TokenSet> {
+    const refreshToken = this.getSession()?.refreshToken as string;
+
+    let refresh = refreshes.get(refreshToken);
+    if (!refresh) {
+      this.logger.debug('Access token expired, refreshing the session');
+      refresh = this.oauthService.refreshAccessToken(this.configService.get('auth.baseUrl'), refreshToken);
+      refreshes.set(refreshToken, refresh);
+      // Let the next request try again after a network failure
+      refresh.catch(() => refreshes.delete(refreshToken));
+    }
+
+    const tokens = await refresh;
+    this.storeTokens(tokens);
+    this.configService.save();
+    return tokens;
+  }
+
+  private storeTokens(tokens: TokenSet): void {
+    this.configService.set('auth.token', tokens.accessToken);
+    for (const key of ['refreshToken', 'expiresAt'] as const) {
+      if (tokens[key] !== undefined) {
+        this.configService.set(`auth.${key}`, tokens[key]);
+      } else {
+        this.configService.delete(`auth.${key}`);
+      }
+    }
+  }
+
+  private createClient(baseUrl: string): AxiosInstance {
+    return createHttpClient(baseUrl, this.configService.get('http'), this.logger);
+  }
 }
@@ -1,7 +1,8 @@
 import { AuthService } from './auth';
 import * as fs from 'fs';
 import * as path from 'path';
-import chalk from 'chalk';
+import { toApiError } from '../utils/errors';
+import { Page, PageOptions, pageOf, paginate } from '../utils/pagination';
 
 export interface Build {
   id: string;
@@ -23,8 +24,25 @@ export interface BuildOptions {
   watch?: boolean;
 }
 
+export interface BuildWatchListener {
+  // A change was detected and a rebuild is starting
+  onRebuild?: () => void;
+  onBuild?: (build: Build) => void;
+  onError?: (error: Error) => void;
+}
+
+export interface BuildWatcher {
+  // Directories being watched, relative to the working directory
+  paths: string[];
+  close(): void;
+}
+
 export class BuildService {
-  private authService = new AuthService();
+  private authService: AuthService;
+
+  constructor(authService: AuthService = new AuthService()) {
+    this.authService = authService;
+  }
 
   async startBuild(options: BuildOptions): Promise<Build> {
     const client = this.authService.getAuthenticatedClient();
@@ -41,15 +59,16 @@ export class BuildService {
       });
       
       return response.data;
-    } catch (error: any) {
-      throw new Error(`Failed to start build: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to start build');
     }
   }
 
-  async startWatchBuild(options: BuildOptions): Promise<void> {
-    console.log(chalk.blue('👀 Starting watch mode...'));
-    console.log(chalk.gray('Press Ctrl+C to stop watching'));
-    
+  /**
+   * Build once, then rebuild whenever a file under src/ or assets/ changes. The returned
+   * watcher has no paths when there is nothing to watch.
+   */
+  async startWatchBuild(options: BuildOptions, listener: BuildWatchListener = {}): Promise<BuildWatcher> {
     // Initial build
     await this.startBuild(options);
     
@@ -58,39 +77,33 @@ export class BuildService {
       fs.existsSync(path.join(process.cwd(), dir))
     );
     
-    if (watchPaths.length === 0) {
-      console.log(chalk.yellow('⚠️  No source directories found to watch.'));
-      return;
-    }
-    
-    console.log(chalk.gray(`Watching: ${watchPaths.join(', ')}`));
-    
     // Simple file watcher implementation
     let buildTimeout: NodeJS.Timeout;
     
     const watchCallback = async () => {
       clearTimeout(buildTimeout);
       buildTimeout = setTimeout(async () => {
-        console.log(chalk.blue('🔄 File changes detected, rebuilding...'));
+        listener.onRebuild?.();
         try {
-          await this.startBuild(options);
-          console.log(chalk.green('✅ Rebuild completed!'));
+          listener.onBuild?.(await this.startBuild(options));
         } catch (error: any) {
-          console.log(chalk.red(`❌ Rebuild failed: ${error.message}`));
+          listener.onError?.(error);
         }
       }, 1000); // Debounce rebuilds by 1 second
     };
 
-    watchPaths.forEach(watchPath => {
+    const watchers = watchPaths.map(watchPath => {
       const fullPath = path.join(process.cwd(), watchPath);
-      fs.watch(fullPath, { recursive: true }, watchCallback);
+      return fs.watch(fullPath, { recursive: true }, watchCallback);
     });
 
-    // Keep the process alive
-    process.on('SIGINT', () => {
-      console.log(chalk.yellow('\n👋 Stopping watch mode...'));
-      process.exit(0);
-    });
+    return {
+      paths: watchPaths,
+      close: () => {
+        clearTimeout(buildTimeout);
+        watchers.forEach(watcher => watcher.close());
+      }
+    };
   }
 
   async getBuild(buildId: string): Promise<Build> {
@@ -99,8 +112,8 @@ export class BuildService {
     try {
       const response = await client.get(`/v1/builds/${buildId}`);
       return response.data;
-    } catch (error: any) {
-      throw new Error(`Failed to get build: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to get build');
     }
   }
 
@@ -110,16 +123,25 @@ export class BuildService {
   }
 
   async listBuilds(gameId: string, limit: number = 10): Promise<Build[]> {
-    const client = this.authService.getAuthenticatedClient();
-    
-    try {
-      const response = await client.get(`/v1/games/${gameId}/builds`, {
-        params: { limit }
-      });
-      return response.data.builds || [];
-    } catch (error: any) {
-      throw new Error(`Failed to list builds: ${error.response?.data?.message || error.message}`);
-    }
+    const { value } = await this.listBuildPages(gameId, { pageSize: limit }).next();
+    return value ? value.items : [];
+  }
+
+  /**
+   * Builds of `gameId`, newest first, a page at a time.
+   */
+  listBuildPages(gameId: string, options: PageOptions = {}): AsyncGenerator<Page<Build>> {
+    return paginate(async (cursor) => {
+      const client = this.authService.getAuthenticatedClient();
+      try {
+        const response = await client.get(`/v1/games/${gameId}/builds`, {
+          params: { limit: options.pageSize, cursor }
+        });
+        return pageOf<Build>(response.data, 'builds');
+      } catch (error) {
+        throw toApiError(error, 'Failed to list builds');
+      }
+    }, options.cursor);
   }
 
   async getLogs(buildId: string): Promise<string> {
@@ -128,45 +150,35 @@ export class BuildService {
     try {
       const response = await client.get(`/v1/builds/${buildId}/logs`);
       return response.data.logs || '';
-    } catch (error: any) {
-      throw new Error(`Failed to get logs: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to get logs');
     }
   }
 
-  async followLogs(buildId: string): Promise<void> {
-    console.log(chalk.gray('Following logs... Press Ctrl+C to stop'));
-    
+  /**
+   * Poll the logs of a running build, passing new output to `onLogs` as it arrives.
+   * Resolves with the final status once the build is no longer running.
+   */
+  async followLogs(buildId: string, onLogs: (logs: string) => void): Promise<string> {
     // Simple polling implementation for log following
     let lastLogLength = 0;
     
-    const pollLogs = async () => {
-      try {
-        const logs = await this.getLogs(buildId);
-        const newLogs = logs.slice(lastLogLength);
-        
-        if (newLogs) {
-          process.stdout.write(newLogs);
-          lastLogLength = logs.length;
-        }
-        
-        // Check if build is still running
-        const build = await this.getBuild(buildId);
-        if (build.status === 'building') {
-          setTimeout(pollLogs, 2000); // Poll every 2 seconds
-        } else {
-          console.log(chalk.gray(`\nBuild finished with status: ${build.status}`));
-        }
-      } catch (error: any) {
-        console.log(chalk.red(`Error following logs: ${error.message}`));
+    for (;;) {
+      const logs = await this.getLogs(buildId);
+      const newLogs = logs.slice(lastLogLength);
+      
+      if (newLogs) {
+        onLogs(newLogs);
+        lastLogLength = logs.length;
       }
-    };
-
-    pollLogs();
-    
-    process.on('SIGINT', () => {
-      console.log(chalk.yellow('\n👋 Stopped following logs.'));
-      process.exit(0);
-    });
+      
+      // Check if build is still running
+      const build = await this.getBuild(buildId);
+      if (build.status !== 'building') {
+        return build.status;
+      }
+      await sleep(2000); // Poll every 2 seconds
+    }
   }
 
   async downloadBuild(buildId: string, outputPath: string): Promise<void> {
@@ -192,8 +204,8 @@ export class BuildService {
         writer.on('finish', resolve);
         writer.on('error', reject);
       });
-    } catch (error: any) {
-      throw new Error(`Failed to download build: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to download build');
     }
   }
 
@@ -209,14 +221,14 @@ export class BuildService {
       throw new Error('No project files found to upload');
     }
     
-    // Simulate upload process
-    console.log(chalk.gray(`📤 Uploading ${projectFiles.length} files...`));
-    
     // This would be replaced with actual upload logic
     return Promise.resolve();
   }
 
-  private getProjectFiles(): string[] {
+  /**
+   * Files of the project in the current directory that a build uploads.
+   */
+  getProjectFiles(): string[] {
     const files: string[] = [];
     const includeDirs = ['src', 'assets'];
     const excludePatterns = [
@@ -271,3 +283,7 @@ export class BuildService {
     return files;
   }
 }
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,228 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import axios, { AxiosAdapter, AxiosHeaders, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { ConfigService } from './config';
+import { Logger, logger } from '../utils/logger';
+
+export const RESPONSES_DIR = 'responses';
+
+// Seconds each resource is cached for by default; cache.ttl.<resource> overrides them
+// and 0 turns caching off for that resource
+export const DEFAULT_CACHE_TTLS: Record<string, number> = {
+  games: 60,
+  analytics: 300,
+  assets: 120,
+  guilds: 120,
+  ads: 120,
+  tokens: 300
+};
+
+// GET paths of each cached resource. Builds, deployments and realtime analytics change
+// too quickly to cache.
+const RESOURCES: Array<{ resource: string; pattern: RegExp }> = [
+  { resource: 'games', pattern: /^\/v1\/games(?:\/[^/]+)?$/ },
+  { resource: 'analytics', pattern: /^\/v1\/analytics\/(?!realtime\b)/ },
+  { resource: 'assets', pattern: /^\/v1\/assets(?:\/[^/]+)?$/ },
+  { resource: 'guilds', pattern: /^\/v1\/guilds(?:\/[^/]+)?$/ },
+  { resource: 'ads', pattern: /^\/v1\/ads\// },
+  { resource: 'tokens', pattern: /^\/v1\/tokens\// }
+];
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Seconds `resource` is cached for: cache.ttl.<resource>, else its default.
+ */
+export function getCacheTtl(configService: ConfigService, resource: string): number {
+  const configured = Number(configService.get(`cache.ttl.${resource}`));
+  return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_CACHE_TTLS[resource] || 0;
+}
+
+export interface CacheSettings {
+  // --no-cache: neither read nor write the cache
+  enabled?: boolean;
+  // --refresh: ignore cached responses, but store the fresh ones
+  refresh?: boolean;
+}
+
+interface CachedResponse {
+  method: string;
+  url: string;
+  storedAt: number;
+  expiresAt: number;
+  status: number;
+  headers: Record<string, unknown>;
+  data: string;
+}
+
+/**
+ * Keeps successful responses of read-heavy GET endpoints on disk under
+ * ~/.gamebuild/cache, keyed by profile, credentials, endpoint and params. Any
+ * successful write request clears the profile's cached responses.
+ */
+export class ResponseCache {
+  private static settings: CacheSettings = {};
+
+  private configService: ConfigService;
+  private logger: Logger;
+
+  constructor(configService: ConfigService, log: Logger = logger) {
+    this.configService = configService;
+    this.logger = log;
+  }
+
+  /**
+   * Apply the global --no-cache and --refresh flags for this invocation.
+   */
+  static configure(settings: CacheSettings): void {
+    ResponseCache.settings = { ...settings };
+  }
+
+  /**
+   * Whether anything may be cached for `configService`: not with --no-cache,
+   * cache.enabled=false or an in-memory config.
+   */
+  static isEnabled(configService: ConfigService): boolean {
+    return (
+      ResponseCache.settings.enabled !== false &&
+      !configService.isInMemory() &&
+      configService.get('cache.enabled') !== false
+    );
+  }
+
+  /**
+   * --refresh: cached entries are not read, but fresh ones are still stored.
+   */
+  static isRefreshing(): boolean {
+    return !!ResponseCache.settings.refresh;
+  }
+
+  attach(client: AxiosInstance): void {
+    const next = axios.getAdapter(client.defaults.adapter);
+    client.defaults.adapter = (config) => this.handle(config, next);
+  }
+
+  /**
+   * Remove everything cached, for every profile: responses and resolved names.
+   * Returns the number of files removed.
+   */
+  clear(): number {
+    const dir = this.configService.getCacheDir();
+    const count = countFiles(dir);
+    fs.rmSync(dir, { recursive: true, force: true });
+    return count;
+  }
+
+  private async handle(config: InternalAxiosRequestConfig, next: AxiosAdapter): Promise<AxiosResponse> {
+    if (!ResponseCache.isEnabled(this.configService)) {
+      return next(config);
+    }
+
+    const method = (config.method || 'get').toUpperCase();
+    if (method !== 'GET') {
+      const response = await next(config);
+      if (!READ_METHODS.includes(method)) {
+        this.invalidate();
+      }
+      return response;
+    }
+
+    const ttl = this.getTtl(pathOf(config));
+    if (!ttl || config.responseType === 'stream') {
+      return next(config);
+    }
+
+    const file = this.getFile(config);
+    const cached = ResponseCache.isRefreshing() ? undefined : read(file);
+    if (cached) {
+      this.logger.debug(`cache hit: GET ${cached.url} (stored ${Math.round((Date.now() - cached.storedAt) / 1000)}s ago)`);
+      return {
+        data: cached.data,
+        status: cached.status,
+        statusText: 'OK',
+        headers: AxiosHeaders.from(cached.headers as Record<string, string>),
+        config,
+        request: {}
+      };
+    }
+
+    const response = await next(config);
+    if (response.status >= 200 && response.status < 300 && typeof response.data === 'string') {
+      const now = Date.now();
+      this.write(file, {
+        method,
+        url: axios.getUri(config),
+        storedAt: now,
+        expiresAt: now + ttl * 1000,
+        status: response.status,
+        headers: { 'content-type': AxiosHeaders.from(response.headers as Record<string, string>).getContentType() },
+        data: response.data
+      });
+    }
+    return response;
+  }
+
+  private getTtl(requestPath: string): number {
+    const match = RESOURCES.find(({ pattern }) => pattern.test(requestPath));
+    return match ? getCacheTtl(this.configService, match.resource) : 0;
+  }
+
+  private getProfileDir(): string {
+    const profile = encodeURIComponent(this.configService.getActiveProfile());
+    return path.join(this.configService.getCacheDir(), RESPONSES_DIR, profile);
+  }
+
+  // The credentials are part of the key, so accounts never see each other's responses,
+  // but only as a hash: tokens are never written to the cache
+  private getFile(config: InternalAxiosRequestConfig): string {
+    const params = Object.entries(config.params || {})
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([key, value]) => [key, String(value)])
+      .sort(([a], [b]) => a.localeCompare(b));
+    const key = JSON.stringify([
+      config.baseURL,
+      AxiosHeaders.from(config.headers).get('authorization') || '',
+      config.url,
+      params
+    ]);
+    const hash = crypto.createHash('sha256').update(key).digest('hex');
+    return path.join(this.getProfileDir(), `${hash}.json`);
+  }
+
+  private write(file: string, entry: CachedResponse): void {
+    try {
+      fs.mkdirSync(path.dirname(file), { recursive: true, mode: 0o700 });
+      fs.writeFileSync(file, JSON.stringify(entry), { mode: 0o600 });
+    } catch (error: any) {
+      this.logger.debug(`cache not written: ${error.message}`);
+    }
+  }
+
+  private invalidate(): void {
+    fs.rmSync(this.getProfileDir(), { recursive: true, force: true });
+  }
+}
+
+function read(file: string): CachedResponse | undefined {
+  try {
+    const entry: CachedResponse = JSON.parse(fs.readFileSync(file, 'utf8'));
+    return entry.expiresAt > Date.now() ? entry : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function pathOf(config: InternalAxiosRequestConfig): string {
+  return new URL(config.url || '', 'http://localhost').pathname;
+}
+
+function countFiles(dir: string): number {
+  if (!fs.existsSync(dir)) {
+    return 0;
+  }
+  return fs.readdirSync(dir, { withFileTypes: true }).reduce(
+    (count, entry) => count + (entry.isDirectory() ? countFiles(path.join(dir, entry.name)) : 1),
+    0
+  );
+}
@@ -1,108 +1,948 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import { CliError, ExitCode } from '../utils/errors';
+import { DEFAULT_RETRY_OPTIONS, DEFAULT_TIMEOUT } from '../utils/http';
+import { PROJECT_FILE, ProjectManifest, ProjectManifestError, ProjectService } from './project';
+import { AccountCredentials, CREDENTIALS_FILE, Credentials, CredentialStore, PASSPHRASE_ENV } from './credentials';
+
+export interface AuthConfig {
+  token?: string;
+  baseUrl?: string;
+  // Set when logged in through OAuth (auth login --web/--device)
+  refreshToken?: string;
+  expiresAt?: number;
+  clientId?: string;
+  // User the session belongs to, as reported by the API at login
+  username?: string;
+}
+
+export interface ProfileConfig {
+  // Settings shared by every account of the profile, such as baseUrl and clientId
+  auth?: AuthConfig;
+  // Stored sessions by account name; auth.* session keys resolve to the active one
+  accounts?: Record<string, AuthConfig>;
+  activeAccount?: string;
+  [key: string]: any;
+}
 
 export interface Config {
-  auth?: {
-    token?: string;
-    baseUrl?: string;
-  };
+  auth?: AuthConfig;
+  activeProfile?: string;
+  profiles?: Record<string, ProfileConfig>;
   project?: {
     name?: string;
     id?: string;
+    gameId?: string;
     buildPath?: string;
     platform?: string;
   };
+  http?: {
+    timeout?: number;
+    retries?: number;
+    retryDelay?: number;
+    maxRetryDelay?: number;
+  };
+  cache?: {
+    enabled?: boolean;
+    // Seconds per resource, e.g. { games: 60 }
+    ttl?: Record<string, number>;
+  };
   [key: string]: any;
 }
 
+export interface ConfigEntry {
+  key: string;
+  value: any;
+  origin: string;
+}
+
+export type ConfigScope = 'global' | 'local';
+
+interface ConfigLayer {
+  values: Config;
+  origin: (key: string) => string;
+}
+
+export const DEFAULT_PROFILE = 'default';
+
+// Account that sessions stored before accounts existed are kept under
+export const DEFAULT_ACCOUNT = 'default';
+
+export const DEFAULT_CONFIG: Config = {
+  auth: {
+    baseUrl: 'https://api.gamebuild.com'
+  },
+  http: {
+    timeout: DEFAULT_TIMEOUT,
+    ...DEFAULT_RETRY_OPTIONS
+  }
+};
+
+// Top-level sections stored per profile rather than globally
+const PROFILE_SECTIONS = ['auth'];
+
+const ENV_PREFIX = 'GAMEBUILD_';
+
+// Shorthand variables; any other key can be set as GAMEBUILD_<SECTION>__<KEY>
+const ENV_ALIASES: Record<string, string> = {
+  GAMEBUILD_TOKEN: 'auth.token',
+  GAMEBUILD_BASE_URL: 'auth.baseUrl',
+  GAMEBUILD_GAME_ID: 'project.gameId'
+};
+
+// Sections that must never be written to a project file, which is usually committed
+const NON_LOCAL_SECTIONS = ['auth', 'profiles', 'activeProfile'];
+
+// Wallet secrets for auth login --wallet, read instead of the matching flags so keys stay
+// out of shell history and process lists
+export const PRIVATE_KEY_ENV = 'GAMEBUILD_PRIVATE_KEY';
+export const KEYSTORE_PASSWORD_ENV = 'GAMEBUILD_KEYSTORE_PASSWORD';
+
+// Variables that control the CLI itself rather than map to a config key
+const RESERVED_ENV = ['GAMEBUILD_PROFILE', 'GAMEBUILD_ACCOUNT', PASSPHRASE_ENV, PRIVATE_KEY_ENV, KEYSTORE_PASSWORD_ENV];
+
+// Auth keys that belong to a session and are stored per account
+const SESSION_AUTH_KEYS: Array<keyof AuthConfig> = ['token', 'refreshToken', 'expiresAt', 'username'];
+
+// Auth keys kept in the encrypted credential store rather than config.json
+const SECRET_AUTH_KEYS = ['token', 'refreshToken'] as const;
+
+// Keys that always hold strings, however their values look: tokens such as 0x1f or 1e5
+// and IDs such as 007 must reach the API as typed
+const STRING_KEYS = [
+  'auth.token',
+  'auth.refreshToken',
+  'auth.baseUrl',
+  'auth.clientId',
+  'auth.username',
+  'project.gameId',
+  'project.createdAt',
+  'project.buildPath',
+  'project.platform'
+];
+
+/**
+ * Parse a string from the command line or environment into the value for `key`:
+ * booleans, numbers and JSON objects/arrays are converted, anything else stays a string.
+ * Values of string-typed keys are never converted.
+ */
+export function parseConfigValue(value: string, key?: string): any {
+  if (key && STRING_KEYS.includes(key)) {
+    return value;
+  }
+  if (value.toLowerCase() === 'true') {
+    return true;
+  }
+  if (value.toLowerCase() === 'false') {
+    return false;
+  }
+  if (value.trim() !== '' && !isNaN(Number(value))) {
+    return Number(value);
+  }
+  if (value.startsWith('{') || value.startsWith('[')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      // Keep as string if not valid JSON
+    }
+  }
+  return value;
+}
+
 export class ConfigService {
-  private configPath: string;
+  private static defaultConfigPath?: string;
+  private static profileOverride?: string;
+  private static accountOverride?: string;
+  private static replayOverrides?: Config;
+
+  private configPath?: string;
   private config: Config = {};
+  private loaded = false;
+  private projectService = new ProjectService();
+  private projectPath?: string | null;
+  private project?: ProjectManifest | null;
+  private projectError?: ProjectManifestError;
+  private projectDirty = false;
+  private storedCredentials?: string;
+  private credentialsError?: CliError;
+  private detached = false;
+
+  constructor(configPath?: string) {
+    this.configPath = configPath;
+  }
+
+  /**
+   * A config that lives only in memory, for use as a library. Nothing is read from or
+   * written to disk, and the environment, project file and global flags are ignored.
+   * Sessions refreshed through it are kept for the lifetime of the instance.
+   */
+  static inMemory(config: Config = {}): ConfigService {
+    const service = new ConfigService();
+    service.detached = true;
+    service.loaded = true;
+    service.projectPath = null;
+    service.project = null;
+    service.config = JSON.parse(JSON.stringify(config));
+    service.migrateLegacyAuth();
+    service.migrateLegacySessions();
+    return service;
+  }
+
+  /**
+   * Point every ConfigService created without an explicit path at `configPath`.
+   * Used by the global --config flag.
+   */
+  static setDefaultPath(configPath: string | undefined): void {
+    ConfigService.defaultConfigPath = configPath ? path.resolve(configPath) : undefined;
+  }
+
+  /**
+   * Force the active profile for this invocation. Used by the global --profile flag.
+   */
+  static setProfileOverride(profile: string | undefined): void {
+    ConfigService.profileOverride = profile;
+  }
+
+  /**
+   * Force the account for this invocation. Used by the global --account flag.
+   */
+  static setAccountOverride(account: string | undefined): void {
+    ConfigService.accountOverride = account;
+  }
+
+  /**
+   * Values that stand in for the session and project while --replay answers every
+   * request, so recordings play back without the reporter's login or project file.
+   */
+  static setReplayOverrides(overrides: Config | undefined): void {
+    ConfigService.replayOverrides = overrides;
+  }
+
+  static getAccountOverride(): string | undefined {
+    return ConfigService.accountOverride || process.env.GAMEBUILD_ACCOUNT;
+  }
+
+  static getGlobalConfigPath(): string {
+    return path.join(os.homedir(), '.gamebuild', 'config.json');
+  }
+
+  // The path and the file contents are both resolved on first use, so that global
+  // flags parsed after command registration (such as --config) are applied first
+  getPath(): string {
+    return this.configPath || ConfigService.defaultConfigPath || ConfigService.getGlobalConfigPath();
+  }
+
+  getCredentialsPath(): string {
+    return path.join(path.dirname(this.getPath()), CREDENTIALS_FILE);
+  }
+
+  // Cached lookups, next to the config file so --config keeps them apart
+  getCacheDir(): string {
+    return path.join(path.dirname(this.getPath()), 'cache');
+  }
+
+  // True for configs from ConfigService.inMemory, which must never touch the disk
+  isInMemory(): boolean {
+    return this.detached;
+  }
+
+  /**
+   * Find the nearest .gamebuild.json, walking up from `startDir` to the filesystem root.
+   */
+  static findProjectFile(startDir: string = process.cwd()): string | undefined {
+    let dir = path.resolve(startDir);
+
+    for (;;) {
+      const candidate = path.join(dir, PROJECT_FILE);
+      if (fs.existsSync(candidate)) {
+        return candidate;
+      }
+
+      const parent = path.dirname(dir);
+      if (parent === dir) {
+        return undefined;
+      }
+      dir = parent;
+    }
+  }
 
-  constructor() {
-    const homeDir = os.homedir();
-    const configDir = path.join(homeDir, '.gamebuild');
-    this.configPath = path.join(configDir, 'config.json');
-    
-    // Ensure config directory exists
-    if (!fs.existsSync(configDir)) {
-      fs.mkdirSync(configDir, { recursive: true });
+  getProjectPath(): string | undefined {
+    if (this.projectPath === undefined) {
+      this.projectPath = ConfigService.findProjectFile() || null;
+    }
+    return this.projectPath || undefined;
+  }
+
+  getProjectRoot(): string | undefined {
+    const projectPath = this.getProjectPath();
+    return projectPath ? path.dirname(projectPath) : undefined;
+  }
+
+  /**
+   * Why the project file could not be used, if it is malformed. An invalid project file
+   * is left out of the config layers so unrelated commands keep working; commands that
+   * need the project report this error instead.
+   */
+  getProjectError(): ProjectManifestError | undefined {
+    this.getProject();
+    return this.projectError;
+  }
+
+  private getProject(): ProjectManifest | undefined {
+    if (this.project === undefined) {
+      const projectPath = this.getProjectPath();
+      this.project = null;
+
+      if (projectPath) {
+        try {
+          this.project = this.projectService.load(projectPath);
+        } catch (error) {
+          if (!(error instanceof ProjectManifestError)) {
+            throw error;
+          }
+          this.projectError = error;
+        }
+      }
+    }
+    return this.project || undefined;
+  }
+
+  private ensureLoaded(): void {
+    if (!this.loaded) {
+      this.loaded = true;
+      this.load();
     }
-    
-    this.load();
   }
 
   private load(): void {
     try {
-      if (fs.existsSync(this.configPath)) {
-        const content = fs.readFileSync(this.configPath, 'utf8');
+      if (fs.existsSync(this.getPath())) {
+        const content = fs.readFileSync(this.getPath(), 'utf8');
         this.config = JSON.parse(content);
       }
     } catch (error) {
       // If config is corrupted, start fresh
       this.config = {};
     }
+
+    this.migrateLegacyAuth();
+    this.migrateLegacySessions();
+    const plaintext = this.hasPlaintextSecrets();
+    this.loadCredentials();
+
+    // Tokens left in config.json by versions that predate the credential store move into
+    // it on first read, not on the next command that happens to save
+    if (plaintext && !this.credentialsError) {
+      try {
+        this.save();
+      } catch {
+        // Read-only home directories keep the old file; the tokens in it still work
+      }
+    }
+  }
+
+  private hasPlaintextSecrets(): boolean {
+    return Object.values(this.config.profiles || {}).some((profile) =>
+      Object.values(profile.accounts || {}).some((session) => SECRET_AUTH_KEYS.some((key) => session[key] !== undefined))
+    );
+  }
+
+  // Merge the stored secrets into their profiles. A store that cannot be decrypted only
+  // fails the commands that need a credential.
+  private loadCredentials(): void {
+    let credentials: Credentials = {};
+    try {
+      credentials = new CredentialStore(this.getCredentialsPath()).load();
+    } catch (error) {
+      if (!(error instanceof CliError)) {
+        throw error;
+      }
+      this.credentialsError = error;
+    }
+
+    const profiles = (this.config.profiles = this.config.profiles || {});
+    for (const [name, stored] of Object.entries(credentials)) {
+      // Stores written before accounts existed hold a single session per profile
+      const legacy = stored as AccountCredentials;
+      const accounts = typeof legacy.token === 'string' || typeof legacy.refreshToken === 'string'
+        ? { [DEFAULT_ACCOUNT]: legacy }
+        : stored;
+      credentials[name] = accounts;
+
+      const profile = (profiles[name] = profiles[name] || {});
+      profile.accounts = profile.accounts || {};
+      for (const [account, secrets] of Object.entries(accounts)) {
+        profile.accounts[account] = { ...profile.accounts[account], ...secrets };
+      }
+      if (!profile.activeAccount) {
+        profile.activeAccount = Object.keys(profile.accounts)[0];
+      }
+    }
+    this.storedCredentials = serializeCredentials(credentials);
+  }
+
+  // Move secrets out of a copy of the config, including any left in plaintext by
+  // versions that predate the credential store
+  private splitCredentials(): { config: Config; credentials: Credentials } {
+    const config: Config = JSON.parse(JSON.stringify(this.config));
+    const credentials: Credentials = {};
+
+    for (const [name, profile] of Object.entries(config.profiles || {})) {
+      for (const [account, session] of Object.entries(profile.accounts || {})) {
+        for (const key of SECRET_AUTH_KEYS) {
+          if (session[key] !== undefined) {
+            credentials[name] = credentials[name] || {};
+            credentials[name][account] = { ...credentials[name][account], [key]: session[key] };
+            delete session[key];
+          }
+        }
+      }
+    }
+
+    return { config, credentials };
+  }
+
+  // Profiles written before accounts existed keep their session in the auth section;
+  // it becomes the default account
+  private migrateLegacySessions(): void {
+    for (const profile of Object.values(this.config.profiles || {})) {
+      const auth = profile.auth;
+      if (!auth || !SESSION_AUTH_KEYS.some((key) => auth[key] !== undefined)) {
+        continue;
+      }
+
+      const session: AuthConfig = {};
+      for (const key of SESSION_AUTH_KEYS) {
+        if (auth[key] !== undefined) {
+          Object.assign(session, { [key]: auth[key] });
+          delete auth[key];
+        }
+      }
+      if (Object.keys(auth).length === 0) {
+        delete profile.auth;
+      }
+      profile.accounts = { [DEFAULT_ACCOUNT]: session, ...profile.accounts };
+      profile.activeAccount = profile.activeAccount || DEFAULT_ACCOUNT;
+    }
+  }
+
+  // Configs written before profiles existed keep credentials at the top level;
+  // those become the default profile
+  private migrateLegacyAuth(): void {
+    for (const section of PROFILE_SECTIONS) {
+      if (this.config[section] === undefined) {
+        continue;
+      }
+
+      const profiles = (this.config.profiles = this.config.profiles || {});
+      const defaultProfile = (profiles[DEFAULT_PROFILE] = profiles[DEFAULT_PROFILE] || {});
+      if (defaultProfile[section] === undefined) {
+        defaultProfile[section] = this.config[section];
+      }
+      delete this.config[section];
+    }
   }
 
   save(): void {
+    this.ensureLoaded();
+    if (this.detached) {
+      return;
+    }
+
     try {
-      fs.writeFileSync(this.configPath, JSON.stringify(this.config, null, 2));
+      const configDir = path.dirname(this.getPath());
+      if (!fs.existsSync(configDir)) {
+        fs.mkdirSync(configDir, { recursive: true, mode: 0o700 });
+      }
+
+      // Credentials first, so a failure never leaves a config stripped of its secrets
+      const { config, credentials } = this.splitCredentials();
+      const serialized = serializeCredentials(credentials);
+      if (serialized !== this.storedCredentials) {
+        if (this.credentialsError) {
+          throw this.credentialsError;
+        }
+        new CredentialStore(this.getCredentialsPath()).save(credentials);
+        this.storedCredentials = serialized;
+      }
+
+      fs.writeFileSync(this.getPath(), JSON.stringify(config, null, 2), { mode: 0o600 });
+      fs.chmodSync(this.getPath(), 0o600);
+
+      if (this.projectDirty && this.project) {
+        this.projectService.save(this.getProjectPath()!, this.project);
+        this.projectDirty = false;
+      }
     } catch (error: any) {
+      if (error instanceof CliError) {
+        throw error;
+      }
       throw new Error(`Failed to save config: ${error.message}`);
     }
   }
 
+  /**
+   * Effective value for `key`. Layers are consulted in order of precedence:
+   * environment > project .gamebuild.json > profile > global config > defaults.
+   * Object values are merged across layers.
+   */
   get(key: string): any {
+    this.ensureLoaded();
     const keys = key.split('.');
-    let value = this.config;
-    
-    for (const k of keys) {
-      if (value && typeof value === 'object' && k in value) {
-        value = value[k];
-      } else {
-        return undefined;
+    const values = this.getLayers()
+      .map((layer) => lookup(layer.values, keys))
+      .filter((value) => value !== undefined);
+
+    if (values.length === 0) {
+      if (this.credentialsError && keys[0] === 'auth' && SECRET_AUTH_KEYS.some((secret) => secret === keys[1])) {
+        throw this.credentialsError;
       }
+      return undefined;
     }
-    
-    return value;
+
+    if (!isPlainObject(values[0])) {
+      return values[0];
+    }
+
+    return values
+      .filter(isPlainObject)
+      .reduceRight((merged, value) => deepMerge(merged, value), {});
   }
 
-  set(key: string, value: any): void {
-    const keys = key.split('.');
-    let current = this.config;
-    
-    for (let i = 0; i < keys.length - 1; i++) {
-      const k = keys[i];
-      if (!current[k] || typeof current[k] !== 'object') {
-        current[k] = {};
+  /**
+   * Every effective leaf value together with the layer it came from.
+   */
+  getEntries(includeDefaults = true): ConfigEntry[] {
+    this.ensureLoaded();
+    const entries = new Map<string, ConfigEntry>();
+    const layers = this.getLayers();
+
+    for (const layer of includeDefaults ? layers : layers.slice(0, -1)) {
+      for (const [key, value] of flatten(layer.values)) {
+        if (!entries.has(key)) {
+          entries.set(key, { key, value, origin: layer.origin(key) });
+        }
       }
-      current = current[k];
     }
-    
-    current[keys[keys.length - 1]] = value;
+
+    return [...entries.values()].sort((a, b) => a.key.localeCompare(b.key));
   }
 
-  delete(key: string): void {
-    const keys = key.split('.');
-    let current = this.config;
-    
+  /**
+   * Value stored in the project file only, ignoring every other layer.
+   */
+  getLocal(key: string): any {
+    const [root, keys] = this.resolveTarget(key, 'local', false);
+    return lookup(root, keys);
+  }
+
+  set(key: string, value: any, scope: ConfigScope = 'global'): void {
+    const [root, keys] = this.resolveTarget(key, scope, true);
+    setPath(root, keys, value);
+  }
+
+  delete(key: string, scope: ConfigScope = 'global'): void {
+    const [root, keys] = this.resolveTarget(key, scope, false);
+    let current: any = root;
+    if (scope === 'local') {
+      this.projectDirty = true;
+    }
+
     for (let i = 0; i < keys.length - 1; i++) {
       const k = keys[i];
-      if (!current[k] || typeof current[k] !== 'object') {
+      if (!current || !current[k] || typeof current[k] !== 'object') {
         return; // Key doesn't exist
       }
       current = current[k];
     }
-    
-    delete current[keys[keys.length - 1]];
+
+    if (current) {
+      delete current[keys[keys.length - 1]];
+    }
   }
 
+  /**
+   * Effective configuration for the active profile: global settings merged with
+   * the profile's own sections.
+   */
   getAll(): Config {
-    return { ...this.config };
+    this.ensureLoaded();
+    const global = { ...this.config };
+    delete global.profiles;
+    delete global.activeProfile;
+    return { ...global, ...this.getProfileValues() };
+  }
+
+  getActiveProfile(): string {
+    this.ensureLoaded();
+    if (this.detached) {
+      return this.config.activeProfile || DEFAULT_PROFILE;
+    }
+    return (
+      ConfigService.profileOverride ||
+      process.env.GAMEBUILD_PROFILE ||
+      this.config.activeProfile ||
+      DEFAULT_PROFILE
+    );
+  }
+
+  listProfiles(): string[] {
+    this.ensureLoaded();
+    const names = Object.keys(this.config.profiles || {});
+    return names.includes(DEFAULT_PROFILE) ? names : [DEFAULT_PROFILE, ...names];
+  }
+
+  hasProfile(name: string): boolean {
+    return this.listProfiles().includes(name);
+  }
+
+  getProfile(name: string): ProfileConfig | undefined {
+    this.ensureLoaded();
+    return this.config.profiles?.[name];
+  }
+
+  createProfile(name: string, profile: ProfileConfig = {}): void {
+    this.ensureLoaded();
+    if (this.config.profiles?.[name]) {
+      throw new CliError(`Profile "${name}" already exists`, ExitCode.Conflict);
+    }
+    this.config.profiles = { ...this.config.profiles, [name]: profile };
+  }
+
+  useProfile(name: string): void {
+    if (!this.hasProfile(name)) {
+      throw new CliError(`Profile "${name}" does not exist`, ExitCode.NotFound);
+    }
+    this.config.activeProfile = name;
+  }
+
+  deleteProfile(name: string): void {
+    if (!this.getProfile(name)) {
+      throw new CliError(`Profile "${name}" does not exist`, ExitCode.NotFound);
+    }
+    delete this.config.profiles![name];
+
+    if (this.config.activeProfile === name) {
+      delete this.config.activeProfile;
+    }
+  }
+
+  /**
+   * Account whose session auth.* keys resolve to: --account, then GAMEBUILD_ACCOUNT,
+   * then the profile's active account.
+   */
+  getActiveAccount(): string | undefined {
+    this.ensureLoaded();
+    return this.getForcedAccount() || this.config.profiles?.[this.getActiveProfile()]?.activeAccount;
+  }
+
+  listAccounts(): string[] {
+    this.ensureLoaded();
+    return Object.keys(this.config.profiles?.[this.getActiveProfile()]?.accounts || {});
+  }
+
+  getAccount(name: string): AuthConfig | undefined {
+    this.ensureLoaded();
+    return this.config.profiles?.[this.getActiveProfile()]?.accounts?.[name];
+  }
+
+  /**
+   * Start a new, empty session for `name` in the active profile and make it the active
+   * account. An existing session with that name is replaced.
+   */
+  addAccount(name: string): void {
+    const profile = this.getRoot('auth', true);
+    profile.accounts = { ...profile.accounts, [name]: {} };
+    profile.activeAccount = name;
+  }
+
+  useAccount(name: string): void {
+    if (!this.getAccount(name)) {
+      throw new CliError(`Account "${name}" does not exist`, ExitCode.NotFound);
+    }
+    this.getRoot('auth', true).activeAccount = name;
+  }
+
+  /**
+   * Remove a stored session. Removing the active account switches to the next one left.
+   */
+  removeAccount(name: string): void {
+    if (!this.getAccount(name)) {
+      throw new CliError(`Account "${name}" does not exist`, ExitCode.NotFound);
+    }
+
+    const profile = this.getRoot('auth', true);
+    delete profile.accounts[name];
+    if (profile.activeAccount === name) {
+      profile.activeAccount = Object.keys(profile.accounts)[0];
+    }
+    if (!profile.activeAccount) {
+      delete profile.activeAccount;
+      delete profile.accounts;
+    }
+  }
+
+  // The active profile's values, with the active account's session merged into auth
+  private getProfileValues(): ProfileConfig {
+    const { accounts, activeAccount, ...values } = this.config.profiles?.[this.getActiveProfile()] || {};
+    const account = this.getForcedAccount() || activeAccount;
+    const session = account ? accounts?.[account] : undefined;
+    if (session) {
+      values.auth = { ...values.auth, ...session };
+    }
+    return values;
+  }
+
+  private getForcedAccount(): string | undefined {
+    return this.detached ? undefined : ConfigService.getAccountOverride();
+  }
+
+  // Highest precedence first
+  private getLayers(): ConfigLayer[] {
+    const env = this.getEnvOverrides();
+    const profile = this.getActiveProfile();
+    const global = { ...this.config };
+    delete global.profiles;
+    delete global.activeProfile;
+    // project.* only comes from the project file so one repo's settings never leak into another
+    delete global.project;
+
+    const layers: ConfigLayer[] = [
+      { values: env.values, origin: (key) => `env: ${env.sources[key]}` }
+    ];
+
+    if (ConfigService.replayOverrides && !this.detached) {
+      layers.push({ values: ConfigService.replayOverrides, origin: () => 'replay' });
+    }
+
+    const project = this.getProject();
+    if (project) {
+      const { settings, ...manifest } = project;
+      layers.push({
+        values: { ...(isPlainObject(settings) ? settings : {}), project: manifest },
+        origin: () => `project: ${this.getProjectPath()}`
+      });
+    }
+
+    const account = this.getActiveAccount();
+    layers.push(
+      {
+        values: this.getProfileValues(),
+        origin: (key) => {
+          const [section, name] = key.split('.');
+          return section === 'auth' && SESSION_AUTH_KEYS.some((sessionKey) => sessionKey === name)
+            ? `profile: ${profile}, account: ${account}`
+            : `profile: ${profile}`;
+        }
+      },
+      { values: global, origin: () => (this.detached ? 'memory' : `global: ${this.getPath()}`) },
+      { values: DEFAULT_CONFIG, origin: () => 'default' }
+    );
+
+    return layers;
+  }
+
+  private getEnvOverrides(): { values: Config; sources: Record<string, string> } {
+    const values: Config = {};
+    const sources: Record<string, string> = {};
+    if (this.detached) {
+      return { values, sources };
+    }
+
+    for (const [name, raw] of Object.entries(process.env)) {
+      if (!name.startsWith(ENV_PREFIX) || raw === undefined || RESERVED_ENV.includes(name)) {
+        continue;
+      }
+
+      const key = ENV_ALIASES[name] || envNameToKey(name.slice(ENV_PREFIX.length));
+      // Aliases win over their spelled-out equivalents
+      if (sources[key] && ENV_ALIASES[sources[key]]) {
+        continue;
+      }
+
+      setPath(values, key.split('.'), parseConfigValue(raw, key));
+      sources[key] = name;
+    }
+
+    return { values, sources };
+  }
+
+  // Resolve the object a key is written to and the key path within it
+  private resolveTarget(key: string, scope: ConfigScope, create: boolean): [any, string[]] {
+    this.ensureLoaded();
+    const keys = key.split('.');
+
+    if (scope === 'global') {
+      if (keys[0] === 'project') {
+        throw new CliError(`"${key}" is a per-project setting. Use --local to store it in ${PROJECT_FILE}`, ExitCode.Validation);
+      }
+      if (keys[0] === 'auth' && SESSION_AUTH_KEYS.some((sessionKey) => sessionKey === keys[1])) {
+        return [this.getSessionRoot(create), keys.slice(1)];
+      }
+      return [this.getRoot(keys[0], create), keys];
+    }
+
+    if (NON_LOCAL_SECTIONS.includes(keys[0])) {
+      throw new CliError(
+        `"${key}" cannot be stored in ${PROJECT_FILE}; project files are usually committed`,
+        ExitCode.Validation
+      );
+    }
+
+    const project: Record<string, any> | undefined = this.getProject();
+    if (!project) {
+      throw this.projectError || new Error(`No ${PROJECT_FILE} found. Run "gamebuild game init" first.`);
+    }
+    if (create) {
+      this.projectDirty = true;
+    }
+
+    // project.* keys are the manifest's own fields, anything else goes under "settings"
+    if (keys[0] === 'project') {
+      return [project, keys.slice(1)];
+    }
+    if (create && !isPlainObject(project.settings)) {
+      project.settings = {};
+    }
+    return [project.settings, keys];
+  }
+
+  // Profile-scoped sections live under profiles.<active>, everything else at the top level
+  private getRoot(section: string, create: boolean): any {
+    if (!PROFILE_SECTIONS.includes(section)) {
+      return this.config;
+    }
+
+    const name = this.getActiveProfile();
+    if (create) {
+      this.config.profiles = this.config.profiles || {};
+      this.config.profiles[name] = this.config.profiles[name] || {};
+    }
+    return this.config.profiles?.[name];
+  }
+
+  // Session keys are written to the active account, created on first write
+  private getSessionRoot(create: boolean): AuthConfig | undefined {
+    const account = this.getActiveAccount() || DEFAULT_ACCOUNT;
+    const profile = this.getRoot('auth', create);
+    if (create) {
+      profile.accounts = profile.accounts || {};
+      profile.accounts[account] = profile.accounts[account] || {};
+      profile.activeAccount = profile.activeAccount || account;
+    }
+    return profile?.accounts?.[account];
+  }
+
+  /**
+   * Why the credential store could not be read, if it could not.
+   */
+  getCredentialsError(): CliError | undefined {
+    this.ensureLoaded();
+    return this.credentialsError;
+  }
+
+  /**
+   * Let the next save overwrite a credential store that could not be read. The sessions
+   * in it are lost.
+   */
+  replaceCredentials(): void {
+    this.ensureLoaded();
+    this.credentialsError = undefined;
+    this.storedCredentials = undefined;
   }
 
   clear(): void {
+    this.loaded = true;
+    this.config = {};
+  }
+
+  /**
+   * Drop everything read so far, so the next access reads the files again.
+   */
+  reload(): void {
+    if (this.detached) {
+      return;
+    }
+    this.loaded = false;
     this.config = {};
+    this.projectPath = undefined;
+    this.project = undefined;
+    this.projectError = undefined;
+    this.projectDirty = false;
+    this.storedCredentials = undefined;
+    this.credentialsError = undefined;
+  }
+}
+
+// Stable form used to tell whether the credentials changed since they were loaded
+function serializeCredentials(credentials: Credentials): string {
+  return JSON.stringify(
+    Object.keys(credentials)
+      .sort()
+      .map((profile) => [
+        profile,
+        Object.keys(credentials[profile])
+          .sort()
+          .map((account) => [account, SECRET_AUTH_KEYS.map((key) => credentials[profile][account][key])])
+      ])
+  );
+}
+
+// GAMEBUILD_HTTP__MAX_RETRY_DELAY -> http.maxRetryDelay
+function envNameToKey(name: string): string {
+  return name
+    .split('__')
+    .map((segment) =>
+      segment.toLowerCase().replace(/_([a-z0-9])/g, (_match, char: string) => char.toUpperCase())
+    )
+    .join('.');
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function lookup(obj: any, keys: string[]): any {
+  let value = obj;
+  for (const k of keys) {
+    if (value && typeof value === 'object' && k in value) {
+      value = value[k];
+    } else {
+      return undefined;
+    }
+  }
+  return value;
+}
+
+function setPath(obj: any, keys: string[], value: any): void {
+  let current = obj;
+  for (let i = 0; i < keys.length - 1; i++) {
+    if (!isPlainObject(current[keys[i]])) {
+      current[keys[i]] = {};
+    }
+    current = current[keys[i]];
+  }
+  current[keys[keys.length - 1]] = value;
+}
+
+function deepMerge(base: Record<string, any>, override: Record<string, any>): Record<string, any> {
+  const result = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    result[key] = isPlainObject(value) && isPlainObject(result[key]) ? deepMerge(result[key], value) : value;
+  }
+  return result;
+}
+
+function flatten(obj: Record<string, any>, prefix = ''): Array<[string, any]> {
+  const entries: Array<[string, any]> = [];
+  for (const [key, value] of Object.entries(obj)) {
+    const fullKey = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value) && Object.keys(value).length > 0) {
+      entries.push(...flatten(value, fullKey));
+    } else {
+      entries.push([fullKey, value]);
+    }
   }
+  return entries;
 }
@@ -0,0 +1,135 @@
+import { AxiosInstance } from 'axios';
+import { AdService } from './ad';
+import { AnalyticsService } from './analytics';
+import { ApiService } from './api';
+import { AssetService } from './asset';
+import { AuthService } from './auth';
+import { ResponseCache } from './cache';
+import { BuildService } from './build';
+import { ConfigService } from './config';
+import { DeployService } from './deploy';
+import { GameService } from './game';
+import { GuildService } from './guild';
+import { IdManagementService } from './id-management';
+import { OAuthService } from './oauth';
+import { ProjectService } from './project';
+import { NamePicker, NameResolver } from './resolver';
+import { WalletAuthService } from './wallet-auth';
+import { Logger } from '../utils/logger';
+
+export interface Services {
+  auth: AuthService;
+  oauth: OAuthService;
+  walletAuth: WalletAuthService;
+  games: GameService;
+  builds: BuildService;
+  deployments: DeployService;
+  assets: AssetService;
+  analytics: AnalyticsService;
+  ads: AdService;
+  guilds: GuildService;
+  identities: IdManagementService;
+  projects: ProjectService;
+  api: ApiService;
+  resolver: NameResolver;
+  cache: ResponseCache;
+}
+
+export interface ContextOptions {
+  config?: ConfigService;
+  logger?: Logger;
+  // Used instead of the services the context would create, e.g. fakes in tests
+  services?: Partial<Services>;
+  // Asks which game, guild or asset an ambiguous name meant; without one, such names fail
+  pickName?: NamePicker;
+}
+
+/**
+ * Everything one invocation shares: a single config, logger and authenticated HTTP
+ * client, and the services built on them. Services are created on first use.
+ */
+export class Context {
+  readonly config: ConfigService;
+  readonly logger: Logger;
+  private services: Partial<Services>;
+  private pickName?: NamePicker;
+
+  constructor(options: ContextOptions = {}) {
+    this.config = options.config || new ConfigService();
+    this.logger = options.logger || new Logger();
+    this.services = { ...options.services };
+    this.pickName = options.pickName;
+  }
+
+  // The client every API service sends its requests through
+  get http(): AxiosInstance {
+    return this.auth.getAuthenticatedClient();
+  }
+
+  get auth(): AuthService {
+    return this.resolve('auth', () => new AuthService(this.config, this.logger, this.oauth));
+  }
+
+  get oauth(): OAuthService {
+    return this.resolve('oauth', () => new OAuthService(this.config, this.logger));
+  }
+
+  get walletAuth(): WalletAuthService {
+    return this.resolve('walletAuth', () => new WalletAuthService(this.config, this.logger));
+  }
+
+  get games(): GameService {
+    return this.resolve('games', () => new GameService(this.auth, this.config));
+  }
+
+  get builds(): BuildService {
+    return this.resolve('builds', () => new BuildService(this.auth));
+  }
+
+  get deployments(): DeployService {
+    return this.resolve('deployments', () => new DeployService(this.auth));
+  }
+
+  get assets(): AssetService {
+    return this.resolve('assets', () => new AssetService(this.auth));
+  }
+
+  get analytics(): AnalyticsService {
+    return this.resolve('analytics', () => new AnalyticsService(this.auth));
+  }
+
+  get ads(): AdService {
+    return this.resolve('ads', () => new AdService(this.auth));
+  }
+
+  get guilds(): GuildService {
+    return this.resolve('guilds', () => new GuildService(this.auth));
+  }
+
+  get identities(): IdManagementService {
+    return this.resolve('identities', () => new IdManagementService(this.auth));
+  }
+
+  get projects(): ProjectService {
+    return this.resolve('projects', () => new ProjectService());
+  }
+
+  get api(): ApiService {
+    return this.resolve('api', () => new ApiService(this.auth));
+  }
+
+  get resolver(): NameResolver {
+    return this.resolve('resolver', () => new NameResolver(this.config, this.games, this.guilds, this.assets, this.pickName));
+  }
+
+  get cache(): ResponseCache {
+    return this.resolve('cache', () => new ResponseCache(this.config, this.logger));
+  }
+
+  private resolve<K extends keyof Services>(name: K, create: () => Services[K]): Services[K] {
+    if (!this.services[name]) {
+      this.services[name] = create();
+    }
+    return this.services[name]!;
+  }
+}
@@ -0,0 +1,179 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CliError, ExitCode } from '../utils/errors';
+
+export const CREDENTIALS_FILE = 'credentials.enc';
+
+// Random key the store is encrypted with, next to it and readable only by its owner
+export const KEY_FILE = 'credentials.key';
+
+// When set, credentials are encrypted with this passphrase instead of the key file
+export const PASSPHRASE_ENV = 'GAMEBUILD_PASSPHRASE';
+
+const FORMAT_VERSION = 1;
+const CIPHER = 'aes-256-gcm';
+
+export type KeySource = 'passphrase' | 'file';
+
+export interface AccountCredentials {
+  token?: string;
+  refreshToken?: string;
+}
+
+// Keyed by profile name, then account name
+export type Credentials = Record<string, Record<string, AccountCredentials>>;
+
+/**
+ * The store is corrupted or its key file is gone, so it can never be decrypted again.
+ * Logging in or resetting the configuration replaces it.
+ */
+export class UnreadableCredentialsError extends CliError {
+  constructor(message: string, filePath: string) {
+    super(
+      message,
+      ExitCode.Unauthenticated,
+      `Run "gamebuild auth login" or "gamebuild config reset" to replace ${filePath}.`
+    );
+  }
+}
+
+interface EncryptedFile {
+  version: number;
+  keySource: KeySource;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * Credentials encrypted at rest with AES-256-GCM, kept apart from config.json so the
+ * config can be shared or edited without exposing tokens.
+ */
+export class CredentialStore {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  getPath(): string {
+    return this.filePath;
+  }
+
+  load(): Credentials {
+    if (!fs.existsSync(this.filePath)) {
+      return {};
+    }
+
+    let file: EncryptedFile;
+    try {
+      file = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+    } catch {
+      throw this.unreadable('The credential store is corrupted');
+    }
+    if (file.version !== FORMAT_VERSION) {
+      throw this.unreadable(`Unsupported credential store version: ${file.version}`);
+    }
+
+    const key = this.deriveKey(file.keySource, Buffer.from(file.salt, 'base64'), false);
+    let credentials: Credentials;
+    try {
+      const decipher = crypto.createDecipheriv(CIPHER, key, Buffer.from(file.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+      const data = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]);
+      credentials = JSON.parse(data.toString('utf8'));
+    } catch {
+      throw file.keySource === 'passphrase'
+        ? new CliError('Could not decrypt the credential store', ExitCode.Unauthenticated, `Check the value of ${PASSPHRASE_ENV}.`)
+        : this.unreadable(`Could not decrypt the credential store with ${this.getKeyPath()}`);
+    }
+    return credentials;
+  }
+
+  /**
+   * Encrypt and write `credentials`, readable only by the current user. An empty set
+   * removes the file.
+   */
+  save(credentials: Credentials): void {
+    if (Object.keys(credentials).length === 0) {
+      fs.rmSync(this.filePath, { force: true });
+      return;
+    }
+
+    const keySource: KeySource = process.env[PASSPHRASE_ENV] ? 'passphrase' : 'file';
+    const salt = crypto.randomBytes(16);
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(CIPHER, this.deriveKey(keySource, salt, true), iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(credentials), 'utf8'), cipher.final()]);
+
+    const file: EncryptedFile = {
+      version: FORMAT_VERSION,
+      keySource,
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64')
+    };
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true, mode: 0o700 });
+    // Write a temporary file and rename it so an interrupted save never leaves a truncated store
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(file, null, 2), { mode: 0o600 });
+    fs.chmodSync(tempPath, 0o600);
+    fs.renameSync(tempPath, this.filePath);
+  }
+
+  private getKeyPath(): string {
+    return path.join(path.dirname(this.filePath), KEY_FILE);
+  }
+
+  private deriveKey(keySource: KeySource, salt: Buffer, create: boolean): Buffer {
+    if (keySource === 'file') {
+      return crypto.scryptSync(this.readKeyFile(create), salt, 32);
+    }
+
+    const passphrase = process.env[PASSPHRASE_ENV];
+    if (!passphrase) {
+      throw new CliError(
+        'The credential store is encrypted with a passphrase',
+        ExitCode.Unauthenticated,
+        `Set ${PASSPHRASE_ENV} to unlock it.`
+      );
+    }
+    return crypto.scryptSync(passphrase, salt, 32);
+  }
+
+  // Created on first use. Copying the directory with both files copies access, like an
+  // SSH key; it keeps tokens out of config.json and away from other users.
+  private readKeyFile(create: boolean): Buffer {
+    const keyPath = this.getKeyPath();
+    if (!fs.existsSync(keyPath)) {
+      if (!create) {
+        throw this.unreadable(`The credential store key ${keyPath} is missing`);
+      }
+      fs.mkdirSync(path.dirname(keyPath), { recursive: true, mode: 0o700 });
+      try {
+        fs.writeFileSync(keyPath, crypto.randomBytes(32).toString('base64'), { mode: 0o600, flag: 'wx' });
+      } catch (error: any) {
+        // Another process created it first
+        if (error.code !== 'EEXIST') {
+          throw error;
+        }
+      }
+    }
+    return Buffer.from(fs.readFileSync(keyPath, 'utf8').trim(), 'base64');
+  }
+
+  private unreadable(message: string): UnreadableCredentialsError {
+    return new UnreadableCredentialsError(message, this.filePath);
+  }
+}
+
+/**
+ * Mask a secret for display, keeping a few characters so tokens can be told apart.
+ */
+export function maskSecret(value: string): string {
+  return value.length > 8 ? `${value.substring(0, 4)}...${value.substring(value.length - 4)}` : '***';
+}
@@ -1,4 +1,6 @@
 import { AuthService } from './auth';
+import { toApiError } from '../utils/errors';
+import { Page, PageOptions, pageOf, paginate } from '../utils/pagination';
 
 export interface Deployment {
   id: string;
@@ -26,7 +28,11 @@ export interface PlatformOption {
 }
 
 export class DeployService {
-  private authService = new AuthService();
+  private authService: AuthService;
+
+  constructor(authService: AuthService = new AuthService()) {
+    this.authService = authService;
+  }
 
   async startDeployment(options: DeploymentOptions): Promise<Deployment> {
     const client = this.authService.getAuthenticatedClient();
@@ -39,8 +45,8 @@ export class DeployService {
       });
       
       return response.data;
-    } catch (error: any) {
-      throw new Error(`Failed to start deployment: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to start deployment');
     }
   }
 
@@ -50,8 +56,8 @@ export class DeployService {
     try {
       const response = await client.get(`/v1/deployments/${deploymentId}`);
       return response.data;
-    } catch (error: any) {
-      throw new Error(`Failed to get deployment: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to get deployment');
     }
   }
 
@@ -61,16 +67,25 @@ export class DeployService {
   }
 
   async listDeployments(gameId: string, limit: number = 10): Promise<Deployment[]> {
-    const client = this.authService.getAuthenticatedClient();
-    
-    try {
-      const response = await client.get(`/v1/games/${gameId}/deployments`, {
-        params: { limit }
-      });
-      return response.data.deployments || [];
-    } catch (error: any) {
-      throw new Error(`Failed to list deployments: ${error.response?.data?.message || error.message}`);
-    }
+    const { value } = await this.listDeploymentPages(gameId, { pageSize: limit }).next();
+    return value ? value.items : [];
+  }
+
+  /**
+   * Deployments of `gameId`, newest first, a page at a time.
+   */
+  listDeploymentPages(gameId: string, options: PageOptions = {}): AsyncGenerator<Page<Deployment>> {
+    return paginate(async (cursor) => {
+      const client = this.authService.getAuthenticatedClient();
+      try {
+        const response = await client.get(`/v1/games/${gameId}/deployments`, {
+          params: { limit: options.pageSize, cursor }
+        });
+        return pageOf<Deployment>(response.data, 'deployments');
+      } catch (error) {
+        throw toApiError(error, 'Failed to list deployments');
+      }
+    }, options.cursor);
   }
 
   async rollbackDeployment(deploymentId: string): Promise<Deployment> {
@@ -79,8 +94,8 @@ export class DeployService {
     try {
       const response = await client.post(`/v1/deployments/${deploymentId}/rollback`);
       return response.data;
-    } catch (error: any) {
-      throw new Error(`Failed to rollback deployment: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to rollback deployment');
     }
   }
 
@@ -90,43 +105,33 @@ export class DeployService {
     try {
       const response = await client.get(`/v1/deployments/${deploymentId}/logs`);
       return response.data.logs || '';
-    } catch (error: any) {
-      throw new Error(`Failed to get logs: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to get logs');
     }
   }
 
-  async followLogs(deploymentId: string): Promise<void> {
-    console.log('Following logs... Press Ctrl+C to stop');
-    
+  /**
+   * Poll the logs of a running deployment, passing new output to `onLogs` as it
+   * arrives. Resolves with the final status once the deployment is no longer running.
+   */
+  async followLogs(deploymentId: string, onLogs: (logs: string) => void): Promise<string> {
     let lastLogLength = 0;
     
-    const pollLogs = async () => {
-      try {
-        const logs = await this.getLogs(deploymentId);
-        const newLogs = logs.slice(lastLogLength);
-        
-        if (newLogs) {
-          process.stdout.write(newLogs);
-          lastLogLength = logs.length;
-        }
-        
-        const deployment = await this.getDeployment(deploymentId);
-        if (deployment.status === 'deploying') {
-          setTimeout(pollLogs, 3000); // Poll every 3 seconds
-        } else {
-          console.log(`\nDeployment finished with status: ${deployment.status}`);
-        }
-      } catch (error: any) {
-        console.log(`Error following logs: ${error.message}`);
+    for (;;) {
+      const logs = await this.getLogs(deploymentId);
+      const newLogs = logs.slice(lastLogLength);
+      
+      if (newLogs) {
+        onLogs(newLogs);
+        lastLogLength = logs.length;
       }
-    };
-
-    pollLogs();
-    
-    process.on('SIGINT', () => {
-      console.log('\n👋 Stopped following logs.');
-      process.exit(0);
-    });
+      
+      const deployment = await this.getDeployment(deploymentId);
+      if (deployment.status !== 'deploying') {
+        return deployment.status;
+      }
+      await sleep(3000); // Poll every 3 seconds
+    }
   }
 
   async getLatestSuccessfulBuild(gameId: string): Promise<any> {
@@ -141,8 +146,8 @@ export class DeployService {
       });
       const builds = response.data.builds || [];
       return builds.length > 0 ? builds[0] : null;
-    } catch (error: any) {
-      throw new Error(`Failed to get latest build: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to get latest build');
     }
   }
 
@@ -179,3 +184,7 @@ export class DeployService {
     ];
   }
 }
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
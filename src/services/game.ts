@@ -1,7 +1,10 @@
 import { AuthService } from './auth';
 import { ConfigService } from './config';
+import { PROJECT_FILE, PROJECT_MANIFEST_VERSION, ProjectManifest, ProjectService } from './project';
 import * as fs from 'fs';
 import * as path from 'path';
+import { CliError, ExitCode, toApiError } from '../utils/errors';
+import { Page, PageOptions, allItems, pageOf, paginate } from '../utils/pagination';
 
 export interface Game {
   id: string;
@@ -21,8 +24,14 @@ export interface CreateGameOptions {
 }
 
 export class GameService {
-  private authService = new AuthService();
-  private configService = new ConfigService();
+  private authService: AuthService;
+  private configService: ConfigService;
+  private projectService = new ProjectService();
+
+  constructor(authService: AuthService = new AuthService(), configService: ConfigService = new ConfigService()) {
+    this.authService = authService;
+    this.configService = configService;
+  }
 
   async createGame(options: CreateGameOptions): Promise<Game> {
     const client = this.authService.getAuthenticatedClient();
@@ -35,20 +44,27 @@ export class GameService {
       });
       
       return response.data;
-    } catch (error: any) {
-      throw new Error(`Failed to create game: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to create game');
     }
   }
 
   async listGames(): Promise<Game[]> {
-    const client = this.authService.getAuthenticatedClient();
-    
-    try {
-      const response = await client.get('/v1/games');
-      return response.data.games || [];
-    } catch (error: any) {
-      throw new Error(`Failed to list games: ${error.response?.data?.message || error.message}`);
-    }
+    return allItems(this.listGamePages());
+  }
+
+  listGamePages(options: PageOptions = {}): AsyncGenerator<Page<Game>> {
+    return paginate(async (cursor) => {
+      const client = this.authService.getAuthenticatedClient();
+      try {
+        const response = await client.get('/v1/games', {
+          params: { limit: options.pageSize, cursor }
+        });
+        return pageOf<Game>(response.data, 'games');
+      } catch (error) {
+        throw toApiError(error, 'Failed to list games');
+      }
+    }, options.cursor);
   }
 
   async getGame(gameId: string): Promise<Game> {
@@ -57,8 +73,8 @@ export class GameService {
     try {
       const response = await client.get(`/v1/games/${gameId}`);
       return response.data;
-    } catch (error: any) {
-      throw new Error(`Failed to get game: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to get game');
     }
   }
 
@@ -67,28 +83,24 @@ export class GameService {
     
     try {
       await client.delete(`/v1/games/${gameId}`);
-    } catch (error: any) {
-      throw new Error(`Failed to delete game: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to delete game');
     }
   }
 
   async initProject(gameId: string): Promise<void> {
     // Create local project configuration
-    const projectConfig = {
+    const projectConfig: ProjectManifest = {
+      version: PROJECT_MANIFEST_VERSION,
       gameId,
       createdAt: new Date().toISOString(),
       buildPath: './dist',
       platform: 'web' // Will be updated from server
     };
 
-    // Save to local project config
-    const configPath = path.join(process.cwd(), '.gamebuild.json');
-    fs.writeFileSync(configPath, JSON.stringify(projectConfig, null, 2));
-
-    // Update global config
-    this.configService.set('project.gameId', gameId);
-    this.configService.set('project.name', gameId);
-    this.configService.save();
+    // Save to local project config. The game ID is deliberately not written to the
+    // global config, so that it does not leak into other projects.
+    this.projectService.save(path.join(process.cwd(), PROJECT_FILE), projectConfig);
 
     // Create basic project structure if it doesn't exist
     const directories = ['src', 'assets', 'dist'];
@@ -186,18 +198,26 @@ Thumbs.db
     }
   }
 
-  getLocalProject(): any {
-    const configPath = path.join(process.cwd(), '.gamebuild.json');
-    
-    if (fs.existsSync(configPath)) {
-      try {
-        const content = fs.readFileSync(configPath, 'utf8');
-        return JSON.parse(content);
-      } catch (error) {
-        return null;
-      }
+  /**
+   * The current project: the nearest .gamebuild.json (searching parent directories)
+   * with any environment overrides such as GAMEBUILD_GAME_ID applied.
+   * Throws ProjectManifestError if the project file is invalid.
+   */
+  getLocalProject(): ProjectManifest | null {
+    const error = this.configService.getProjectError();
+    if (error) {
+      throw error;
     }
-    
-    return null;
+
+    const project = this.configService.get('project');
+    return project && project.gameId ? project : null;
+  }
+
+  requireLocalProject(): ProjectManifest {
+    const project = this.getLocalProject();
+    if (!project) {
+      throw new CliError('No GameBuild project found', ExitCode.NotFound, 'Run "gamebuild game init" first.');
+    }
+    return project;
   }
 }
@@ -1,4 +1,6 @@
 import { AuthService } from './auth';
+import { toApiError } from '../utils/errors';
+import { Page, PageOptions, allItems, pageOf, paginate } from '../utils/pagination';
 
 export interface Guild {
   id: string;
@@ -13,26 +15,38 @@ export interface CreateGuildOptions {
 }
 
 export class GuildService {
-  private authService = new AuthService();
+  private authService: AuthService;
+
+  constructor(authService: AuthService = new AuthService()) {
+    this.authService = authService;
+  }
 
   async createGuild(options: CreateGuildOptions): Promise<Guild> {
     const client = this.authService.getAuthenticatedClient();
     try {
       const response = await client.post('/v1/guilds', options);
       return response.data;
-    } catch (error: any) {
-      throw new Error(`Failed to create guild: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to create guild');
     }
   }
 
   async listGuilds(): Promise<Guild[]> {
-    const client = this.authService.getAuthenticatedClient();
-    try {
-      const response = await client.get('/v1/guilds');
-      return response.data.guilds || [];
-    } catch (error: any) {
-      throw new Error(`Failed to list guilds: ${error.response?.data?.message || error.message}`);
-    }
+    return allItems(this.listGuildPages());
+  }
+
+  listGuildPages(options: PageOptions = {}): AsyncGenerator<Page<Guild>> {
+    return paginate(async (cursor) => {
+      const client = this.authService.getAuthenticatedClient();
+      try {
+        const response = await client.get('/v1/guilds', {
+          params: { limit: options.pageSize, cursor }
+        });
+        return pageOf<Guild>(response.data, 'guilds');
+      } catch (error) {
+        throw toApiError(error, 'Failed to list guilds');
+      }
+    }, options.cursor);
   }
 
   async getGuild(guildId: string): Promise<Guild> {
@@ -40,8 +54,8 @@ export class GuildService {
     try {
       const response = await client.get(`/v1/guilds/${guildId}`);
       return response.data;
-    } catch (error: any) {
-      throw new Error(`Failed to get guild: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to get guild');
     }
   }
 
@@ -49,8 +63,8 @@ export class GuildService {
     const client = this.authService.getAuthenticatedClient();
     try {
       await client.post(`/v1/guilds/${guildId}/join`);
-    } catch (error: any) {
-      throw new Error(`Failed to join guild: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to join guild');
     }
   }
 
@@ -58,8 +72,8 @@ export class GuildService {
     const client = this.authService.getAuthenticatedClient();
     try {
       await client.post(`/v1/guilds/${guildId}/leave`);
-    } catch (error: any) {
-      throw new Error(`Failed to leave guild: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to leave guild');
     }
   }
 }
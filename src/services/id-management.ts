@@ -1,5 +1,7 @@
 import { AuthService } from './auth';
 import { ethers } from 'ethers';
+import { toApiError } from '../utils/errors';
+import { Page, PageOptions, allItems, pageOf, paginate } from '../utils/pagination';
 
 export interface Identity {
   id: string;
@@ -55,7 +57,11 @@ export interface VerificationResult {
 }
 
 export class IdManagementService {
-  private authService = new AuthService();
+  private authService: AuthService;
+
+  constructor(authService: AuthService = new AuthService()) {
+    this.authService = authService;
+  }
 
   async createIdentity(options: CreateIdentityOptions): Promise<Identity> {
     const client = this.authService.getAuthenticatedClient();
@@ -87,8 +93,8 @@ export class IdManagementService {
         ...response.data,
         privateKey: walletData.privateKey
       };
-    } catch (error: any) {
-      throw new Error(`Failed to create identity: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to create identity');
     }
   }
 
@@ -100,8 +106,8 @@ export class IdManagementService {
         walletAddress,
         network
       });
-    } catch (error: any) {
-      throw new Error(`Failed to link wallet: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to link wallet');
     }
   }
 
@@ -114,8 +120,8 @@ export class IdManagementService {
       });
       
       return response.data;
-    } catch (error: any) {
-      throw new Error(`Failed to verify identity: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to verify identity');
     }
   }
 
@@ -126,8 +132,8 @@ export class IdManagementService {
       const endpoint = identityId ? `/v1/identities/${identityId}` : '/v1/identities/me';
       const response = await client.get(endpoint);
       return response.data;
-    } catch (error: any) {
-      throw new Error(`Failed to get profile: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to get profile');
     }
   }
 
@@ -137,22 +143,27 @@ export class IdManagementService {
     try {
       const endpoint = identityId ? `/v1/identities/${identityId}` : '/v1/identities/me';
       await client.patch(endpoint, updates);
-    } catch (error: any) {
-      throw new Error(`Failed to update profile: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to update profile');
     }
   }
 
   async listIdentities(type?: string): Promise<Identity[]> {
-    const client = this.authService.getAuthenticatedClient();
-    
-    try {
-      const response = await client.get('/v1/identities', {
-        params: type ? { type } : {}
-      });
-      return response.data.identities || [];
-    } catch (error: any) {
-      throw new Error(`Failed to list identities: ${error.response?.data?.message || error.message}`);
-    }
+    return allItems(this.listIdentityPages(type));
+  }
+
+  listIdentityPages(type?: string, options: PageOptions = {}): AsyncGenerator<Page<Identity>> {
+    return paginate(async (cursor) => {
+      const client = this.authService.getAuthenticatedClient();
+      try {
+        const response = await client.get('/v1/identities', {
+          params: { type, limit: options.pageSize, cursor }
+        });
+        return pageOf<Identity>(response.data, 'identities');
+      } catch (error) {
+        throw toApiError(error, 'Failed to list identities');
+      }
+    }, options.cursor);
   }
 
   async getReputation(identityId: string): Promise<Reputation> {
@@ -161,8 +172,8 @@ export class IdManagementService {
     try {
       const response = await client.get(`/v1/identities/${identityId}/reputation`);
       return response.data;
-    } catch (error: any) {
-      throw new Error(`Failed to get reputation: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to get reputation');
     }
   }
 
@@ -173,8 +184,8 @@ export class IdManagementService {
       await client.post(`/v1/identities/${identityId}/permissions`, {
         permission
       });
-    } catch (error: any) {
-      throw new Error(`Failed to add permission: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to add permission');
     }
   }
 
@@ -183,8 +194,8 @@ export class IdManagementService {
     
     try {
       await client.delete(`/v1/identities/${identityId}/permissions/${permission}`);
-    } catch (error: any) {
-      throw new Error(`Failed to remove permission: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to remove permission');
     }
   }
 
@@ -194,8 +205,8 @@ export class IdManagementService {
     try {
       const response = await client.get(`/v1/identities/${identityId}/permissions`);
       return response.data.permissions || [];
-    } catch (error: any) {
-      throw new Error(`Failed to get permissions: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      throw toApiError(error, 'Failed to get permissions');
     }
   }
 
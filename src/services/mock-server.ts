@@ -0,0 +1,1349 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+import { ApiToken, UserInfo } from './auth';
+import { Build } from './build';
+import { Deployment } from './deploy';
+import { Game } from './game';
+import { Guild } from './guild';
+import { Asset, Erc20Token, Erc721Collection, Erc721Nft } from './asset';
+import { Identity } from './id-management';
+import { AdPlacement, Campaign } from './ad';
+import { CliError, ExitCode } from '../utils/errors';
+
+export const DEFAULT_MOCK_PORT = 4000;
+
+// How long a mock build or deployment runs before it completes
+const BUILD_DURATION = 5000;
+const DEPLOY_DURATION = 5000;
+
+// Lifetime of access tokens issued by the OAuth and SIWE logins, in seconds
+const SESSION_LIFETIME = 3600;
+
+const BUILD_STEPS = [
+  'Fetching project files',
+  'Installing dependencies',
+  'Compiling sources',
+  'Optimizing assets',
+  'Packaging build'
+];
+
+const DEPLOY_STEPS = ['Uploading build', 'Provisioning environment', 'Updating routes', 'Warming caches'];
+
+const MOCK_USER: UserInfo = {
+  id: 'user_1',
+  username: 'mock-developer',
+  email: 'developer@example.com',
+  plan: {
+    name: 'Pro',
+    limits: { concurrentBuilds: 5, buildMinutesPerMonth: 10000, deployTargets: null }
+  }
+};
+
+interface StoredIdentity extends Identity {
+  permissions: string[];
+}
+
+interface StoredToken extends ApiToken {
+  token: string;
+}
+
+// An access token from an OAuth or SIWE login, with the refresh token that replaces it
+interface StoredSession {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: string;
+}
+
+interface AuthorizationCode {
+  redirectUri: string;
+  codeChallenge: string;
+}
+
+interface TrackedEvent {
+  event: string;
+  properties?: Record<string, any>;
+  timestamp: string;
+}
+
+/**
+ * Everything the mock API knows. Written as-is to the data file.
+ */
+export interface MockState {
+  nextId: number;
+  games: Game[];
+  builds: Build[];
+  deployments: Deployment[];
+  assets: Asset[];
+  erc20Tokens: Erc20Token[];
+  erc721Collections: Erc721Collection[];
+  erc721Tokens: Erc721Nft[];
+  guilds: Guild[];
+  identities: StoredIdentity[];
+  campaigns: Campaign[];
+  placements: AdPlacement[];
+  dashboards: any[];
+  events: TrackedEvent[];
+  tokens: StoredToken[];
+  sessions: StoredSession[];
+}
+
+export interface MockServerOptions {
+  port?: number;
+  host?: string;
+  // Keep state in this JSON file instead of in memory only
+  dataFile?: string;
+  // Only accept this bearer token; any token is accepted when unset
+  token?: string;
+  // Called after every request, e.g. to log it
+  onRequest?: (request: MockRequestLog) => void;
+}
+
+export interface MockRequestLog {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  // Parsed JSON request body, if any
+  body?: any;
+  status: number;
+  duration: number;
+}
+
+/**
+ * A response sent in place of a route's, e.g. to simulate rate limiting or an outage.
+ */
+export interface MockResponse {
+  status: number;
+  headers?: Record<string, string>;
+  body?: any;
+}
+
+interface CannedResponse {
+  method: string;
+  path: string;
+  response: MockResponse;
+  remaining: number;
+}
+
+interface MockRequest {
+  method: string;
+  path: string;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: any;
+  token: string;
+}
+
+type RouteHandler = (request: MockRequest) => any;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  status: number;
+  handler: RouteHandler;
+  // Served without a bearer token, e.g. the login endpoints
+  public: boolean;
+}
+
+class MockHttpError extends Error {
+  readonly status: number;
+  readonly body: Record<string, any>;
+
+  constructor(status: number, message: string, extra: Record<string, any> = {}) {
+    super(message);
+    this.status = status;
+    this.body = { message, ...extra };
+  }
+}
+
+class MockRedirect {
+  constructor(readonly location: string) {}
+}
+
+/**
+ * An in-process stand-in for the GameBuild API, implementing the routes the services
+ * call with plausible responses. Builds and deployments complete a few seconds after
+ * they start, so status and log following behave as they do against the real API.
+ */
+export class MockServer {
+  private options: MockServerOptions;
+  private state: MockState;
+  private routes: Route[] = [];
+  private canned: CannedResponse[] = [];
+  // Login state that only lives as long as the process
+  private deviceCodes = new Set<string>();
+  private authorizationCodes = new Map<string, AuthorizationCode>();
+  private nonces = new Map<string, string>();
+  private server?: http.Server;
+
+  constructor(options: MockServerOptions = {}) {
+    this.options = options;
+    this.state = this.loadState();
+    this.registerRoutes();
+  }
+
+  /**
+   * Start listening. Resolves with the base URL to point auth.baseUrl at.
+   */
+  start(): Promise<string> {
+    const server = http.createServer((req, res) => this.handle(req, res));
+    this.server = server;
+
+    return new Promise((resolve, reject) => {
+      const port = this.options.port ?? DEFAULT_MOCK_PORT;
+      server.once('error', (error: NodeJS.ErrnoException) => {
+        reject(
+          error.code === 'EADDRINUSE'
+            ? new CliError(`Port ${port} is already in use`, ExitCode.Conflict, 'Pick another port with --port.')
+            : error
+        );
+      });
+      server.listen(port, this.options.host ?? '127.0.0.1', () => {
+        const address = server.address() as AddressInfo;
+        const host = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+        resolve(`http://${host}:${address.port}`);
+      });
+    });
+  }
+
+  stop(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (!server) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      server.close(() => resolve());
+      // Node 18.2+; older versions wait for idle keep-alive connections to time out
+      if (typeof server.closeAllConnections === 'function') {
+        server.closeAllConnections();
+      }
+    });
+  }
+
+  getState(): MockState {
+    return this.state;
+  }
+
+  /**
+   * Answer the next `times` requests to `method path` with `response` instead of the
+   * route, without checking their token.
+   */
+  respondWith(method: string, path: string, response: MockResponse, times = 1): void {
+    this.canned.push({ method: method.toUpperCase(), path, response, remaining: times });
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const started = Date.now();
+    const url = new URL(req.url || '/', 'http://localhost');
+    const method = (req.method || 'GET').toUpperCase();
+    let status = 200;
+    let headers: Record<string, string> = {};
+    let body: any;
+    let requestBody: any;
+
+    try {
+      requestBody = await readBody(req);
+      const canned = this.takeCanned(method, url.pathname);
+      if (canned) {
+        ({ status, body } = canned);
+        headers = canned.headers || {};
+      } else {
+        const request: MockRequest = {
+          method,
+          path: url.pathname,
+          params: {},
+          query: url.searchParams,
+          body: requestBody,
+          token: ''
+        };
+
+        const route = this.match(request);
+        if (!route.public) {
+          request.token = this.authenticate(req.headers.authorization);
+        }
+        const result = route.handler(request);
+        if (result instanceof MockRedirect) {
+          status = 302;
+          headers = { Location: result.location };
+        } else {
+          status = result === undefined ? 204 : route.status;
+          body = result;
+        }
+
+        if (method !== 'GET') {
+          this.saveState();
+        }
+      }
+    } catch (error: any) {
+      if (error instanceof MockHttpError) {
+        status = error.status;
+        body = error.body;
+      } else {
+        status = 500;
+        body = { message: error.message || 'Internal server error' };
+      }
+    }
+
+    res.setHeader('X-Request-Id', `mock-${crypto.randomBytes(6).toString('hex')}`);
+    if (Buffer.isBuffer(body)) {
+      res.writeHead(status, { 'Content-Type': 'application/zip', 'Content-Length': body.length, ...headers });
+      res.end(body);
+    } else if (body === undefined) {
+      res.writeHead(status, headers);
+      res.end();
+    } else {
+      res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+      res.end(JSON.stringify(body));
+    }
+
+    this.options.onRequest?.({
+      method,
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+      body: requestBody,
+      status,
+      duration: Date.now() - started
+    });
+  }
+
+  private authenticate(header: string | undefined): string {
+    const token = header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+    if (!token) {
+      throw new MockHttpError(401, 'Authentication required', { code: 'unauthenticated' });
+    }
+    const session = this.state.sessions.find((s) => s.accessToken === token);
+    if (session && Date.parse(session.expiresAt) <= Date.now()) {
+      throw new MockHttpError(401, 'Access token expired', { code: 'token_expired' });
+    }
+    if (
+      this.options.token &&
+      token !== this.options.token &&
+      !session &&
+      !this.state.tokens.some((t) => t.token === token)
+    ) {
+      throw new MockHttpError(401, 'Invalid token', { code: 'invalid_token' });
+    }
+    return token;
+  }
+
+  private takeCanned(method: string, path: string): MockResponse | undefined {
+    const canned = this.canned.find((entry) => entry.method === method && entry.path === path);
+    if (!canned) {
+      return undefined;
+    }
+    if (--canned.remaining === 0) {
+      this.canned.splice(this.canned.indexOf(canned), 1);
+    }
+    return canned.response;
+  }
+
+  private match(request: MockRequest): Route {
+    let pathMatched = false;
+
+    for (const route of this.routes) {
+      const match = route.pattern.exec(request.path);
+      if (!match) {
+        continue;
+      }
+      pathMatched = true;
+      if (route.method !== request.method) {
+        continue;
+      }
+      route.keys.forEach((key, index) => {
+        request.params[key] = decodeURIComponent(match[index + 1]);
+      });
+      return route;
+    }
+
+    throw pathMatched
+      ? new MockHttpError(405, `Method ${request.method} not allowed on ${request.path}`)
+      : new MockHttpError(404, `No mock route for ${request.method} ${request.path}`, { code: 'not_found' });
+  }
+
+  private route(method: string, pattern: string, handler: RouteHandler, status = 200, isPublic = false): void {
+    const keys: string[] = [];
+    const source = pattern.replace(/:(\w+)/g, (_, key) => {
+      keys.push(key);
+      return '([^/]+)';
+    });
+    this.routes.push({ method, pattern: new RegExp(`^${source}/?$`), keys, status, handler, public: isPublic });
+  }
+
+  private publicRoute(method: string, pattern: string, handler: RouteHandler): void {
+    this.route(method, pattern, handler, 200, true);
+  }
+
+  private registerRoutes(): void {
+    this.registerLoginRoutes();
+    this.registerUserRoutes();
+    this.registerGameRoutes();
+    this.registerBuildRoutes();
+    this.registerDeploymentRoutes();
+    this.registerAssetRoutes();
+    this.registerGuildRoutes();
+    this.registerIdentityRoutes();
+    this.registerAdRoutes();
+    this.registerAnalyticsRoutes();
+  }
+
+  // OAuth 2.0 and Sign-In with Ethereum. Nobody approves logins against the mock, so
+  // browser logins and device codes are granted as soon as they are requested.
+  private registerLoginRoutes(): void {
+    this.publicRoute('POST', '/v1/oauth/device/code', () => {
+      const deviceCode = randomSecret();
+      this.deviceCodes.add(deviceCode);
+      const userCode = crypto.randomBytes(4).toString('hex').toUpperCase().replace(/^(.{4})/, '$1-');
+      return {
+        device_code: deviceCode,
+        user_code: userCode,
+        verification_uri: 'https://dashboard.gamebuild.com/device',
+        verification_uri_complete: `https://dashboard.gamebuild.com/device?user_code=${userCode}`,
+        expires_in: 900,
+        interval: 1
+      };
+    });
+
+    this.publicRoute('GET', '/v1/oauth/authorize', ({ query }) => {
+      const redirectUri = query.get('redirect_uri');
+      const codeChallenge = query.get('code_challenge');
+      if (query.get('response_type') !== 'code' || !redirectUri || !codeChallenge || query.get('code_challenge_method') !== 'S256') {
+        throw oauthError('invalid_request', 'Expected response_type=code, a redirect_uri and an S256 code_challenge');
+      }
+
+      const code = randomSecret();
+      this.authorizationCodes.set(code, { redirectUri, codeChallenge });
+      const location = new URL(redirectUri);
+      location.searchParams.set('code', code);
+      if (query.get('state')) {
+        location.searchParams.set('state', query.get('state') as string);
+      }
+      return new MockRedirect(location.toString());
+    });
+
+    this.publicRoute('POST', '/v1/oauth/token', ({ body }) => {
+      switch (body.grant_type) {
+        case 'urn:ietf:params:oauth:grant-type:device_code':
+          if (!this.deviceCodes.delete(body.device_code)) {
+            throw oauthError('invalid_grant', 'The device code is invalid or was already used');
+          }
+          break;
+        case 'authorization_code': {
+          const grant = this.authorizationCodes.get(body.code);
+          this.authorizationCodes.delete(body.code);
+          const challenge = crypto.createHash('sha256').update(String(body.code_verifier || '')).digest('base64url');
+          if (!grant || grant.redirectUri !== body.redirect_uri || grant.codeChallenge !== challenge) {
+            throw oauthError('invalid_grant', 'The code is invalid, was already used or does not match the code verifier');
+          }
+          break;
+        }
+        case 'refresh_token': {
+          // Refresh tokens are rotated, so each one can be used once
+          const index = this.state.sessions.findIndex((s) => s.refreshToken === body.refresh_token);
+          if (index < 0) {
+            throw oauthError('invalid_grant', 'The refresh token is invalid or was already used');
+          }
+          this.state.sessions.splice(index, 1);
+          break;
+        }
+        default:
+          throw oauthError('unsupported_grant_type', `Unsupported grant type: ${body.grant_type}`);
+      }
+
+      const session = this.createSession();
+      return {
+        access_token: session.accessToken,
+        token_type: 'Bearer',
+        refresh_token: session.refreshToken,
+        expires_in: SESSION_LIFETIME,
+        scope: 'offline_access'
+      };
+    });
+
+    this.publicRoute('GET', '/v1/auth/siwe/nonce', ({ query }) => {
+      const address = query.get('address');
+      requireFields({ address }, ['address']);
+      const nonce = crypto.randomBytes(8).toString('hex');
+      this.nonces.set(nonce, address as string);
+      return { nonce };
+    });
+
+    this.publicRoute('POST', '/v1/auth/siwe/verify', ({ body }) => {
+      requireFields(body, ['message', 'signature']);
+      // EIP-4361 puts the address on the second line of the message
+      const address = String(body.message).split('\n')[1] || '';
+      const nonce = /^Nonce: (\S+)$/m.exec(body.message)?.[1] || '';
+      const expected = this.nonces.get(nonce);
+      this.nonces.delete(nonce);
+      if (!expected || !sameAddress(expected, address)) {
+        throw new MockHttpError(401, 'Unknown or reused nonce', { code: 'invalid_nonce' });
+      }
+
+      let signer = '';
+      try {
+        signer = ethers.verifyMessage(body.message, body.signature);
+      } catch {
+        // Reported below like any other signature that does not match
+      }
+      if (!sameAddress(signer, address)) {
+        throw new MockHttpError(401, 'The signature does not match the address', { code: 'invalid_signature' });
+      }
+
+      const session = this.createSession();
+      return { accessToken: session.accessToken, refreshToken: session.refreshToken, expiresIn: SESSION_LIFETIME };
+    });
+  }
+
+  private registerUserRoutes(): void {
+    this.route('GET', '/v1/user/me', () => MOCK_USER);
+
+    this.route('GET', '/v1/user/tokens', () => ({ tokens: this.state.tokens.map(withoutSecret) }));
+
+    this.route('GET', '/v1/user/tokens/current', ({ token }) => {
+      const current = this.state.tokens.find((t) => t.token === token);
+      if (!current) {
+        throw new MockHttpError(404, 'The current session is not a personal access token', { code: 'not_found' });
+      }
+      return withoutSecret(current);
+    });
+
+    this.route('POST', '/v1/user/tokens', ({ body }) => {
+      requireFields(body, ['description']);
+      const token: StoredToken = {
+        id: this.nextId('tok'),
+        description: body.description,
+        scopes: body.scopes || [],
+        createdAt: now(),
+        expiresAt: body.expiresAt,
+        token: `gbp_${crypto.randomBytes(16).toString('hex')}`
+      };
+      this.state.tokens.push(token);
+      return token;
+    }, 201);
+
+    this.route('DELETE', '/v1/user/tokens/:tokenId', ({ params }) => {
+      this.remove(this.state.tokens, (t) => t.id === params.tokenId, 'Token');
+    });
+  }
+
+  private registerGameRoutes(): void {
+    this.route('GET', '/v1/games', ({ query }) => paginated('games', this.state.games, query));
+
+    this.route('POST', '/v1/games', ({ body }) => {
+      requireFields(body, ['name', 'platform']);
+      if (this.state.games.some((game) => game.name === body.name)) {
+        throw new MockHttpError(409, `A game named "${body.name}" already exists`, { code: 'conflict' });
+      }
+      const id = this.nextId('game');
+      const game: Game = {
+        id,
+        name: body.name,
+        platform: body.platform,
+        template: body.template || 'basic',
+        status: 'active',
+        createdAt: now(),
+        dashboardUrl: `https://dashboard.gamebuild.com/games/${id}`
+      };
+      this.state.games.push(game);
+      return game;
+    }, 201);
+
+    this.route('GET', '/v1/games/:gameId', ({ params }) => this.findGame(params.gameId));
+
+    this.route('DELETE', '/v1/games/:gameId', ({ params }) => {
+      this.remove(this.state.games, (game) => game.id === params.gameId, 'Game');
+      this.state.builds = this.state.builds.filter((build) => build.gameId !== params.gameId);
+      this.state.deployments = this.state.deployments.filter((deployment) => deployment.gameId !== params.gameId);
+    });
+
+    this.route('GET', '/v1/games/:gameId/builds', ({ params, query }) => {
+      this.findGame(params.gameId);
+      let builds = this.state.builds.filter((build) => build.gameId === params.gameId).map((build) => this.advanceBuild(build));
+      if (query.get('status')) {
+        builds = builds.filter((build) => build.status === query.get('status'));
+      }
+      return paginated('builds', newestFirst(builds), query, 10);
+    });
+
+    this.route('GET', '/v1/games/:gameId/deployments', ({ params, query }) => {
+      this.findGame(params.gameId);
+      const deployments = this.state.deployments
+        .filter((deployment) => deployment.gameId === params.gameId)
+        .map((deployment) => this.advanceDeployment(deployment));
+      return paginated('deployments', newestFirst(deployments), query, 10);
+    });
+  }
+
+  private registerBuildRoutes(): void {
+    this.route('POST', '/v1/builds', ({ body }) => {
+      requireFields(body, ['gameId', 'environment']);
+      const game = this.findGame(body.gameId);
+      const build: Build = {
+        id: this.nextId('build'),
+        gameId: game.id,
+        status: 'building',
+        environment: body.environment,
+        platform: body.platform || game.platform,
+        startedAt: now()
+      };
+      this.state.builds.push(build);
+      game.lastBuild = build.id;
+      return build;
+    }, 201);
+
+    this.route('GET', '/v1/builds/:buildId', ({ params }) => this.advanceBuild(this.findBuild(params.buildId)));
+
+    this.route('GET', '/v1/builds/:buildId/logs', ({ params }) => {
+      const build = this.findBuild(params.buildId);
+      return { logs: progressLogs(BUILD_STEPS, build.startedAt, BUILD_DURATION, `Build ${build.id} succeeded`) };
+    });
+
+    this.route('GET', '/v1/builds/:buildId/download', ({ params }) => {
+      const build = this.advanceBuild(this.findBuild(params.buildId));
+      if (build.status !== 'success') {
+        throw new MockHttpError(409, 'The build has not finished yet', { code: 'conflict' });
+      }
+      return emptyZip();
+    });
+  }
+
+  private registerDeploymentRoutes(): void {
+    this.route('POST', '/v1/deployments', ({ body }) => {
+      requireFields(body, ['buildId', 'environment']);
+      const build = this.advanceBuild(this.findBuild(body.buildId));
+      if (build.status !== 'success') {
+        throw new MockHttpError(409, `Build ${build.id} has not succeeded`, { code: 'conflict' });
+      }
+      const deployment = this.createDeployment(build.gameId, build.id, body.environment, body.platform || build.platform);
+      return deployment;
+    }, 201);
+
+    this.route('GET', '/v1/deployments/:deploymentId', ({ params }) =>
+      this.advanceDeployment(this.findDeployment(params.deploymentId))
+    );
+
+    this.route('GET', '/v1/deployments/:deploymentId/logs', ({ params }) => {
+      const deployment = this.findDeployment(params.deploymentId);
+      return {
+        logs: progressLogs(DEPLOY_STEPS, deployment.startedAt, DEPLOY_DURATION, `Deployed to ${this.deploymentUrl(deployment)}`)
+      };
+    });
+
+    this.route('POST', '/v1/deployments/:deploymentId/rollback', ({ params }) => {
+      const target = this.findDeployment(params.deploymentId);
+      const rollback = this.createDeployment(target.gameId, target.buildId, target.environment, target.platform);
+      rollback.status = 'rolling-back';
+      return rollback;
+    }, 201);
+  }
+
+  private registerAssetRoutes(): void {
+    this.route('GET', '/v1/assets', ({ query }) => paginated('assets', this.state.assets, query));
+
+    this.route('POST', '/v1/assets/mint', ({ body }) => {
+      requireFields(body, ['name']);
+      const asset: Asset = {
+        id: this.nextId('asset'),
+        name: body.name,
+        description: body.description || '',
+        tokenId: String(this.state.assets.length + 1),
+        owner: randomAddress(),
+        ipfsUrl: body.ipfsUrl || ''
+      };
+      this.state.assets.push(asset);
+      return asset;
+    }, 201);
+
+    this.route('GET', '/v1/assets/:assetId', ({ params }) => this.findAsset(params.assetId));
+
+    this.route('POST', '/v1/assets/:assetId/transfer', ({ params, body }) => {
+      requireFields(body, ['toAddress']);
+      this.findAsset(params.assetId).owner = body.toAddress;
+    });
+
+    this.route('POST', '/v1/assets/:assetId/burn', ({ params }) => {
+      this.remove(this.state.assets, (asset) => asset.id === params.assetId, 'Asset');
+    });
+
+    this.route('GET', '/v1/tokens/erc20', () => ({ tokens: this.state.erc20Tokens }));
+
+    this.route('POST', '/v1/tokens/erc20/issue', ({ body }) => {
+      requireFields(body, ['name', 'symbol', 'totalSupply']);
+      const token: Erc20Token = {
+        contractAddress: randomAddress(),
+        name: body.name,
+        symbol: body.symbol,
+        decimals: body.decimals ?? 18,
+        totalSupply: String(body.totalSupply),
+        transactionHash: randomHash()
+      };
+      this.state.erc20Tokens.push(token);
+      return token;
+    }, 201);
+
+    this.route('GET', '/v1/tokens/erc20/:address', ({ params }) =>
+      this.find(this.state.erc20Tokens, (token) => sameAddress(token.contractAddress, params.address), 'Token')
+    );
+
+    this.route('GET', '/v1/tokens/erc721', () => ({ collections: this.state.erc721Collections }));
+
+    this.route('POST', '/v1/tokens/erc721/issue', ({ body }) => {
+      requireFields(body, ['name', 'symbol']);
+      const collection: Erc721Collection = {
+        contractAddress: randomAddress(),
+        name: body.name,
+        symbol: body.symbol,
+        baseUri: body.baseUri,
+        transactionHash: randomHash()
+      };
+      this.state.erc721Collections.push(collection);
+      return collection;
+    }, 201);
+
+    this.route('POST', '/v1/tokens/erc721/mint', ({ body }) => {
+      requireFields(body, ['contractAddress', 'toAddress']);
+      const collection = this.findCollection(body.contractAddress);
+      const minted = this.state.erc721Tokens.filter((nft) => sameAddress(nft.contractAddress, collection.contractAddress));
+      const nft: Erc721Nft = {
+        tokenId: String(minted.length + 1),
+        contractAddress: collection.contractAddress,
+        owner: body.toAddress,
+        metadataUri: body.metadataUri,
+        transactionHash: randomHash()
+      };
+      this.state.erc721Tokens.push(nft);
+      return nft;
+    }, 201);
+
+    this.route('GET', '/v1/tokens/erc721/:address', ({ params }) => this.findCollection(params.address));
+
+    this.route('GET', '/v1/tokens/erc721/:address/:tokenId', ({ params }) =>
+      this.find(
+        this.state.erc721Tokens,
+        (nft) => sameAddress(nft.contractAddress, params.address) && nft.tokenId === params.tokenId,
+        'Token'
+      )
+    );
+  }
+
+  private registerGuildRoutes(): void {
+    this.route('GET', '/v1/guilds', ({ query }) => paginated('guilds', this.state.guilds, query));
+
+    this.route('POST', '/v1/guilds', ({ body }) => {
+      requireFields(body, ['name']);
+      const guild: Guild = {
+        id: this.nextId('guild'),
+        name: body.name,
+        description: body.description || '',
+        members: [{ id: MOCK_USER.id, displayName: MOCK_USER.username, role: 'owner' }]
+      };
+      this.state.guilds.push(guild);
+      return guild;
+    }, 201);
+
+    this.route('GET', '/v1/guilds/:guildId', ({ params }) => this.findGuild(params.guildId));
+
+    this.route('POST', '/v1/guilds/:guildId/join', ({ params }) => {
+      const guild = this.findGuild(params.guildId);
+      if (guild.members.some((member) => member.id === MOCK_USER.id)) {
+        throw new MockHttpError(409, 'Already a member of this guild', { code: 'conflict' });
+      }
+      guild.members.push({ id: MOCK_USER.id, displayName: MOCK_USER.username, role: 'member' });
+    });
+
+    this.route('POST', '/v1/guilds/:guildId/leave', ({ params }) => {
+      const guild = this.findGuild(params.guildId);
+      if (!guild.members.some((member) => member.id === MOCK_USER.id)) {
+        throw new MockHttpError(409, 'Not a member of this guild', { code: 'conflict' });
+      }
+      guild.members = guild.members.filter((member) => member.id !== MOCK_USER.id);
+    });
+  }
+
+  private registerIdentityRoutes(): void {
+    this.route('GET', '/v1/identities', ({ query }) => {
+      const type = query.get('type');
+      const identities = type ? this.state.identities.filter((identity) => identity.type === type) : this.state.identities;
+      return paginated('identities', identities.map(publicIdentity), query);
+    });
+
+    this.route('POST', '/v1/identities', ({ body }) => {
+      requireFields(body, ['type', 'walletAddress']);
+      const identity: StoredIdentity = {
+        id: this.nextId('identity'),
+        type: body.type,
+        walletAddress: body.walletAddress,
+        displayName: body.displayName || `${body.type}-${this.state.identities.length + 1}`,
+        email: body.email,
+        status: 'active',
+        reputation: 0,
+        level: 1,
+        createdAt: now(),
+        achievements: [],
+        wallets: [{ address: body.walletAddress, network: 'ethereum', verified: false }],
+        permissions: []
+      };
+      this.state.identities.push(identity);
+      return publicIdentity(identity);
+    }, 201);
+
+    this.route('GET', '/v1/identities/:identityId', ({ params }) => publicIdentity(this.findIdentity(params.identityId)));
+
+    this.route('PATCH', '/v1/identities/:identityId', ({ params, body }) => {
+      const identity = this.findIdentity(params.identityId);
+      for (const key of ['displayName', 'email', 'bio', 'avatar'] as const) {
+        if (body[key] !== undefined) {
+          identity[key] = body[key];
+        }
+      }
+    });
+
+    this.route('POST', '/v1/identities/:identityId/wallets', ({ params, body }) => {
+      requireFields(body, ['walletAddress']);
+      const identity = this.findIdentity(params.identityId);
+      identity.wallets = [...(identity.wallets || []), { address: body.walletAddress, network: body.network || 'ethereum', verified: false }];
+    });
+
+    this.route('POST', '/v1/identities/:identityId/verify', ({ params, body }) => {
+      requireFields(body, ['signature']);
+      const identity = this.findIdentity(params.identityId);
+      identity.level = Math.max(identity.level, 2);
+      return { verified: true, level: 'verified', trustScore: 80 };
+    });
+
+    this.route('GET', '/v1/identities/:identityId/reputation', ({ params }) => {
+      const identity = this.findIdentity(params.identityId);
+      return {
+        score: identity.reputation,
+        level: identity.level >= 2 ? 'Trusted' : 'Newcomer',
+        rank: 'Bronze',
+        metrics: { gamesPlayed: 0, tournamentsWon: 0, reports: 0 },
+        achievements: identity.achievements || []
+      };
+    });
+
+    this.route('GET', '/v1/identities/:identityId/permissions', ({ params }) => ({
+      permissions: this.findIdentity(params.identityId).permissions
+    }));
+
+    this.route('POST', '/v1/identities/:identityId/permissions', ({ params, body }) => {
+      requireFields(body, ['permission']);
+      const identity = this.findIdentity(params.identityId);
+      if (!identity.permissions.includes(body.permission)) {
+        identity.permissions.push(body.permission);
+      }
+    });
+
+    this.route('DELETE', '/v1/identities/:identityId/permissions/:permission', ({ params }) => {
+      const identity = this.findIdentity(params.identityId);
+      if (!identity.permissions.includes(params.permission)) {
+        throw new MockHttpError(404, `Permission "${params.permission}" not granted`, { code: 'not_found' });
+      }
+      identity.permissions = identity.permissions.filter((permission) => permission !== params.permission);
+    });
+  }
+
+  private registerAdRoutes(): void {
+    this.route('GET', '/v1/ads/campaigns', ({ query }) => {
+      const status = query.get('status');
+      return paginated('campaigns', status ? this.state.campaigns.filter((c) => c.status === status) : this.state.campaigns, query);
+    });
+
+    this.route('POST', '/v1/ads/campaigns', ({ body }) => {
+      requireFields(body, ['name', 'type', 'budget']);
+      const campaign: Campaign = {
+        id: this.nextId('campaign'),
+        name: body.name,
+        type: body.type,
+        budget: Number(body.budget),
+        spent: 0,
+        status: 'draft',
+        targetAudience: body.targetAudience,
+        duration: body.duration,
+        createdAt: now(),
+        impressions: 0,
+        clicks: 0,
+        ctr: 0,
+        conversions: 0
+      };
+      this.state.campaigns.push(campaign);
+      return campaign;
+    }, 201);
+
+    this.route('GET', '/v1/ads/campaigns/:campaignId', ({ params }) => this.findCampaign(params.campaignId));
+
+    this.route('PATCH', '/v1/ads/campaigns/:campaignId', ({ params, body }) => {
+      const campaign = this.findCampaign(params.campaignId);
+      Object.assign(campaign, pick(body, ['name', 'budget', 'targetAudience', 'duration']));
+      return campaign;
+    });
+
+    this.route('DELETE', '/v1/ads/campaigns/:campaignId', ({ params }) => {
+      this.remove(this.state.campaigns, (campaign) => campaign.id === params.campaignId, 'Campaign');
+    });
+
+    this.route('POST', '/v1/ads/campaigns/:campaignId/start', ({ params }) => {
+      this.findCampaign(params.campaignId).status = 'active';
+    });
+
+    this.route('POST', '/v1/ads/campaigns/:campaignId/pause', ({ params }) => {
+      this.findCampaign(params.campaignId).status = 'paused';
+    });
+
+    this.route('GET', '/v1/ads/campaigns/:campaignId/stats', ({ params }) => {
+      const campaign = this.findCampaign(params.campaignId);
+      const impressions = campaign.status === 'draft' ? 0 : Math.round(campaign.budget * 40);
+      const clicks = Math.round(impressions * 0.03);
+      const conversions = Math.round(clicks * 0.1);
+      const revenue = conversions * 2;
+      const spent = campaign.status === 'draft' ? 0 : campaign.budget / 2;
+      return {
+        impressions,
+        clicks,
+        ctr: impressions ? round((clicks / impressions) * 100) : 0,
+        conversions,
+        revenue,
+        roi: spent ? round(((revenue - spent) / spent) * 100) : 0
+      };
+    });
+
+    this.route('GET', '/v1/ads/placements', () => ({ placements: this.state.placements }));
+
+    this.route('POST', '/v1/ads/placements', ({ body }) => {
+      requireFields(body, ['name', 'type']);
+      const placement: AdPlacement = {
+        id: this.nextId('placement'),
+        name: body.name,
+        type: body.type,
+        gameName: this.state.games.find((game) => game.id === body.gameId)?.name || body.gameId || '',
+        revenueShare: body.revenueShare ?? 70
+      };
+      this.state.placements.push(placement);
+      return placement;
+    }, 201);
+
+    this.route('GET', '/v1/ads/revenue', () => {
+      const byGame = this.state.games.map((game, index) => ({ name: game.name, revenue: 120 * (index + 1) }));
+      return {
+        total: byGame.reduce((sum, game) => sum + game.revenue, 0),
+        impressions: 48000,
+        clicks: 1440,
+        conversions: 144,
+        byGame
+      };
+    });
+  }
+
+  private registerAnalyticsRoutes(): void {
+    this.route('GET', '/v1/analytics/overview', () => ({
+      players: { total: 12500, new: 1800, returning: 10700 },
+      revenue: { total: 8420.5, iap: 6100, ads: 2320.5 },
+      engagement: { avgSessionDuration: 14.2, sessionsPerUser: 3.4, retentionRate: 41.5 },
+      growth: { userGrowth: 12.4, revenueGrowth: 8.1 }
+    }));
+
+    this.route('GET', '/v1/analytics/players', () => ({
+      acquisition: { newUsers: 1800, organic: 1260, paid: 540 },
+      demographics: {
+        avgAge: 27,
+        topCountries: [
+          { name: 'United States', percentage: 34 },
+          { name: 'Germany', percentage: 12 },
+          { name: 'Japan', percentage: 9 }
+        ]
+      },
+      behavior: { dau: 2100, wau: 6400, mau: 12500, avgPlaytime: 42 }
+    }));
+
+    this.route('GET', '/v1/analytics/revenue', () => ({
+      total: 8420.5,
+      sources: {
+        iap: 6100,
+        ads: 2320.5,
+        subscriptions: 0,
+        iapPercentage: 72.4,
+        adsPercentage: 27.6,
+        subscriptionsPercentage: 0
+      },
+      metrics: { arpu: 0.67, arppu: 9.85, conversionRate: 6.8 },
+      topProducts: [
+        { name: 'Starter Pack', revenue: 2450 },
+        { name: 'Gem Bundle', revenue: 1980 }
+      ]
+    }));
+
+    this.route('GET', '/v1/analytics/events', ({ query }) => {
+      const counts = new Map<string, number>();
+      for (const tracked of this.state.events) {
+        counts.set(tracked.event, (counts.get(tracked.event) || 0) + 1);
+      }
+      const eventType = query.get('eventType');
+      const specificCount = eventType ? counts.get(eventType) || 0 : 0;
+      return {
+        specific: eventType ? { total: specificCount, uniqueUsers: specificCount, avgPerUser: specificCount ? 1 : 0 } : undefined,
+        topEvents: [...counts.entries()]
+          .map(([name, count]) => ({ name, count }))
+          .sort((a, b) => b.count - a.count)
+          .slice(0, 10),
+        categories: { gameplay: this.state.events.length }
+      };
+    });
+
+    this.route('GET', '/v1/analytics/retention', () => ({
+      day1: 45.2,
+      day7: 21.8,
+      day30: 9.4,
+      cohorts: [
+        { period: 'Week 1', retention: 44.1, users: 620 },
+        { period: 'Week 2', retention: 39.7, users: 580 }
+      ],
+      churn: {
+        rate: 8.3,
+        reasons: [
+          { name: 'Difficulty', percentage: 41 },
+          { name: 'Content', percentage: 33 }
+        ]
+      }
+    }));
+
+    this.route('POST', '/v1/analytics/export', ({ body }) => {
+      requireFields(body, ['type', 'format']);
+      const filename = `${body.type}-${body.period || 'all'}.${body.format}`;
+      return { filename, recordCount: 1250, downloadUrl: `https://exports.gamebuild.com/mock/${filename}` };
+    });
+
+    this.route('GET', '/v1/analytics/realtime', () => ({
+      activeUsers: 180 + Math.floor(Math.random() * 40),
+      activeSessions: 210 + Math.floor(Math.random() * 40),
+      todayRevenue: 312.4,
+      recent: { newUsers: 12, events: 940, purchases: 3 },
+      topPages: [
+        { name: 'Main Menu', users: 64 },
+        { name: 'Level 3', users: 41 }
+      ]
+    }));
+
+    this.route('POST', '/v1/analytics/track', ({ body }) => {
+      requireFields(body, ['event']);
+      this.state.events.push({ event: body.event, properties: body.properties, timestamp: now() });
+    });
+
+    this.route('GET', '/v1/analytics/dashboards', () => ({ dashboards: this.state.dashboards }));
+
+    this.route('POST', '/v1/analytics/dashboards', ({ body }) => {
+      requireFields(body, ['name']);
+      const dashboard = { id: this.nextId('dashboard'), name: body.name, widgets: body.widgets || [], createdAt: now() };
+      this.state.dashboards.push(dashboard);
+      return dashboard;
+    }, 201);
+
+    this.route('GET', '/v1/analytics/funnels/:funnelId', ({ params, query }) => ({
+      id: params.funnelId,
+      period: query.get('period'),
+      steps: [
+        { name: 'Install', users: 1000, conversion: 100 },
+        { name: 'Tutorial complete', users: 620, conversion: 62 },
+        { name: 'First purchase', users: 68, conversion: 6.8 }
+      ]
+    }));
+
+    this.route('GET', '/v1/analytics/segmentation', ({ query }) => ({
+      segmentType: query.get('segmentType'),
+      period: query.get('period'),
+      segments: [
+        { name: 'Whales', users: 120, revenue: 4200 },
+        { name: 'Casual', users: 9800, revenue: 1900 }
+      ]
+    }));
+  }
+
+  // Builds and deployments run for a fixed time after they start
+  private advanceBuild(build: Build): Build {
+    const started = Date.parse(build.startedAt);
+    if (build.status === 'building' && Date.now() - started >= BUILD_DURATION) {
+      build.status = 'success';
+      build.completedAt = new Date(started + BUILD_DURATION).toISOString();
+      build.duration = BUILD_DURATION / 1000;
+      build.downloadUrl = `https://cdn.gamebuild.com/builds/${build.id}.zip`;
+      this.saveState();
+    }
+    return build;
+  }
+
+  private advanceDeployment(deployment: Deployment): Deployment {
+    const started = Date.parse(deployment.startedAt);
+    if (['deploying', 'rolling-back'].includes(deployment.status) && Date.now() - started >= DEPLOY_DURATION) {
+      deployment.status = 'deployed';
+      deployment.completedAt = new Date(started + DEPLOY_DURATION).toISOString();
+      deployment.url = this.deploymentUrl(deployment);
+      this.saveState();
+    }
+    return deployment;
+  }
+
+  private createDeployment(gameId: string, buildId: string, environment: string, platform: string): Deployment {
+    const deployment: Deployment = {
+      id: this.nextId('deploy'),
+      gameId,
+      buildId,
+      status: 'deploying',
+      environment,
+      platform,
+      startedAt: now()
+    };
+    this.state.deployments.push(deployment);
+    return deployment;
+  }
+
+  private deploymentUrl(deployment: Deployment): string {
+    return `https://play.gamebuild.com/${deployment.gameId}/${deployment.environment}`;
+  }
+
+  private findGame(gameId: string): Game {
+    return this.find(this.state.games, (game) => game.id === gameId, 'Game');
+  }
+
+  private findBuild(buildId: string): Build {
+    return this.find(this.state.builds, (build) => build.id === buildId, 'Build');
+  }
+
+  private findDeployment(deploymentId: string): Deployment {
+    return this.find(this.state.deployments, (deployment) => deployment.id === deploymentId, 'Deployment');
+  }
+
+  private findAsset(assetId: string): Asset {
+    return this.find(this.state.assets, (asset) => asset.id === assetId, 'Asset');
+  }
+
+  private findCollection(address: string): Erc721Collection {
+    return this.find(this.state.erc721Collections, (collection) => sameAddress(collection.contractAddress, address), 'Collection');
+  }
+
+  private findGuild(guildId: string): Guild {
+    return this.find(this.state.guilds, (guild) => guild.id === guildId, 'Guild');
+  }
+
+  private findIdentity(identityId: string): StoredIdentity {
+    // "me" is the first identity, which the initial state always has
+    if (identityId === 'me') {
+      return this.find(this.state.identities, () => true, 'Identity');
+    }
+    return this.find(this.state.identities, (identity) => identity.id === identityId, 'Identity');
+  }
+
+  private findCampaign(campaignId: string): Campaign {
+    return this.find(this.state.campaigns, (campaign) => campaign.id === campaignId, 'Campaign');
+  }
+
+  private find<T>(items: T[], predicate: (item: T) => boolean, kind: string): T {
+    const item = items.find(predicate);
+    if (!item) {
+      throw new MockHttpError(404, `${kind} not found`, { code: 'not_found' });
+    }
+    return item;
+  }
+
+  private remove<T>(items: T[], predicate: (item: T) => boolean, kind: string): void {
+    items.splice(items.indexOf(this.find(items, predicate, kind)), 1);
+  }
+
+  private createSession(): StoredSession {
+    const session: StoredSession = {
+      accessToken: `gba_${randomSecret()}`,
+      refreshToken: `gbr_${randomSecret()}`,
+      expiresAt: new Date(Date.now() + SESSION_LIFETIME * 1000).toISOString()
+    };
+    this.state.sessions.push(session);
+    return session;
+  }
+
+  private nextId(prefix: string): string {
+    return `${prefix}_${this.state.nextId++}`;
+  }
+
+  private loadState(): MockState {
+    const dataFile = this.options.dataFile;
+    if (!dataFile || !fs.existsSync(dataFile)) {
+      return initialState();
+    }
+
+    try {
+      return { ...initialState(), ...JSON.parse(fs.readFileSync(dataFile, 'utf8')) };
+    } catch (error: any) {
+      throw new CliError(`Could not read mock data file ${dataFile}: ${error.message}`, ExitCode.Validation);
+    }
+  }
+
+  private saveState(): void {
+    const dataFile = this.options.dataFile;
+    if (dataFile) {
+      fs.mkdirSync(path.dirname(path.resolve(dataFile)), { recursive: true });
+      fs.writeFileSync(dataFile, JSON.stringify(this.state, null, 2));
+    }
+  }
+}
+
+function initialState(): MockState {
+  return {
+    nextId: 2,
+    games: [],
+    builds: [],
+    deployments: [],
+    assets: [],
+    erc20Tokens: [],
+    erc721Collections: [],
+    erc721Tokens: [],
+    guilds: [],
+    identities: [
+      {
+        id: 'identity_1',
+        type: 'developer',
+        walletAddress: randomAddress(),
+        displayName: MOCK_USER.username,
+        email: MOCK_USER.email,
+        status: 'active',
+        reputation: 120,
+        level: 1,
+        createdAt: now(),
+        achievements: [],
+        wallets: [],
+        permissions: []
+      }
+    ],
+    campaigns: [],
+    placements: [],
+    dashboards: [],
+    events: [],
+    tokens: [],
+    sessions: []
+  };
+}
+
+function readBody(req: http.IncomingMessage): Promise<any> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('error', reject);
+    req.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf8');
+      if (!text) {
+        resolve({});
+        return;
+      }
+      // The OAuth token endpoints take forms, like real authorization servers
+      if (req.headers['content-type']?.startsWith('application/x-www-form-urlencoded')) {
+        resolve(Object.fromEntries(new URLSearchParams(text)));
+        return;
+      }
+      try {
+        resolve(JSON.parse(text));
+      } catch {
+        reject(new MockHttpError(400, 'Request body is not valid JSON', { code: 'invalid_json' }));
+      }
+    });
+  });
+}
+
+// The error format of RFC 6749, section 5.2
+function oauthError(error: string, description: string): MockHttpError {
+  return new MockHttpError(400, description, { error, error_description: description });
+}
+
+function requireFields(body: any, fields: string[]): void {
+  const missing = fields.filter((field) => body[field] === undefined || body[field] === null || body[field] === '');
+  if (missing.length > 0) {
+    throw new MockHttpError(422, 'Validation failed', {
+      code: 'validation_failed',
+      errors: missing.map((field) => ({ field, message: 'is required' }))
+    });
+  }
+}
+
+// The lines of `steps` that have run by now, with `done` once all have
+function progressLogs(steps: string[], startedAt: string, duration: number, done: string): string {
+  const elapsed = Date.now() - Date.parse(startedAt);
+  const count = Math.min(steps.length, Math.floor((elapsed / duration) * steps.length) + 1);
+  const lines = steps.slice(0, count).map((step) => `[${step}] ok`);
+  if (elapsed >= duration) {
+    lines.push(done);
+  }
+  return lines.map((line) => `${line}\n`).join('');
+}
+
+function newestFirst<T extends { startedAt: string }>(items: T[]): T[] {
+  return [...items].sort((a, b) => Date.parse(b.startedAt) - Date.parse(a.startedAt));
+}
+
+// One page of `items` under `key`, with the cursor of the next page when there is one.
+// Cursors encode the offset, but clients must treat them as opaque.
+function paginated<T>(key: string, items: T[], query: URLSearchParams, defaultLimit = 50): Record<string, unknown> {
+  const cursor = query.get('cursor');
+  const offset = cursor ? Number(/^offset:(\d+)$/.exec(Buffer.from(cursor, 'base64url').toString())?.[1] ?? NaN) : 0;
+  if (!Number.isInteger(offset)) {
+    throw new MockHttpError(400, 'Invalid cursor', { code: 'invalid_cursor' });
+  }
+
+  const limit = limitOf(query, defaultLimit);
+  const page: Record<string, unknown> = { [key]: items.slice(offset, offset + limit) };
+  if (offset + limit < items.length) {
+    page.nextCursor = Buffer.from(`offset:${offset + limit}`).toString('base64url');
+  }
+  return page;
+}
+
+function limitOf(query: URLSearchParams, defaultLimit: number): number {
+  const limit = parseInt(query.get('limit') || '', 10);
+  return limit > 0 ? limit : defaultLimit;
+}
+
+// The secret is only returned when a token is created
+function withoutSecret(token: StoredToken): ApiToken {
+  const copy: ApiToken = { ...token };
+  delete copy.token;
+  return copy;
+}
+
+function publicIdentity(identity: StoredIdentity): Identity {
+  const copy: Partial<StoredIdentity> = { ...identity };
+  delete copy.permissions;
+  return copy as Identity;
+}
+
+function pick(body: any, keys: string[]): Record<string, any> {
+  return Object.fromEntries(keys.filter((key) => body[key] !== undefined).map((key) => [key, body[key]]));
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function randomAddress(): string {
+  return `0x${crypto.randomBytes(20).toString('hex')}`;
+}
+
+function randomSecret(): string {
+  return crypto.randomBytes(16).toString('hex');
+}
+
+function randomHash(): string {
+  return `0x${crypto.randomBytes(32).toString('hex')}`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function now(): string {
+  return new Date().toISOString();
+}
+
+// An empty but valid zip archive (just the end of central directory record)
+function emptyZip(): Buffer {
+  const buffer = Buffer.alloc(22);
+  buffer.writeUInt32LE(0x06054b50, 0);
+  return buffer;
+}
@@ -0,0 +1,256 @@
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { AxiosInstance, isAxiosError } from 'axios';
+import { ConfigService } from './config';
+import { createHttpClient } from '../utils/http';
+import { Logger, logger } from '../utils/logger';
+import { AuthError, CliError, ExitCode, SessionExpiredError, toApiError } from '../utils/errors';
+
+export const DEFAULT_CLIENT_ID = 'gamebuild-cli';
+
+// offline_access asks for a refresh token so the session outlives the access token
+const DEFAULT_SCOPE = 'offline_access';
+
+const LOOPBACK_TIMEOUT = 5 * 60 * 1000;
+
+const FORM_HEADERS = { 'Content-Type': 'application/x-www-form-urlencoded' };
+
+export interface TokenSet {
+  accessToken: string;
+  refreshToken?: string;
+  // Epoch milliseconds
+  expiresAt?: number;
+  scope?: string;
+}
+
+export interface DeviceAuthorization {
+  deviceCode: string;
+  userCode: string;
+  verificationUri: string;
+  verificationUriComplete?: string;
+  expiresIn: number;
+  interval: number;
+}
+
+export interface BrowserAuthorization {
+  url: string;
+  // Resolves once the browser has been redirected back to the local server and the
+  // authorization code has been exchanged
+  tokens: Promise<TokenSet>;
+  cancel(): void;
+}
+
+export class OAuthService {
+  private configService: ConfigService;
+  private logger: Logger;
+
+  constructor(configService: ConfigService = new ConfigService(), log: Logger = logger) {
+    this.configService = configService;
+    this.logger = log;
+  }
+
+  /**
+   * Start the OAuth 2.0 device authorization flow (RFC 8628). The user enters the
+   * returned code on another device while pollDeviceAuthorization waits.
+   */
+  async startDeviceAuthorization(baseUrl: string): Promise<DeviceAuthorization> {
+    try {
+      const response = await this.createClient(baseUrl).post(
+        '/v1/oauth/device/code',
+        this.form({ scope: DEFAULT_SCOPE }),
+        { headers: FORM_HEADERS }
+      );
+      const data = response.data;
+      return {
+        deviceCode: data.device_code,
+        userCode: data.user_code,
+        verificationUri: data.verification_uri,
+        verificationUriComplete: data.verification_uri_complete,
+        expiresIn: data.expires_in || 900,
+        interval: data.interval || 5
+      };
+    } catch (error) {
+      throw toApiError(error, 'Failed to start device login');
+    }
+  }
+
+  async pollDeviceAuthorization(baseUrl: string, device: DeviceAuthorization): Promise<TokenSet> {
+    const client = this.createClient(baseUrl);
+    const deadline = Date.now() + device.expiresIn * 1000;
+    let interval = device.interval * 1000;
+
+    while (Date.now() < deadline) {
+      await sleep(interval);
+
+      try {
+        return await this.requestToken(client, {
+          grant_type: 'urn:ietf:params:oauth:grant-type:device_code',
+          device_code: device.deviceCode
+        });
+      } catch (error) {
+        const code = isAxiosError(error) ? error.response?.data?.error : undefined;
+        if (code === 'authorization_pending') {
+          continue;
+        }
+        if (code === 'slow_down') {
+          interval += 5000;
+          continue;
+        }
+        if (code === 'expired_token') {
+          break;
+        }
+        if (code === 'access_denied') {
+          throw new AuthError('Login was denied');
+        }
+        throw toApiError(error, 'Failed to complete device login');
+      }
+    }
+
+    throw new AuthError('The login code expired before it was approved');
+  }
+
+  /**
+   * Start the authorization code flow with PKCE (RFC 7636) on a loopback redirect
+   * (RFC 8252). Listens on a random local port until the browser is redirected back.
+   */
+  async startBrowserAuthorization(baseUrl: string): Promise<BrowserAuthorization> {
+    const verifier = base64Url(crypto.randomBytes(32));
+    const challenge = base64Url(crypto.createHash('sha256').update(verifier).digest());
+    const state = base64Url(crypto.randomBytes(16));
+
+    const server = http.createServer();
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(0, '127.0.0.1', () => resolve());
+    });
+
+    const { port } = server.address() as AddressInfo;
+    const redirectUri = `http://127.0.0.1:${port}/callback`;
+    const url = `${baseUrl.replace(/\/$/, '')}/v1/oauth/authorize?${this.form({
+      response_type: 'code',
+      redirect_uri: redirectUri,
+      code_challenge: challenge,
+      code_challenge_method: 'S256',
+      state,
+      scope: DEFAULT_SCOPE
+    })}`;
+
+    let timer: NodeJS.Timeout | undefined;
+    const stop = () => {
+      clearTimeout(timer);
+      server.close();
+      // Node 18.2+; older versions close the connections when their responses end
+      if (typeof server.closeAllConnections === 'function') {
+        server.closeAllConnections();
+      }
+    };
+
+    const code = new Promise<string>((resolve, reject) => {
+      timer = setTimeout(
+        () => reject(new CliError('Timed out waiting for the browser login', ExitCode.Unauthenticated)),
+        LOOPBACK_TIMEOUT
+      );
+
+      server.on('request', (req, res) => {
+        const callback = new URL(req.url || '/', redirectUri);
+        if (callback.pathname !== '/callback') {
+          res.writeHead(404, { Connection: 'close' }).end();
+          return;
+        }
+
+        const error = callback.searchParams.get('error');
+        const failure =
+          callback.searchParams.get('state') !== state
+            ? 'The login response did not match this request'
+            : error
+              ? callback.searchParams.get('error_description') || error
+              : !callback.searchParams.get('code')
+                ? 'No authorization code was returned'
+                : undefined;
+
+        res.writeHead(failure ? 400 : 200, { 'Content-Type': 'text/html; charset=utf-8', Connection: 'close' });
+        res.end(callbackPage(failure));
+
+        if (failure) {
+          reject(error === 'access_denied' ? new AuthError('Login was denied') : new AuthError(`Login failed: ${failure}`));
+        } else {
+          resolve(callback.searchParams.get('code') as string);
+        }
+      });
+    });
+
+    const tokens = code
+      .then((authorizationCode) =>
+        this.requestToken(this.createClient(baseUrl), {
+          grant_type: 'authorization_code',
+          code: authorizationCode,
+          redirect_uri: redirectUri,
+          code_verifier: verifier
+        }).catch((error) => {
+          throw toApiError(error, 'Failed to complete browser login');
+        })
+      )
+      .finally(stop);
+
+    return { url, tokens, cancel: stop };
+  }
+
+  /**
+   * Exchange a refresh token for a new access token. The refresh token is kept
+   * unless the server rotates it.
+   */
+  async refreshAccessToken(baseUrl: string, refreshToken: string): Promise<TokenSet> {
+    try {
+      const tokens = await this.requestToken(this.createClient(baseUrl), {
+        grant_type: 'refresh_token',
+        refresh_token: refreshToken
+      });
+      return { ...tokens, refreshToken: tokens.refreshToken || refreshToken };
+    } catch (error) {
+      // invalid_grant: the refresh token was revoked, expired or already used
+      const status = isAxiosError(error) ? error.response?.status : undefined;
+      if (status === 400 || status === 401) {
+        throw new SessionExpiredError(undefined, { status, cause: error });
+      }
+      throw toApiError(error, 'Failed to refresh the session');
+    }
+  }
+
+  private async requestToken(client: AxiosInstance, params: Record<string, string>): Promise<TokenSet> {
+    const response = await client.post('/v1/oauth/token', this.form(params), { headers: FORM_HEADERS });
+    const data = response.data;
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token,
+      expiresAt: data.expires_in ? Date.now() + data.expires_in * 1000 : undefined,
+      scope: data.scope
+    };
+  }
+
+  private createClient(baseUrl: string): AxiosInstance {
+    return createHttpClient(baseUrl, this.configService.get('http'), this.logger);
+  }
+
+  private form(params: Record<string, string>): URLSearchParams {
+    return new URLSearchParams({
+      client_id: this.configService.get('auth.clientId') || DEFAULT_CLIENT_ID,
+      ...params
+    });
+  }
+}
+
+function base64Url(buffer: Buffer): string {
+  return buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function callbackPage(failure?: string): string {
+  const message = failure
+    ? `Login failed: ${failure.replace(/[<>&"]/g, '')}`
+    : 'You are logged in. You can close this window and return to the terminal.';
+  return `<!DOCTYPE html><html><head><title>GameBuild CLI</title></head><body><h1>GameBuild CLI</h1><p>${message}</p></body></html>`;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
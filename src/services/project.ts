@@ -0,0 +1,331 @@
+import * as fs from 'fs';
+import { CliError, ExitCode } from '../utils/errors';
+import { JsonLocation, JsonParseError, parseJsonWithLocations } from '../utils/json';
+
+export const PROJECT_FILE = '.gamebuild.json';
+
+export const PROJECT_MANIFEST_VERSION = 1;
+
+export const PROJECT_PLATFORMS = ['web', 'mobile', 'desktop', 'console'];
+
+export const PROJECT_HOOKS = ['preBuild', 'postBuild', 'preDeploy', 'postDeploy'];
+
+export interface ProjectHooks {
+  preBuild?: string;
+  postBuild?: string;
+  preDeploy?: string;
+  postDeploy?: string;
+}
+
+export interface ProjectEnvironment {
+  buildPath?: string;
+  platform?: string;
+  variables?: Record<string, string>;
+}
+
+export interface ProjectManifest {
+  version: number;
+  gameId: string;
+  createdAt?: string;
+  buildPath?: string;
+  platform?: string;
+  include?: string[];
+  exclude?: string[];
+  hooks?: ProjectHooks;
+  environments?: Record<string, ProjectEnvironment>;
+  // Per-project overrides for global configuration keys (see "gamebuild config set --local")
+  settings?: Record<string, any>;
+}
+
+export interface ManifestIssue {
+  path: string;
+  message: string;
+  line?: number;
+  column?: number;
+}
+
+export class ProjectManifestError extends CliError {
+  readonly file: string;
+  readonly issues: ManifestIssue[];
+  readonly source: string;
+
+  constructor(file: string, issues: ManifestIssue[], source: string) {
+    super(`Invalid project file ${file}`, ExitCode.Validation);
+    this.file = file;
+    this.issues = issues;
+    this.source = source;
+  }
+
+  /**
+   * The offending source line with a caret under the reported column.
+   */
+  getSnippet(issue: ManifestIssue): string[] {
+    if (!issue.line) {
+      return [];
+    }
+
+    const text = this.source.split('\n')[issue.line - 1] || '';
+    const gutter = `${issue.line} | `;
+    return [
+      `${gutter}${text.replace(/\r$/, '')}`,
+      `${' '.repeat(gutter.length - 2)}| ${' '.repeat(Math.max(0, (issue.column || 1) - 1))}^`
+    ];
+  }
+}
+
+export interface MigrationResult {
+  manifest: ProjectManifest;
+  fromVersion: number;
+  applied: string[];
+}
+
+interface Migration {
+  from: number;
+  description: string;
+  migrate(manifest: Record<string, any>): Record<string, any>;
+}
+
+// Each migration upgrades a manifest from `from` to `from + 1`
+const MIGRATIONS: Migration[] = [
+  {
+    from: 0,
+    description: 'Add the schema "version" field',
+    migrate: (manifest) => ({ version: 1, ...manifest })
+  }
+];
+
+export class ProjectService {
+  /**
+   * Read, migrate and validate a project file. Throws ProjectManifestError if the file
+   * is not valid JSON or does not match the schema.
+   */
+  load(filePath: string): ProjectManifest {
+    const { manifest } = this.read(filePath);
+    return manifest;
+  }
+
+  read(filePath: string): MigrationResult {
+    const source = fs.readFileSync(filePath, 'utf8');
+
+    let parsed;
+    try {
+      parsed = parseJsonWithLocations(source);
+    } catch (error) {
+      if (error instanceof JsonParseError) {
+        throw new ProjectManifestError(
+          filePath,
+          [{ path: '', message: error.message, line: error.line, column: error.column }],
+          source
+        );
+      }
+      throw error;
+    }
+
+    const raw = parsed.value;
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      throw new ProjectManifestError(
+        filePath,
+        [{ path: '', message: 'The project file must contain a JSON object', ...parsed.locations.get('') }],
+        source
+      );
+    }
+
+    const result = this.migrate(raw);
+    const issues = this.validate(result.manifest, parsed.locations);
+    if (issues.length > 0) {
+      throw new ProjectManifestError(filePath, issues, source);
+    }
+
+    return result;
+  }
+
+  /**
+   * Upgrade a manifest to the current schema version. Manifests written before
+   * versioning was introduced are treated as version 0.
+   */
+  migrate(raw: Record<string, any>): MigrationResult {
+    const fromVersion = typeof raw.version === 'number' ? raw.version : 0;
+    const applied: string[] = [];
+    let manifest = raw;
+
+    for (const migration of MIGRATIONS) {
+      if (migration.from >= fromVersion && migration.from < PROJECT_MANIFEST_VERSION) {
+        manifest = migration.migrate(manifest);
+        manifest.version = migration.from + 1;
+        applied.push(migration.description);
+      }
+    }
+
+    return { manifest: manifest as ProjectManifest, fromVersion, applied };
+  }
+
+  validate(manifest: Record<string, any>, locations?: Map<string, JsonLocation>): ManifestIssue[] {
+    const issues: ManifestIssue[] = [];
+    const report = (path: string, message: string) => {
+      issues.push({ path, message: `${path || 'project'}: ${message}`, ...this.locate(path, locations) });
+    };
+
+    const known = [
+      'version',
+      'gameId',
+      'createdAt',
+      'buildPath',
+      'platform',
+      'include',
+      'exclude',
+      'hooks',
+      'environments',
+      'settings'
+    ];
+
+    if (typeof manifest.version !== 'number' || !Number.isInteger(manifest.version)) {
+      report('version', 'must be an integer');
+    } else if (manifest.version > PROJECT_MANIFEST_VERSION) {
+      report(
+        'version',
+        `schema version ${manifest.version} is newer than this CLI supports (${PROJECT_MANIFEST_VERSION}). Please upgrade gamebuild.`
+      );
+      return issues;
+    }
+
+    if (typeof manifest.gameId !== 'string' || manifest.gameId.trim() === '') {
+      report('gameId', manifest.gameId === undefined ? 'is required' : 'must be a non-empty string');
+    }
+
+    this.checkString(manifest, 'createdAt', report);
+    this.checkString(manifest, 'buildPath', report);
+    this.checkPlatform(manifest, 'platform', report);
+    this.checkStringArray(manifest, 'include', report);
+    this.checkStringArray(manifest, 'exclude', report);
+
+    if (manifest.hooks !== undefined) {
+      if (!isObject(manifest.hooks)) {
+        report('hooks', 'must be an object');
+      } else {
+        for (const [name, command] of Object.entries(manifest.hooks)) {
+          if (!PROJECT_HOOKS.includes(name)) {
+            report(`hooks.${name}`, `unknown hook (expected one of: ${PROJECT_HOOKS.join(', ')})`);
+          } else if (typeof command !== 'string') {
+            report(`hooks.${name}`, 'must be a shell command string');
+          }
+        }
+      }
+    }
+
+    if (manifest.environments !== undefined) {
+      if (!isObject(manifest.environments)) {
+        report('environments', 'must be an object keyed by environment name');
+      } else {
+        for (const [name, environment] of Object.entries(manifest.environments)) {
+          const prefix = `environments.${name}`;
+          if (!isObject(environment)) {
+            report(prefix, 'must be an object');
+            continue;
+          }
+          for (const key of Object.keys(environment)) {
+            if (!['buildPath', 'platform', 'variables'].includes(key)) {
+              report(`${prefix}.${key}`, 'unknown field');
+            }
+          }
+          this.checkString(environment, 'buildPath', report, prefix);
+          this.checkPlatform(environment, 'platform', report, prefix);
+          if (environment.variables !== undefined) {
+            if (!isObject(environment.variables)) {
+              report(`${prefix}.variables`, 'must be an object of strings');
+            } else {
+              for (const [variable, value] of Object.entries(environment.variables)) {
+                if (typeof value !== 'string') {
+                  report(`${prefix}.variables.${variable}`, 'must be a string');
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+
+    if (manifest.settings !== undefined && !isObject(manifest.settings)) {
+      report('settings', 'must be an object');
+    }
+
+    for (const key of Object.keys(manifest)) {
+      if (!known.includes(key)) {
+        report(key, 'unknown field');
+      }
+    }
+
+    return issues;
+  }
+
+  save(filePath: string, manifest: ProjectManifest): void {
+    const issues = this.validate(manifest);
+    if (issues.length > 0) {
+      throw new ProjectManifestError(filePath, issues, '');
+    }
+    fs.writeFileSync(filePath, JSON.stringify(manifest, null, 2) + '\n');
+  }
+
+  private locate(path: string, locations?: Map<string, JsonLocation>): Partial<JsonLocation> {
+    if (!locations) {
+      return {};
+    }
+
+    // Fall back to the closest parent that exists in the file, e.g. a missing field points at its object
+    let current = path;
+    for (;;) {
+      const location = locations.get(current);
+      if (location) {
+        return location;
+      }
+      if (current === '') {
+        return {};
+      }
+      current = current.includes('.') ? current.slice(0, current.lastIndexOf('.')) : '';
+    }
+  }
+
+  private checkString(
+    obj: Record<string, any>,
+    key: string,
+    report: (path: string, message: string) => void,
+    prefix = ''
+  ): void {
+    if (obj[key] !== undefined && typeof obj[key] !== 'string') {
+      report(prefix ? `${prefix}.${key}` : key, 'must be a string');
+    }
+  }
+
+  private checkPlatform(
+    obj: Record<string, any>,
+    key: string,
+    report: (path: string, message: string) => void,
+    prefix = ''
+  ): void {
+    if (obj[key] !== undefined && !PROJECT_PLATFORMS.includes(obj[key])) {
+      report(prefix ? `${prefix}.${key}` : key, `must be one of: ${PROJECT_PLATFORMS.join(', ')}`);
+    }
+  }
+
+  private checkStringArray(
+    obj: Record<string, any>,
+    key: string,
+    report: (path: string, message: string) => void
+  ): void {
+    if (obj[key] === undefined) {
+      return;
+    }
+    if (!Array.isArray(obj[key])) {
+      report(key, 'must be an array of glob patterns');
+      return;
+    }
+    obj[key].forEach((item: unknown, index: number) => {
+      if (typeof item !== 'string') {
+        report(`${key}.${index}`, 'must be a string');
+      }
+    });
+  }
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,248 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Asset, AssetService } from './asset';
+import { ResponseCache, getCacheTtl } from './cache';
+import { ConfigService, DEFAULT_ACCOUNT } from './config';
+import { Game, GameService } from './game';
+import { Guild, GuildService } from './guild';
+import { CliError, ExitCode, NotFoundError } from '../utils/errors';
+
+export const NAMES_FILE = 'names.json';
+
+export type ResourceKind = 'game' | 'guild' | 'asset';
+
+export interface NamedResource {
+  id: string;
+  name: string;
+}
+
+/**
+ * Chooses one of several `matches` for `input`, or returns undefined when it cannot ask.
+ */
+export type NamePicker = (kind: ResourceKind, input: string, matches: NamedResource[]) => Promise<string | undefined>;
+
+export interface FindOptions {
+  // Only an ID, an exact name or ".", never a prefix: for commands that destroy what they find
+  exact?: boolean;
+}
+
+// The names of one kind from the latest listing, by name
+interface CachedNames {
+  storedAt: number;
+  names: Record<string, string>;
+}
+
+type AccountNames = Partial<Record<ResourceKind, CachedNames>>;
+
+// Keyed by profile, then account, then kind
+type NameCache = Record<string, Record<string, AccountNames>>;
+
+// Cached names expire with the responses they came from
+const TTL_RESOURCES: Record<ResourceKind, string> = {
+  game: 'games',
+  guild: 'guilds',
+  asset: 'assets'
+};
+
+/**
+ * Finds the game, guild or asset users mean by what they type. Accepts an ID, an exact
+ * name, the start of a unique name, or "." for the current project's game. The input is
+ * tried as an ID first, and only listed by name when the API does not know it. Names
+ * seen in listings are cached per profile and account, like responses, so repeated
+ * lookups by name skip the listing; a cached name whose ID the API no longer knows, or
+ * that now belongs to another one, is forgotten and looked up again.
+ * Ambiguous names go to `picker`, or fail with the matches listed when there is none.
+ */
+export class NameResolver {
+  private configService: ConfigService;
+  private gameService: GameService;
+  private guildService: GuildService;
+  private assetService: AssetService;
+  private picker?: NamePicker;
+  private cache?: NameCache;
+
+  constructor(
+    configService: ConfigService,
+    gameService: GameService,
+    guildService: GuildService,
+    assetService: AssetService,
+    picker?: NamePicker
+  ) {
+    this.configService = configService;
+    this.gameService = gameService;
+    this.guildService = guildService;
+    this.assetService = assetService;
+    this.picker = picker;
+  }
+
+  async findGame(input: string, options: FindOptions = {}): Promise<Game> {
+    if (input === '.') {
+      return this.gameService.getGame(this.gameService.requireLocalProject().gameId);
+    }
+    return this.find('game', input, options, (id) => this.gameService.getGame(id), () => this.gameService.listGames());
+  }
+
+  async findGuild(input: string, options: FindOptions = {}): Promise<Guild> {
+    return this.find('guild', input, options, (id) => this.guildService.getGuild(id), () => this.guildService.listGuilds());
+  }
+
+  async findAsset(input: string, options: FindOptions = {}): Promise<Asset> {
+    return this.find('asset', input, options, (id) => this.assetService.getAsset(id), () => this.assetService.listAssets());
+  }
+
+  /**
+   * Drop cached names of `id`, e.g. after it was deleted.
+   */
+  forget(kind: ResourceKind, id: string): void {
+    const names = this.getAccountNames()[kind]?.names || {};
+    for (const [name, cachedId] of Object.entries(names)) {
+      if (cachedId === id) {
+        delete names[name];
+      }
+    }
+    this.save();
+  }
+
+  private async find<T extends NamedResource>(
+    kind: ResourceKind,
+    input: string,
+    options: FindOptions,
+    get: (id: string) => Promise<T>,
+    list: () => Promise<NamedResource[]>
+  ): Promise<T> {
+    if (input === '.') {
+      throw new CliError(`"." only refers to the current project's game, not a ${kind}`, ExitCode.Validation);
+    }
+
+    const cached = this.lookup(kind, input);
+    if (cached) {
+      try {
+        const result = await get(cached);
+        if (result.name === input) {
+          return result;
+        }
+      } catch (error) {
+        if (!(error instanceof NotFoundError)) {
+          throw error;
+        }
+      }
+      // Deleted or renamed since it was cached, and the name may belong to another one now
+      this.forget(kind, cached);
+    }
+
+    let notFound: NotFoundError;
+    try {
+      return await get(encodeURIComponent(input));
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) {
+        throw error;
+      }
+      notFound = error;
+    }
+
+    const items = await list();
+    this.remember(kind, items);
+
+    const matches = findMatches(items, input, options.exact);
+    if (matches.length === 0) {
+      throw notFound;
+    }
+    return get(matches.length === 1 ? matches[0].id : await this.pick(kind, input, matches));
+  }
+
+  private async pick(kind: ResourceKind, input: string, matches: NamedResource[]): Promise<string> {
+    const id = await this.picker?.(kind, input, matches);
+    if (id) {
+      return id;
+    }
+
+    const listed = matches.map((match) => `${match.name} (${match.id})`).join(', ');
+    throw new CliError(
+      `"${input}" matches ${matches.length} ${kind}s: ${listed}`,
+      ExitCode.Validation,
+      'Pass the ID, or more of the name.'
+    );
+  }
+
+  private lookup(kind: ResourceKind, input: string): string | undefined {
+    if (!ResponseCache.isEnabled(this.configService) || ResponseCache.isRefreshing()) {
+      return undefined;
+    }
+    const entry = this.getAccountNames()[kind];
+    const ttl = getCacheTtl(this.configService, TTL_RESOURCES[kind]);
+    if (!entry?.names || !(Date.now() - entry.storedAt < ttl * 1000)) {
+      return undefined;
+    }
+    return Object.prototype.hasOwnProperty.call(entry.names, input) ? entry.names[input] : undefined;
+  }
+
+  // Replaces the cached names of `kind` with those in a fresh listing. Names shared by
+  // several items are left out, since they do not identify one.
+  private remember(kind: ResourceKind, items: NamedResource[]): void {
+    if (!ResponseCache.isEnabled(this.configService)) {
+      return;
+    }
+    const counts = new Map<string, number>();
+    items.forEach((item) => counts.set(item.name, (counts.get(item.name) || 0) + 1));
+
+    const names: Record<string, string> = {};
+    items.filter((item) => item.name && counts.get(item.name) === 1).forEach((item) => (names[item.name] = item.id));
+
+    this.getAccountNames()[kind] = { storedAt: Date.now(), names };
+    this.save();
+  }
+
+  // Accounts can see different games, so each has its own names
+  private getAccountNames(): AccountNames {
+    const cache = this.load();
+    const profile = this.configService.getActiveProfile();
+    const account = this.configService.getActiveAccount() || DEFAULT_ACCOUNT;
+    cache[profile] = cache[profile] || {};
+    cache[profile][account] = cache[profile][account] || {};
+    return cache[profile][account];
+  }
+
+  private load(): NameCache {
+    if (!this.cache) {
+      this.cache = {};
+      if (!this.configService.isInMemory()) {
+        try {
+          this.cache = JSON.parse(fs.readFileSync(this.getPath(), 'utf8'));
+        } catch {
+          // Missing or unreadable: start over, the cache only saves requests
+        }
+      }
+    }
+    return this.cache!;
+  }
+
+  private save(): void {
+    if (this.configService.isInMemory() || !this.cache) {
+      return;
+    }
+    try {
+      fs.mkdirSync(path.dirname(this.getPath()), { recursive: true, mode: 0o700 });
+      fs.writeFileSync(this.getPath(), JSON.stringify(this.cache, null, 2), { mode: 0o600 });
+    } catch {
+      // Read-only home directories still resolve names, just without caching
+    }
+  }
+
+  private getPath(): string {
+    return path.join(this.configService.getCacheDir(), NAMES_FILE);
+  }
+}
+
+// Exact names, then names that match ignoring case, then names that start with `input`
+function findMatches(items: NamedResource[], input: string, exact = false): NamedResource[] {
+  const lower = input.toLowerCase();
+  if (exact) {
+    return items.filter((item) => item.name === input);
+  }
+  const tiers = [
+    items.filter((item) => item.name === input),
+    items.filter((item) => item.name?.toLowerCase() === lower),
+    items.filter((item) => item.name?.toLowerCase().startsWith(lower))
+  ];
+  return tiers.find((tier) => tier.length > 0) || [];
+}
@@ -0,0 +1,148 @@
+import * as fs from 'fs';
+import { ethers } from 'ethers';
+import { AxiosInstance } from 'axios';
+import { ConfigService } from './config';
+import { TokenSet } from './oauth';
+import { createHttpClient } from '../utils/http';
+import { Logger, logger } from '../utils/logger';
+import { CliError, ExitCode, toApiError } from '../utils/errors';
+
+const SIWE_STATEMENT = 'Sign in to GameBuild from the command line.';
+
+// How long the server should accept the signed message
+const MESSAGE_LIFETIME = 10 * 60 * 1000;
+
+/**
+ * Fields of an EIP-4361 (Sign-In with Ethereum) message.
+ */
+export interface SiweMessage {
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: '1';
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+}
+
+export interface WalletKey {
+  address: string;
+  privateKey: string;
+}
+
+export type MessageSigner = (message: string) => Promise<string>;
+
+/**
+ * Render a SIWE message in the exact text format that EIP-4361 specifies and that
+ * the server reconstructs to verify the signature.
+ */
+export function formatSiweMessage(message: SiweMessage): string {
+  const lines = [
+    `${message.domain} wants you to sign in with your Ethereum account:`,
+    message.address,
+    ''
+  ];
+  if (message.statement) {
+    lines.push(message.statement, '');
+  }
+  lines.push(
+    `URI: ${message.uri}`,
+    `Version: ${message.version}`,
+    `Chain ID: ${message.chainId}`,
+    `Nonce: ${message.nonce}`,
+    `Issued At: ${message.issuedAt}`
+  );
+  if (message.expirationTime) {
+    lines.push(`Expiration Time: ${message.expirationTime}`);
+  }
+  return lines.join('\n');
+}
+
+export class WalletAuthService {
+  private configService: ConfigService;
+  private logger: Logger;
+
+  constructor(configService: ConfigService = new ConfigService(), log: Logger = logger) {
+    this.configService = configService;
+    this.logger = log;
+  }
+
+  loadPrivateKey(privateKey: string): WalletKey {
+    try {
+      const wallet = new ethers.Wallet(privateKey.startsWith('0x') ? privateKey : `0x${privateKey}`);
+      return { address: wallet.address, privateKey: wallet.privateKey };
+    } catch {
+      throw new CliError('Invalid private key', ExitCode.Validation, 'Expected 32 bytes of hex, optionally prefixed with 0x.');
+    }
+  }
+
+  /**
+   * Decrypt a JSON keystore (the format written by geth, MetaMask exports and ethers).
+   */
+  async loadKeystore(keystorePath: string, password: string): Promise<WalletKey> {
+    if (!fs.existsSync(keystorePath)) {
+      throw new CliError(`Keystore not found: ${keystorePath}`, ExitCode.NotFound);
+    }
+
+    const json = fs.readFileSync(keystorePath, 'utf8');
+    if (!ethers.isKeystoreJson(json)) {
+      throw new CliError(`Not a JSON keystore: ${keystorePath}`, ExitCode.Validation);
+    }
+
+    try {
+      const wallet = await ethers.Wallet.fromEncryptedJson(json, password);
+      return { address: wallet.address, privateKey: wallet.privateKey };
+    } catch {
+      throw new CliError('Could not decrypt the keystore', ExitCode.Validation, 'Check the keystore password.');
+    }
+  }
+
+  /**
+   * Sign in with an Ethereum account: fetch a nonce, sign a SIWE message for it and
+   * exchange the signature for a session.
+   */
+  async login(baseUrl: string, address: string, chainId: number, sign: MessageSigner): Promise<TokenSet> {
+    const client = this.createClient(baseUrl);
+
+    let nonce: string;
+    try {
+      const response = await client.get('/v1/auth/siwe/nonce', { params: { address } });
+      nonce = response.data.nonce;
+    } catch (error) {
+      throw toApiError(error, 'Failed to start wallet login');
+    }
+
+    const url = new URL(baseUrl);
+    const issuedAt = new Date();
+    const message = formatSiweMessage({
+      domain: url.host,
+      address: ethers.getAddress(address),
+      statement: SIWE_STATEMENT,
+      uri: url.origin,
+      version: '1',
+      chainId,
+      nonce,
+      issuedAt: issuedAt.toISOString(),
+      expirationTime: new Date(issuedAt.getTime() + MESSAGE_LIFETIME).toISOString()
+    });
+    const signature = await sign(message);
+
+    try {
+      const response = await client.post('/v1/auth/siwe/verify', { message, signature });
+      const data = response.data;
+      return {
+        accessToken: data.accessToken,
+        refreshToken: data.refreshToken,
+        expiresAt: data.expiresIn ? Date.now() + data.expiresIn * 1000 : undefined
+      };
+    } catch (error) {
+      throw toApiError(error, 'Wallet login failed');
+    }
+  }
+
+  private createClient(baseUrl: string): AxiosInstance {
+    return createHttpClient(baseUrl, this.configService.get('http'), this.logger);
+  }
+}
@@ -0,0 +1,362 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import axios, {
+  AxiosAdapter,
+  AxiosError,
+  AxiosHeaders,
+  AxiosInstance,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+  isAxiosError
+} from 'axios';
+import { CliError, ExitCode } from './errors';
+
+export const CASSETTE_VERSION = 1;
+
+// Compared with non-alphanumerics removed, so "refresh_token" and "refreshToken" both match
+const SECRET_KEYS = [
+  'authorization',
+  'proxyauthorization',
+  'cookie',
+  'setcookie',
+  'xapikey',
+  'apikey',
+  'token',
+  'accesstoken',
+  'refreshtoken',
+  'idtoken',
+  'devicecode',
+  'codeverifier',
+  'clientsecret',
+  'secret',
+  'password',
+  'privatekey',
+  'signature'
+];
+
+const REDACTED = '[REDACTED]';
+
+// Stands in for the session while replaying; recordings never contain the real one
+export const REPLAY_TOKEN = 'replay';
+
+export interface RecordedRequest {
+  method: string;
+  url: string;
+  query?: Record<string, string>;
+  headers: Record<string, unknown>;
+  body?: unknown;
+}
+
+export interface RecordedResponse {
+  status: number;
+  headers: Record<string, unknown>;
+  body?: unknown;
+  // Set for binary bodies, which are stored base64 encoded
+  encoding?: 'base64';
+}
+
+export interface Interaction {
+  request: RecordedRequest;
+  // Exactly one of response and error is set; error means no response arrived
+  response?: RecordedResponse;
+  error?: { code?: string; message: string };
+}
+
+export interface CassetteFile {
+  version: number;
+  recordedAt: string;
+  // The project manifest the command ran with, so replays need no project file
+  project?: Record<string, unknown>;
+  interactions: Interaction[];
+}
+
+export interface CassetteSettings {
+  // Write every request and response to this file
+  record?: string;
+  // Answer requests from this file instead of the network
+  replay?: string;
+  // The current project's manifest, kept with the recording
+  project?: Record<string, unknown>;
+}
+
+/**
+ * Records the HTTP traffic of an invocation to a file (--record), or plays a recording
+ * back without network access (--replay). Credentials are redacted before anything is
+ * written, so recordings can be attached to bug reports.
+ */
+export class Cassette {
+  private mode?: 'record' | 'replay';
+  private file?: string;
+  private recordedAt = '';
+  private project?: Record<string, unknown>;
+  private interactions: Interaction[] = [];
+  private played = new Set<number>();
+
+  configure(settings: CassetteSettings): void {
+    if (settings.record && settings.replay) {
+      throw new CliError('--record and --replay cannot be used together', ExitCode.Validation);
+    }
+
+    this.mode = settings.record ? 'record' : settings.replay ? 'replay' : undefined;
+    this.file = this.mode ? path.resolve((settings.record || settings.replay)!) : undefined;
+    this.project = undefined;
+    this.interactions = [];
+    this.played.clear();
+
+    if (this.mode === 'replay') {
+      this.load();
+    } else if (this.mode === 'record') {
+      this.recordedAt = new Date().toISOString();
+      this.project = settings.project;
+      // Written up front so an unwritable path fails before the command runs
+      this.save();
+    }
+  }
+
+  isReplaying(): boolean {
+    return this.mode === 'replay';
+  }
+
+  /**
+   * The project manifest of the recording being replayed, if it was made in a project.
+   */
+  getProject(): Record<string, unknown> | undefined {
+    return this.mode === 'replay' ? this.project : undefined;
+  }
+
+  /**
+   * Send `client`'s requests through the cassette. Requests go straight to the network
+   * unless --record or --replay is set.
+   */
+  attach(client: AxiosInstance): void {
+    const next = axios.getAdapter(client.defaults.adapter);
+    client.defaults.adapter = (config) => this.handle(config, next);
+  }
+
+  private async handle(config: InternalAxiosRequestConfig, next: AxiosAdapter): Promise<AxiosResponse> {
+    if (this.mode === 'replay') {
+      return this.replay(config);
+    }
+    if (this.mode !== 'record') {
+      return next(config);
+    }
+
+    const request = describeRequest(config);
+    try {
+      const response = await next(config);
+      const [recorded, data] = await recordResponse(response);
+      this.add({ request, response: recorded });
+      return { ...response, data };
+    } catch (error) {
+      if (isAxiosError(error) && error.response) {
+        const [recorded, data] = await recordResponse(error.response);
+        error.response.data = data;
+        this.add({ request, response: recorded });
+      } else if (isAxiosError(error)) {
+        this.add({ request, error: { code: error.code, message: error.message } });
+      }
+      throw error;
+    }
+  }
+
+  // Requests are matched on method, path and query, in recorded order, so repeated
+  // requests such as log polling get their responses in sequence
+  private replay(config: InternalAxiosRequestConfig): AxiosResponse {
+    const request = describeRequest(config);
+    const index = this.interactions.findIndex(
+      (interaction, i) => !this.played.has(i) && sameRequest(interaction.request, request)
+    );
+
+    if (index === -1) {
+      throw new CliError(
+        `No recorded response for ${request.method} ${pathOf(request.url)} in ${this.file}`,
+        ExitCode.Network,
+        'The command made a request that is not in the recording. Record it again with --record.'
+      );
+    }
+
+    this.played.add(index);
+    const interaction = this.interactions[index];
+    if (!interaction.response) {
+      throw new AxiosError(interaction.error?.message || 'Network error', interaction.error?.code, config);
+    }
+
+    const recorded = interaction.response;
+    const response: AxiosResponse = {
+      data: replayBody(recorded, config),
+      status: recorded.status,
+      statusText: '',
+      headers: AxiosHeaders.from(recorded.headers as Record<string, string>),
+      config,
+      request: {}
+    };
+
+    if (config.validateStatus && !config.validateStatus(recorded.status)) {
+      throw new AxiosError(
+        `Request failed with status code ${recorded.status}`,
+        recorded.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        config,
+        response.request,
+        response
+      );
+    }
+    return response;
+  }
+
+  private add(interaction: Interaction): void {
+    this.interactions.push(interaction);
+    // Saved as it goes, so the recording survives commands that exit early
+    this.save();
+  }
+
+  private save(): void {
+    const contents: CassetteFile = {
+      version: CASSETTE_VERSION,
+      recordedAt: this.recordedAt,
+      project: this.project,
+      interactions: this.interactions
+    };
+    try {
+      fs.mkdirSync(path.dirname(this.file!), { recursive: true });
+      fs.writeFileSync(this.file!, JSON.stringify(contents, null, 2) + '\n');
+    } catch (error: any) {
+      throw new CliError(`Cannot write recording to ${this.file}: ${error.message}`, ExitCode.GeneralError);
+    }
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.file!)) {
+      throw new CliError(`Recording not found: ${this.file}`, ExitCode.NotFound);
+    }
+
+    let contents: CassetteFile;
+    try {
+      contents = JSON.parse(fs.readFileSync(this.file!, 'utf8'));
+    } catch (error: any) {
+      throw new CliError(`Invalid recording ${this.file}: ${error.message}`, ExitCode.Validation);
+    }
+    if (contents.version !== CASSETTE_VERSION || !Array.isArray(contents.interactions)) {
+      throw new CliError(`Unsupported recording format in ${this.file}`, ExitCode.Validation);
+    }
+
+    this.recordedAt = contents.recordedAt;
+    this.project = contents.project;
+    this.interactions = contents.interactions;
+  }
+}
+
+export const cassette = new Cassette();
+
+function describeRequest(config: InternalAxiosRequestConfig): RecordedRequest {
+  const url = axios.getUri({ ...config, params: undefined });
+  const query: Record<string, string> = {};
+  for (const [key, value] of Object.entries(config.params || {})) {
+    if (value !== undefined && value !== null) {
+      query[key] = String(value);
+    }
+  }
+
+  const request: RecordedRequest = {
+    method: (config.method || 'get').toUpperCase(),
+    url,
+    headers: redact(AxiosHeaders.from(config.headers).toJSON())
+  };
+  if (Object.keys(query).length > 0) {
+    request.query = redact(query);
+  }
+  if (config.data !== undefined) {
+    request.body = redact(parseBody(config.data, contentType(config.headers)));
+  }
+  return request;
+}
+
+// Hosts are ignored, so a recording replays against any profile
+function sameRequest(recorded: RecordedRequest, request: RecordedRequest): boolean {
+  return (
+    recorded.method === request.method &&
+    pathOf(recorded.url) === pathOf(request.url) &&
+    JSON.stringify(recorded.query || {}) === JSON.stringify(request.query || {})
+  );
+}
+
+function pathOf(url: string): string {
+  return new URL(url, 'http://localhost').pathname;
+}
+
+// Adapters hand back the raw body, before axios parses JSON. Streams are read in full
+// so they can be stored, and handed on as a fresh stream.
+async function recordResponse(response: AxiosResponse): Promise<[RecordedResponse, unknown]> {
+  const recorded: RecordedResponse = {
+    status: response.status,
+    headers: redact(AxiosHeaders.from(response.headers as Record<string, string>).toJSON())
+  };
+
+  let data = response.data;
+  if (data instanceof Readable) {
+    const buffer = await readStream(data);
+    data = Readable.from([buffer]);
+    recorded.body = buffer.toString('base64');
+    recorded.encoding = 'base64';
+  } else if (Buffer.isBuffer(data)) {
+    recorded.body = data.toString('base64');
+    recorded.encoding = 'base64';
+  } else if (data !== undefined && data !== '') {
+    recorded.body = redact(parseBody(data, contentType(response.headers)));
+  }
+  return [recorded, data];
+}
+
+function replayBody(recorded: RecordedResponse, config: InternalAxiosRequestConfig): unknown {
+  if (recorded.encoding === 'base64') {
+    const buffer = Buffer.from(String(recorded.body), 'base64');
+    return config.responseType === 'stream' ? Readable.from([buffer]) : buffer;
+  }
+  if (recorded.body === undefined) {
+    return '';
+  }
+  // Served as text, like the network adapter, so axios parses it as usual
+  return typeof recorded.body === 'string' ? recorded.body : JSON.stringify(recorded.body);
+}
+
+function contentType(headers: unknown): string {
+  return String(AxiosHeaders.from(headers as Record<string, string>).getContentType() || '');
+}
+
+function parseBody(data: unknown, type: string): unknown {
+  if (typeof data !== 'string') {
+    return data;
+  }
+  if (type.includes('application/x-www-form-urlencoded')) {
+    return Object.fromEntries(new URLSearchParams(data));
+  }
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+
+function redact<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item)) as T;
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  const copy: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    copy[key] = SECRET_KEYS.includes(key.toLowerCase().replace(/[^a-z0-9]/g, '')) ? REDACTED : redact(item);
+  }
+  return copy as T;
+}
+
+function readStream(stream: Readable): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    stream.on('data', (chunk) => chunks.push(Buffer.from(chunk)));
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+    stream.on('error', reject);
+  });
+}
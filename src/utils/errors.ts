@@ -0,0 +1,252 @@
+import { isAxiosError } from 'axios';
+import { parseRetryAfter } from './http';
+
+/**
+ * Process exit codes, documented in the README so scripts can branch on them.
+ */
+export const ExitCode = {
+  Success: 0,
+  GeneralError: 1,
+  Unauthenticated: 3,
+  NotFound: 4,
+  Validation: 5,
+  Conflict: 6,
+  RateLimited: 7,
+  Network: 8,
+  RemoteFailure: 9,
+  // Same code a shell reports for Ctrl+C
+  Cancelled: 130
+} as const;
+
+export type ExitCode = (typeof ExitCode)[keyof typeof ExitCode];
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export interface ApiErrorOptions {
+  status?: number;
+  code?: string;
+  requestId?: string;
+  details?: FieldError[];
+  cause?: unknown;
+}
+
+/**
+ * An error that is reported to the user without a stack trace and ends the process
+ * with a specific exit code.
+ */
+export class CliError extends Error {
+  private readonly exit: ExitCode;
+  private readonly help?: string;
+
+  constructor(message: string, exitCode: ExitCode = ExitCode.GeneralError, hint?: string) {
+    super(message);
+    this.name = new.target.name;
+    this.exit = exitCode;
+    this.help = hint;
+  }
+
+  get exitCode(): ExitCode {
+    return this.exit;
+  }
+
+  get hint(): string | undefined {
+    return this.help;
+  }
+}
+
+/**
+ * The user declined a confirmation or interrupted a prompt.
+ */
+export class CancelledError extends CliError {
+  constructor(message = 'Operation cancelled.') {
+    super(message, ExitCode.Cancelled);
+  }
+}
+
+export class GameBuildApiError extends CliError {
+  readonly status?: number;
+  readonly code?: string;
+  readonly requestId?: string;
+  readonly details: FieldError[];
+  readonly cause?: unknown;
+
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, ExitCode.RemoteFailure);
+    this.status = options.status;
+    this.code = options.code;
+    this.requestId = options.requestId;
+    this.details = options.details || [];
+    this.cause = options.cause;
+  }
+}
+
+export class AuthError extends GameBuildApiError {
+  get exitCode(): ExitCode {
+    return ExitCode.Unauthenticated;
+  }
+
+  get hint(): string | undefined {
+    return this.status === 403
+      ? 'Your token does not have permission for this action.'
+      : 'Run "gamebuild auth login" to authenticate.';
+  }
+}
+
+/**
+ * The access token has expired and could not be refreshed.
+ */
+export class SessionExpiredError extends AuthError {
+  constructor(message = 'Your session has expired', options: ApiErrorOptions = {}) {
+    super(message, options);
+  }
+
+  get hint(): string | undefined {
+    return 'Run "gamebuild auth login" to log in again.';
+  }
+}
+
+export class NotFoundError extends GameBuildApiError {
+  get exitCode(): ExitCode {
+    return ExitCode.NotFound;
+  }
+
+  get hint(): string | undefined {
+    return 'Check that the ID is correct and that you have access to it.';
+  }
+}
+
+export class ValidationError extends GameBuildApiError {
+  get exitCode(): ExitCode {
+    return ExitCode.Validation;
+  }
+
+  get hint(): string | undefined {
+    return this.details.length > 0 ? undefined : 'Check the values you passed and try again.';
+  }
+}
+
+export class ConflictError extends GameBuildApiError {
+  get exitCode(): ExitCode {
+    return ExitCode.Conflict;
+  }
+
+  get hint(): string | undefined {
+    return 'The resource was changed or already exists. Refresh and try again.';
+  }
+}
+
+export class RateLimitError extends GameBuildApiError {
+  readonly retryAfter?: number;
+
+  constructor(message: string, options: ApiErrorOptions & { retryAfter?: number } = {}) {
+    super(message, options);
+    this.retryAfter = options.retryAfter;
+  }
+
+  get exitCode(): ExitCode {
+    return ExitCode.RateLimited;
+  }
+
+  get hint(): string | undefined {
+    return this.retryAfter !== undefined
+      ? `Rate limit exceeded. Try again in ${Math.ceil(this.retryAfter / 1000)}s.`
+      : 'Rate limit exceeded. Wait a moment and try again.';
+  }
+}
+
+export class NetworkError extends GameBuildApiError {
+  get exitCode(): ExitCode {
+    return ExitCode.Network;
+  }
+
+  get hint(): string | undefined {
+    return 'Check your network connection and the configured auth.baseUrl.';
+  }
+}
+
+/**
+ * A value that would normally be prompted for is missing while prompting is disabled
+ * (--no-input or CI). `flag` names the option that supplies it, e.g. "--name <name>".
+ */
+export class InputRequiredError extends CliError {
+  readonly flag: string;
+
+  constructor(message: string, flag: string) {
+    super(message, ExitCode.Validation, `Prompts are disabled (--no-input or CI). Pass ${flag} instead.`);
+    this.flag = flag;
+  }
+}
+
+/**
+ * Convert an error thrown by the HTTP client into the matching GameBuildApiError subclass.
+ * `action` describes what was being attempted, e.g. "Failed to create game".
+ * Errors that did not come from the HTTP client are only prefixed with `action`.
+ */
+export function toApiError(error: unknown, action: string): Error {
+  if (error instanceof CliError) {
+    return error;
+  }
+
+  if (!isAxiosError(error)) {
+    const message = error instanceof Error ? error.message : String(error);
+    return new Error(`${action}: ${message}`);
+  }
+
+  const response = error.response;
+  if (!response) {
+    return new NetworkError(`${action}: ${error.message}`, { code: error.code, cause: error });
+  }
+
+  const data = response.data && typeof response.data === 'object' ? response.data : {};
+  const options: ApiErrorOptions = {
+    status: response.status,
+    code: data.code || data.error,
+    requestId: response.headers?.['x-request-id'],
+    details: parseFieldErrors(data),
+    cause: error
+  };
+  const message = `${action}: ${data.message || error.message}`;
+
+  switch (response.status) {
+    case 400:
+    case 422:
+      return new ValidationError(message, options);
+    case 401:
+    case 403:
+      return new AuthError(message, options);
+    case 404:
+      return new NotFoundError(message, options);
+    case 409:
+      return new ConflictError(message, options);
+    case 429:
+      return new RateLimitError(message, {
+        ...options,
+        retryAfter: parseRetryAfter(response.headers?.['retry-after'])
+      });
+    default:
+      return new GameBuildApiError(message, options);
+  }
+}
+
+function parseFieldErrors(data: any): FieldError[] {
+  const errors = data.errors || data.details;
+
+  if (Array.isArray(errors)) {
+    return errors
+      .filter((e) => e && typeof e === 'object')
+      .map((e) => ({ field: String(e.field || e.path || ''), message: String(e.message || '') }));
+  }
+
+  // Also accept the { field: message } shape
+  if (errors && typeof errors === 'object') {
+    return Object.entries(errors).map(([field, message]) => ({
+      field,
+      message: Array.isArray(message) ? message.join(', ') : String(message)
+    }));
+  }
+
+  return [];
+}
@@ -0,0 +1,207 @@
+import axios, { AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { cassette } from './cassette';
+import { Logger, logger } from './logger';
+
+export interface RetryOptions {
+  retries: number;
+  retryDelay: number;
+  maxRetryDelay: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 3,
+  retryDelay: 500,
+  maxRetryDelay: 30000
+};
+
+export const DEFAULT_TIMEOUT = 30000;
+
+export interface HttpSettings extends Partial<RetryOptions> {
+  timeout?: number;
+}
+
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+
+const SENSITIVE_HEADERS = ['authorization', 'cookie', 'set-cookie', 'x-api-key'];
+
+interface RetryableRequestConfig extends InternalAxiosRequestConfig {
+  retryCount?: number;
+}
+
+/**
+ * Create an API client with request logging and retries configured from the
+ * `http.*` settings.
+ */
+export function createHttpClient(baseUrl: string, settings: HttpSettings = {}, log: Logger = logger): AxiosInstance {
+  const client = axios.create({
+    baseURL: baseUrl,
+    timeout: settings.timeout ?? DEFAULT_TIMEOUT,
+    headers: {
+      'Content-Type': 'application/json',
+      'User-Agent': 'GameBuild-CLI/1.0.0'
+    }
+  });
+
+  // Log requests when --verbose is set; registered first so it sees the final headers
+  attachLoggingInterceptor(client, log);
+
+  // Retry transient failures (network errors, 5xx, 429)
+  attachRetryInterceptor(client, {
+    retries: settings.retries ?? DEFAULT_RETRY_OPTIONS.retries,
+    retryDelay: settings.retryDelay ?? DEFAULT_RETRY_OPTIONS.retryDelay,
+    maxRetryDelay: settings.maxRetryDelay ?? DEFAULT_RETRY_OPTIONS.maxRetryDelay
+  });
+
+  // --record and --replay work below the interceptors, so each retry is a separate exchange
+  cassette.attach(client);
+
+  return client;
+}
+
+export function attachRetryInterceptor(client: AxiosInstance, options: RetryOptions): void {
+  client.interceptors.response.use(undefined, async (error: AxiosError) => {
+    const config = error.config as RetryableRequestConfig | undefined;
+
+    if (!config || !shouldRetry(error)) {
+      throw error;
+    }
+
+    const attempt = config.retryCount || 0;
+    if (attempt >= options.retries) {
+      throw error;
+    }
+
+    // Retrying before the server's Retry-After only gets rejected again, so a longer wait
+    // than maxRetryDelay is left to the user (RateLimitError reports it)
+    const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after']);
+    if (retryAfter !== undefined && retryAfter > options.maxRetryDelay) {
+      throw error;
+    }
+
+    config.retryCount = attempt + 1;
+    const delay = retryAfter ?? getBackoffDelay(attempt, options);
+
+    await sleep(delay);
+    return client.request(config);
+  });
+}
+
+/**
+ * Log every request and response at debug level. Register this before any interceptor
+ * that sets headers: axios runs request interceptors in reverse registration order,
+ * so this one then sees the final headers.
+ */
+export function attachLoggingInterceptor(client: AxiosInstance, logger: Logger): void {
+  const startTimes = new WeakMap<InternalAxiosRequestConfig, number>();
+
+  client.interceptors.request.use((config) => {
+    if (logger.isVerbose()) {
+      startTimes.set(config, Date.now());
+      logger.debug(`→ ${formatRequest(config)}`);
+      logger.debug(`  headers: ${JSON.stringify(redactHeaders(config.headers))}`);
+    }
+    return config;
+  });
+
+  client.interceptors.response.use(
+    (response: AxiosResponse) => {
+      if (logger.isVerbose()) {
+        logger.debug(`← ${response.status} ${formatRequest(response.config)} ${elapsed(response.config)}`);
+        logger.debug(`  headers: ${JSON.stringify(redactHeaders(response.headers))}`);
+      }
+      return response;
+    },
+    (error: AxiosError) => {
+      if (logger.isVerbose() && error.config) {
+        const status = error.response ? error.response.status : error.code || 'ERROR';
+        logger.debug(`← ${status} ${formatRequest(error.config)} ${elapsed(error.config)}`);
+      }
+      throw error;
+    }
+  );
+
+  function elapsed(config: InternalAxiosRequestConfig): string {
+    const start = startTimes.get(config);
+    return start !== undefined ? `(${Date.now() - start}ms)` : '';
+  }
+}
+
+function formatRequest(config: InternalAxiosRequestConfig): string {
+  const method = (config.method || 'get').toUpperCase();
+  const url = config.baseURL && !/^https?:\/\//.test(config.url || '')
+    ? `${config.baseURL.replace(/\/$/, '')}${config.url || ''}`
+    : config.url || '';
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(config.params || {})) {
+    if (value !== undefined && value !== null) {
+      query.append(key, String(value));
+    }
+  }
+  const search = query.toString();
+  return `${method} ${url}${search ? `?${search}` : ''}`;
+}
+
+export function redactHeaders(headers: unknown): Record<string, unknown> {
+  const plain: Record<string, unknown> =
+    headers && typeof (headers as any).toJSON === 'function'
+      ? (headers as any).toJSON()
+      : { ...(headers as Record<string, unknown>) };
+
+  for (const key of Object.keys(plain)) {
+    if (SENSITIVE_HEADERS.includes(key.toLowerCase())) {
+      plain[key] = '[REDACTED]';
+    }
+  }
+
+  return plain;
+}
+
+function shouldRetry(error: AxiosError): boolean {
+  const method = (error.config?.method || 'get').toLowerCase();
+  const status = error.response?.status;
+
+  // A 429 means the server rejected the request without processing it,
+  // so it is safe to retry regardless of the method
+  if (status === 429) {
+    return true;
+  }
+
+  if (!IDEMPOTENT_METHODS.includes(method)) {
+    return false;
+  }
+
+  // No response at all: connection reset, DNS failure, timeout
+  if (!error.response) {
+    return error.code !== 'ERR_CANCELED';
+  }
+
+  return status !== undefined && status >= 500 && status <= 599;
+}
+
+function getBackoffDelay(attempt: number, options: RetryOptions): number {
+  const exponential = Math.min(options.retryDelay * Math.pow(2, attempt), options.maxRetryDelay);
+  // Full jitter keeps concurrent CI jobs from retrying in lockstep
+  return Math.floor(Math.random() * exponential);
+}
+
+export function parseRetryAfter(header: unknown): number | undefined {
+  if (typeof header !== 'string' || header.trim() === '') {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
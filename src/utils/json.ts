@@ -0,0 +1,167 @@
+export interface JsonLocation {
+  line: number;
+  column: number;
+}
+
+export class JsonParseError extends Error {
+  readonly line: number;
+  readonly column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(message);
+    this.name = 'JsonParseError';
+    this.line = line;
+    this.column = column;
+  }
+}
+
+export interface ParsedJson {
+  value: any;
+  // Location of every value, keyed by its dotted path ("" is the root, array items use their index)
+  locations: Map<string, JsonLocation>;
+}
+
+/**
+ * Parse JSON like JSON.parse, additionally recording the line and column of every
+ * value so that validation errors can point at the offending line.
+ */
+export function parseJsonWithLocations(text: string): ParsedJson {
+  const locations = new Map<string, JsonLocation>();
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') {
+      lineStarts.push(i + 1);
+    }
+  }
+
+  let pos = 0;
+
+  const locate = (index: number): JsonLocation => {
+    let line = 0;
+    while (line + 1 < lineStarts.length && lineStarts[line + 1] <= index) {
+      line++;
+    }
+    return { line: line + 1, column: index - lineStarts[line] + 1 };
+  };
+
+  const fail = (message: string, index = pos): never => {
+    const { line, column } = locate(index);
+    throw new JsonParseError(message, line, column);
+  };
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) {
+      pos++;
+    }
+  };
+
+  const describe = (index: number) =>
+    index >= text.length ? 'end of file' : `"${text[index]}"`;
+
+  const expect = (char: string) => {
+    skipWhitespace();
+    if (text[pos] !== char) {
+      fail(`Expected "${char}" but found ${describe(pos)}`);
+    }
+    pos++;
+  };
+
+  const parseString = (): string => {
+    const start = pos;
+    pos++; // opening quote
+    while (pos < text.length && text[pos] !== '"') {
+      if (text[pos] === '\n') {
+        fail('Unterminated string', start);
+      }
+      pos += text[pos] === '\\' ? 2 : 1;
+    }
+    if (pos >= text.length) {
+      fail('Unterminated string', start);
+    }
+    pos++; // closing quote
+    try {
+      return JSON.parse(text.slice(start, pos));
+    } catch {
+      return fail('Invalid escape sequence in string', start);
+    }
+  };
+
+  const parseValue = (path: string): any => {
+    skipWhitespace();
+    locations.set(path, locate(pos));
+    const char = text[pos];
+
+    if (char === '{') {
+      pos++;
+      const result: Record<string, any> = {};
+      skipWhitespace();
+      if (text[pos] === '}') {
+        pos++;
+        return result;
+      }
+      for (;;) {
+        skipWhitespace();
+        if (text[pos] !== '"') {
+          fail(`Expected a property name but found ${describe(pos)}`);
+        }
+        const key = parseString();
+        expect(':');
+        result[key] = parseValue(path ? `${path}.${key}` : key);
+        skipWhitespace();
+        if (text[pos] === ',') {
+          pos++;
+          continue;
+        }
+        if (text[pos] === '}') {
+          pos++;
+          return result;
+        }
+        fail(`Expected "," or "}" but found ${describe(pos)}`);
+      }
+    }
+
+    if (char === '[') {
+      pos++;
+      const result: any[] = [];
+      skipWhitespace();
+      if (text[pos] === ']') {
+        pos++;
+        return result;
+      }
+      for (;;) {
+        result.push(parseValue(path ? `${path}.${result.length}` : String(result.length)));
+        skipWhitespace();
+        if (text[pos] === ',') {
+          pos++;
+          continue;
+        }
+        if (text[pos] === ']') {
+          pos++;
+          return result;
+        }
+        fail(`Expected "," or "]" but found ${describe(pos)}`);
+      }
+    }
+
+    if (char === '"') {
+      return parseString();
+    }
+
+    const literal = /^(?:true|false|null|-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?)/.exec(
+      text.slice(pos)
+    );
+    if (!literal) {
+      return fail(`Unexpected ${describe(pos)}`);
+    }
+    pos += literal[0].length;
+    return JSON.parse(literal[0]);
+  };
+
+  const value = parseValue('');
+  skipWhitespace();
+  if (pos < text.length) {
+    fail(`Unexpected ${describe(pos)} after the end of the document`);
+  }
+
+  return { value, locations };
+}
@@ -0,0 +1,22 @@
+import chalk from 'chalk';
+
+export class Logger {
+  private verbose = false;
+
+  setVerbose(verbose: boolean): void {
+    this.verbose = verbose;
+  }
+
+  isVerbose(): boolean {
+    return this.verbose;
+  }
+
+  // Debug output goes to stderr so it never mixes with command output on stdout
+  debug(message: string): void {
+    if (this.verbose) {
+      console.error(chalk.gray(`[debug] ${message}`));
+    }
+  }
+}
+
+export const logger = new Logger();
@@ -0,0 +1,305 @@
+import chalk from 'chalk';
+import { CliError, ExitCode } from './errors';
+
+export const OUTPUT_FORMATS = ['table', 'json', 'ndjson', 'yaml', 'csv'] as const;
+
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+export interface Column {
+  header: string;
+  // Dotted path into the row, also the name accepted by --fields
+  key: string;
+  // Display value for table output; the machine-readable formats always get the raw value
+  format?: (value: any, row: any) => string;
+}
+
+export interface ListOutputOptions {
+  // Per-command -f/--format, takes precedence over the global --output
+  format?: string;
+  // Shown above the table, and instead of it when there are no rows
+  title?: string;
+  empty?: string;
+}
+
+export interface OutputSettings {
+  output?: string;
+  fields?: string;
+  query?: string;
+}
+
+type QuerySegment = { type: 'key'; key: string } | { type: 'index'; index: number } | { type: 'each' };
+
+export class OutputFormatter {
+  private format?: OutputFormat;
+  private fields?: string[];
+  private query?: QuerySegment[];
+
+  configure(settings: OutputSettings): void {
+    this.format = settings.output ? parseFormat(settings.output) : undefined;
+    this.fields = settings.fields
+      ? settings.fields.split(',').map((field) => field.trim()).filter(Boolean)
+      : undefined;
+    this.query = settings.query ? parseQuery(settings.query) : undefined;
+  }
+
+  getFormat(override?: string, fallback: OutputFormat = 'table'): OutputFormat {
+    return override ? parseFormat(override) : this.format || fallback;
+  }
+
+  /**
+   * Print a list of records in the selected format. Tables use the given columns unless
+   * --fields or --query reshape the data, in which case columns come from the data itself.
+   */
+  printList(rows: any[], columns: Column[], options: ListOutputOptions = {}): void {
+    const format = this.getFormat(options.format);
+    const decorated = format === 'table' && !this.query;
+
+    if (decorated && rows.length === 0 && options.empty) {
+      console.log(chalk.yellow(options.empty));
+      return;
+    }
+    if (decorated && options.title) {
+      console.log(chalk.blue(options.title));
+      console.log();
+    }
+
+    this.write(rows, format, columns);
+  }
+
+  /**
+   * Print a single value (usually an object) in the selected format.
+   */
+  print(value: unknown, format?: string): void {
+    this.write(value, this.getFormat(format), []);
+  }
+
+  private write(data: unknown, format: OutputFormat, columns: Column[]): void {
+    let value = this.query ? evaluateQuery(data, this.query) : data;
+    let selected = columns;
+
+    if (this.fields) {
+      const fields = this.fields;
+      value = Array.isArray(value) ? value.map((item) => pickFields(item, fields)) : pickFields(value, fields);
+      selected = fields.map(
+        (field) => columns.find((column) => column.key === field) || { header: field.toUpperCase(), key: field }
+      );
+    } else if (this.query) {
+      selected = inferColumns(value);
+    }
+
+    const lines = render(value, format, selected);
+    if (lines.length > 0) {
+      console.log(lines.join('\n'));
+    }
+  }
+}
+
+export const output = new OutputFormatter();
+
+function parseFormat(format: string): OutputFormat {
+  const normalized = format.toLowerCase();
+  if (!(OUTPUT_FORMATS as readonly string[]).includes(normalized)) {
+    throw new CliError(
+      `Unknown output format "${format}". Expected one of: ${OUTPUT_FORMATS.join(', ')}`,
+      ExitCode.Validation
+    );
+  }
+  return normalized as OutputFormat;
+}
+
+function render(value: unknown, format: OutputFormat, columns: Column[]): string[] {
+  switch (format) {
+    case 'json':
+      return [JSON.stringify(value, null, 2) ?? 'null'];
+    case 'ndjson':
+      return (Array.isArray(value) ? value : [value]).map((item) => JSON.stringify(item) ?? 'null');
+    case 'yaml':
+      return yamlLines(value);
+    case 'csv':
+      return renderCsv(value, columns);
+    case 'table':
+      return renderTable(value, columns);
+  }
+}
+
+function renderTable(value: unknown, columns: Column[]): string[] {
+  // Scalars and lists of scalars print one per line, like jq -r
+  if (!Array.isArray(value) || columns.length === 0) {
+    return (Array.isArray(value) ? value : [value]).map((item) => displayValue(item));
+  }
+
+  const headers = columns.map((column) => column.header);
+  const rows = value.map((row) => columns.map((column) => cellValue(row, column).replace(/\s*\n\s*/g, ' ')));
+  const widths = headers.map((header, index) =>
+    Math.max(header.length, ...rows.map((row) => row[index].length))
+  );
+
+  const line = (cells: string[]) =>
+    cells.map((cell, index) => (index === cells.length - 1 ? cell : cell.padEnd(widths[index]))).join('  ');
+
+  return [chalk.cyan(line(headers)), ...rows.map(line)];
+}
+
+function renderCsv(value: unknown, columns: Column[]): string[] {
+  if (!Array.isArray(value) || columns.length === 0) {
+    return (Array.isArray(value) ? value : [value]).map((item) => csvCell(displayValue(item)));
+  }
+
+  return [
+    columns.map((column) => csvCell(column.key)).join(','),
+    ...value.map((row) => columns.map((column) => csvCell(displayValue(lookup(row, column.key)))).join(','))
+  ];
+}
+
+function cellValue(row: any, column: Column): string {
+  const value = lookup(row, column.key);
+  return column.format ? column.format(value, row) : displayValue(value);
+}
+
+function displayValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function csvCell(value: string): string {
+  return /[",\r\n]/.test(value) || value.trim() !== value ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function inferColumns(value: unknown): Column[] {
+  if (!Array.isArray(value) || !value.some(isPlainObject)) {
+    return [];
+  }
+  const keys = new Set<string>();
+  value.filter(isPlainObject).forEach((row) => Object.keys(row).forEach((key) => keys.add(key)));
+  return Array.from(keys).map((key) => ({ header: key.toUpperCase(), key }));
+}
+
+function pickFields(value: unknown, fields: string[]): unknown {
+  if (!isPlainObject(value)) {
+    return value;
+  }
+  const picked: Record<string, unknown> = {};
+  for (const field of fields) {
+    picked[field] = lookup(value, field);
+  }
+  return picked;
+}
+
+function lookup(value: any, path: string): unknown {
+  return path.split('.').reduce((current, key) => (current == null ? undefined : current[key]), value);
+}
+
+/**
+ * Parse a jq-style path such as `.[0].name`, `[].id` or `.owner.address`.
+ * `[]` (or `[*]`) applies the rest of the path to every element of an array.
+ */
+function parseQuery(query: string): QuerySegment[] {
+  const segments: QuerySegment[] = [];
+  const pattern = /\.?([A-Za-z_$][\w$-]*)|\[(-?\d+|\*)?\]|\["((?:[^"\\]|\\.)*)"\]|\./y;
+  let pos = 0;
+
+  while (pos < query.length) {
+    pattern.lastIndex = pos;
+    const match = pattern.exec(query);
+    if (!match) {
+      throw new CliError(`Invalid --query expression "${query}" at position ${pos + 1}`, ExitCode.Validation);
+    }
+    pos = pattern.lastIndex;
+
+    if (match[1] !== undefined) {
+      segments.push({ type: 'key', key: match[1] });
+    } else if (match[3] !== undefined) {
+      segments.push({ type: 'key', key: JSON.parse(`"${match[3]}"`) });
+    } else if (match[0].startsWith('[')) {
+      segments.push(
+        match[2] === undefined || match[2] === '*'
+          ? { type: 'each' }
+          : { type: 'index', index: parseInt(match[2], 10) }
+      );
+    }
+    // A bare "." is the identity
+  }
+
+  return segments;
+}
+
+function evaluateQuery(value: any, segments: QuerySegment[]): any {
+  if (segments.length === 0) {
+    return value;
+  }
+
+  const [segment, ...rest] = segments;
+  if (segment.type === 'each') {
+    if (!Array.isArray(value)) {
+      throw new CliError('--query: "[]" can only be applied to a list', ExitCode.Validation);
+    }
+    return value.map((item) => evaluateQuery(item, rest));
+  }
+
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (segment.type === 'index') {
+    if (!Array.isArray(value)) {
+      return undefined;
+    }
+    return evaluateQuery(value[segment.index < 0 ? value.length + segment.index : segment.index], rest);
+  }
+  return evaluateQuery(value[segment.key], rest);
+}
+
+function yamlLines(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return ['[]'];
+    }
+    return value.flatMap((item) => {
+      const [first, ...rest] = yamlLines(item);
+      return [`- ${first}`, ...rest.map((line) => `  ${line}`)];
+    });
+  }
+
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+    if (entries.length === 0) {
+      return ['{}'];
+    }
+    return entries.flatMap(([key, item]) => {
+      const nested = yamlLines(item);
+      const isBlock = (Array.isArray(item) || isPlainObject(item)) && !['[]', '{}'].includes(nested[0]);
+      return isBlock
+        ? [`${yamlScalar(key)}:`, ...nested.map((line) => `  ${line}`)]
+        : [`${yamlScalar(key)}: ${nested[0]}`];
+    });
+  }
+
+  return [yamlScalar(value)];
+}
+
+function yamlScalar(value: unknown): string {
+  if (value === undefined || value === null) {
+    return 'null';
+  }
+  if (typeof value !== 'string') {
+    return String(value);
+  }
+
+  // Quote anything a YAML parser would read as something other than a plain string
+  const needsQuotes =
+    value === '' ||
+    value.trim() !== value ||
+    /^[-?:,[\]{}#&*!|>'"%@`]/.test(value) ||
+    /[\n\r\t]|: | #/.test(value) ||
+    value.endsWith(':') ||
+    /^\d{4}-\d{2}-\d{2}/.test(value) ||
+    /^(?:true|false|yes|no|on|off|null|~)$/i.test(value) ||
+    !isNaN(Number(value));
+
+  return needsQuotes ? JSON.stringify(value) : value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
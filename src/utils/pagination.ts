@@ -0,0 +1,47 @@
+export interface PageOptions {
+  // Items per request; the API's default when unset
+  pageSize?: number;
+  // Start after the page that returned this cursor
+  cursor?: string;
+}
+
+export interface Page<T> {
+  items: T[];
+  // Set when there are more items; pass it as `cursor` to fetch them
+  nextCursor?: string;
+}
+
+/**
+ * Fetch pages one at a time, starting at `cursor`, until a page comes back without a
+ * next cursor. Stop iterating early to leave the remaining pages unfetched.
+ */
+export async function* paginate<T>(
+  fetchPage: (cursor: string | undefined) => Promise<Page<T>>,
+  cursor?: string
+): AsyncGenerator<Page<T>> {
+  let next = cursor;
+  do {
+    const page = await fetchPage(next);
+    yield page;
+    // A cursor that does not move would loop forever
+    next = page.nextCursor && page.nextCursor !== next ? page.nextCursor : undefined;
+  } while (next);
+}
+
+/**
+ * The page in a list response, whose items are under `key`, e.g. { builds: [...], nextCursor }.
+ */
+export function pageOf<T>(data: any, key: string): Page<T> {
+  return { items: data?.[key] || [], nextCursor: data?.nextCursor || undefined };
+}
+
+/**
+ * Every item of every page.
+ */
+export async function allItems<T>(pages: AsyncIterable<Page<T>>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const page of pages) {
+    items.push(...page.items);
+  }
+  return items;
+}
@@ -0,0 +1,138 @@
+import inquirer from 'inquirer';
+import { CancelledError, InputRequiredError } from './errors';
+
+export interface PromptQuestion {
+  type: string;
+  name: string;
+  message: string;
+  // Option that supplies this value, e.g. "--name <name>". Questions with a flag and no
+  // default are required: without a terminal they fail instead of being skipped.
+  flag?: string;
+  when?: boolean | ((answers: Record<string, any>) => boolean);
+  default?: any;
+  choices?: any[];
+  validate?: (input: any, answers?: Record<string, any>) => boolean | string | Promise<boolean | string>;
+  [key: string]: any;
+}
+
+export interface PromptSettings {
+  input?: boolean;
+  yes?: boolean;
+}
+
+// Answers questions in place of the terminal, e.g. scripted answers in tests
+export type PromptHandler = (questions: PromptQuestion[]) => Promise<Record<string, any>>;
+
+export class Prompter {
+  private input = true;
+  private assumeYes = false;
+  private handler?: PromptHandler;
+
+  configure(settings: PromptSettings): void {
+    this.input = settings.input !== false;
+    this.assumeYes = !!settings.yes;
+  }
+
+  /**
+   * Send questions to `handler` instead of inquirer. Prompts count as interactive
+   * while a handler is set, even under CI. Pass undefined to restore the terminal.
+   */
+  useHandler(handler: PromptHandler | undefined): void {
+    this.handler = handler;
+  }
+
+  isInteractive(): boolean {
+    return this.input && (!!this.handler || !isCI());
+  }
+
+  /**
+   * inquirer.prompt that never blocks in non-interactive mode: questions resolve to
+   * their default, or the first choice of a list, and required questions throw.
+   */
+  async prompt<T = Record<string, any>>(questions: PromptQuestion[]): Promise<T> {
+    if (this.isInteractive()) {
+      const plain = questions.map((question) => {
+        const copy = { ...question };
+        delete copy.flag;
+        return copy;
+      });
+      return ask(() => this.inquire(plain) as Promise<T>);
+    }
+
+    const answers: Record<string, any> = {};
+    for (const question of questions) {
+      const asked = typeof question.when === 'function' ? question.when(answers) : question.when !== false;
+      if (!asked) {
+        continue;
+      }
+
+      const defaultValue = typeof question.default === 'function' ? question.default(answers) : question.default;
+      if (defaultValue !== undefined) {
+        answers[question.name] = defaultValue;
+      } else if (question.flag) {
+        throw new InputRequiredError(`Missing value for "${describe(question.message)}"`, question.flag);
+      } else if (question.type === 'list' && question.choices && question.choices.length > 0) {
+        const [first] = question.choices;
+        answers[question.name] = first && typeof first === 'object' ? first.value : first;
+      } else if (question.type === 'confirm') {
+        answers[question.name] = false;
+      }
+    }
+    return answers as T;
+  }
+
+  /**
+   * Ask a yes/no question, typically before a destructive action. --yes answers it
+   * without prompting; without a terminal it fails unless --yes was passed.
+   */
+  async confirm(message: string): Promise<boolean> {
+    if (this.assumeYes) {
+      return true;
+    }
+    if (!this.isInteractive()) {
+      throw new InputRequiredError(`Confirmation required: ${message}`, '--yes');
+    }
+
+    const { confirm } = await ask(() =>
+      this.inquire([
+        {
+          type: 'confirm',
+          name: 'confirm',
+          message,
+          default: false
+        }
+      ])
+    );
+    return confirm;
+  }
+
+  private inquire(questions: PromptQuestion[]): Promise<Record<string, any>> {
+    if (this.handler) {
+      return this.handler(questions);
+    }
+    return inquirer.prompt(questions as any);
+  }
+}
+
+export const prompter = new Prompter();
+
+// inquirer rejects with an ExitPromptError when the user presses Ctrl+C
+async function ask<T>(run: () => Promise<T>): Promise<T> {
+  try {
+    return await run();
+  } catch (error: any) {
+    if (error && error.name === 'ExitPromptError') {
+      throw new CancelledError();
+    }
+    throw error;
+  }
+}
+
+function isCI(): boolean {
+  const ci = process.env.CI;
+  return !!ci && !['0', 'false'].includes(ci.toLowerCase());
+}
+
+function describe(message: string): string {
+  return message.replace(/\s*\(.*\)\s*/g, ' ').replace(/[:?]\s*$/, '').trim();
+}
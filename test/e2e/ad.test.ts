@@ -0,0 +1,103 @@
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Harness, TEST_TOKEN, choiceValues } from './harness';
+import { ExitCode } from '../../src/utils/errors';
+
+describe('ad', () => {
+  let harness: Harness;
+
+  before(async () => {
+    harness = await Harness.start();
+    await harness.run(['auth', 'login', '--token', TEST_TOKEN]);
+  });
+
+  after(async () => {
+    await harness.stop();
+  });
+
+  it('creates a campaign from options', async () => {
+    const result = await harness.run(['ad', 'create', '--name', 'Launch', '--type', 'banner', '--budget', '100']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.calls, ['POST /v1/ads/campaigns']);
+    assert.equal(result.requests[0].body.name, 'Launch');
+    assert.equal(result.requests[0].body.type, 'banner');
+    assert.match(result.stdout, /Status: draft/);
+  });
+
+  it('asks for the campaign details', async () => {
+    const result = await harness.run(['ad', 'create'], {
+      answers: { name: 'Promo', type: 'rewarded', budget: 250, targetAudience: 'returning players', duration: 14 }
+    });
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    const type = result.questions.find((question) => question.name === 'type');
+    assert.deepEqual(choiceValues(type), ['banner', 'video', 'interstitial', 'rewarded']);
+    assert.deepEqual(result.requests[0].body, {
+      name: 'Promo',
+      type: 'rewarded',
+      budget: 250,
+      targetAudience: 'returning players',
+      duration: 14
+    });
+  });
+
+  it('rejects a budget of zero', async () => {
+    const result = await harness.run(['ad', 'create'], {
+      answers: { name: 'Free', type: 'banner', budget: 0, targetAudience: '', duration: 7 }
+    });
+
+    assert.equal(result.exitCode, ExitCode.GeneralError);
+    assert.match(result.stderr, /Budget must be greater than 0/);
+    assert.deepEqual(result.calls, []);
+  });
+
+  it('starts and pauses a campaign', async () => {
+    const campaign = harness.state.campaigns[0];
+
+    const start = await harness.run(['ad', 'start', campaign.id]);
+    assert.equal(start.exitCode, ExitCode.Success);
+    assert.deepEqual(start.calls, [`POST /v1/ads/campaigns/${campaign.id}/start`]);
+    assert.equal(harness.state.campaigns[0].status, 'active');
+
+    const pause = await harness.run(['ad', 'pause', campaign.id]);
+    assert.equal(pause.exitCode, ExitCode.Success);
+    assert.equal(harness.state.campaigns[0].status, 'paused');
+  });
+
+  it('filters campaigns by status', async () => {
+    const result = await harness.run(['ad', 'list', '--status', 'paused', '--format', 'json']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.equal(result.requests[0].query.status, 'paused');
+    assert.deepEqual(
+      JSON.parse(result.stdout).map((campaign: any) => campaign.name),
+      ['Launch']
+    );
+  });
+
+  it('shows campaign stats for a period', async () => {
+    const campaign = harness.state.campaigns[0];
+    const result = await harness.run(['ad', 'stats', campaign.id, '--period', 'day']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.equal(result.requests[0].query.period, 'day');
+  });
+
+  it('lists placements and revenue', async () => {
+    const placements = await harness.run(['ad', 'placements', '--list']);
+    assert.equal(placements.exitCode, ExitCode.Success);
+    assert.deepEqual(placements.calls, ['GET /v1/ads/placements']);
+
+    const revenue = await harness.run(['ad', 'revenue', '--period', 'week', '--game', 'game_1']);
+    assert.equal(revenue.exitCode, ExitCode.Success);
+    assert.deepEqual(revenue.requests[0].query, { period: 'week', gameId: 'game_1' });
+    assert.match(revenue.stdout, /Advertisement Revenue \(week\)/);
+  });
+
+  it('exits with NotFound for an unknown campaign', async () => {
+    const result = await harness.run(['ad', 'info', 'campaign_missing']);
+
+    assert.equal(result.exitCode, ExitCode.NotFound);
+  });
+});
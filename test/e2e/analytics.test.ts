@@ -0,0 +1,72 @@
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Harness, TEST_TOKEN } from './harness';
+import { ExitCode } from '../../src/utils/errors';
+
+describe('analytics', () => {
+  let harness: Harness;
+
+  before(async () => {
+    harness = await Harness.start();
+    await harness.run(['auth', 'login', '--token', TEST_TOKEN]);
+  });
+
+  after(async () => {
+    await harness.stop();
+  });
+
+  it('requires a login', async () => {
+    await harness.run(['auth', 'logout']);
+    try {
+      const result = await harness.run(['analytics', 'overview']);
+
+      assert.equal(result.exitCode, ExitCode.Unauthenticated);
+      assert.deepEqual(result.calls, []);
+    } finally {
+      await harness.run(['auth', 'login', '--token', TEST_TOKEN]);
+    }
+  });
+
+  it('shows an overview for the period and game', async () => {
+    const result = await harness.run(['analytics', 'overview', '--period', 'month', '--game', 'game_1']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.calls, ['GET /v1/analytics/overview']);
+    assert.deepEqual(result.requests[0].query, { period: 'month', gameId: 'game_1' });
+    assert.match(result.stdout, /Analytics Overview \(month\)/);
+    assert.match(result.stdout, /Total Active Users: 12,500/);
+  });
+
+  it('shows player, revenue and retention reports with their default periods', async () => {
+    const players = await harness.run(['analytics', 'players']);
+    assert.equal(players.exitCode, ExitCode.Success);
+    assert.equal(players.requests[0].query.period, 'week');
+    assert.match(players.stdout, /Player Analytics/);
+
+    const revenue = await harness.run(['analytics', 'revenue']);
+    assert.equal(revenue.exitCode, ExitCode.Success);
+    assert.equal(revenue.requests[0].query.period, 'month');
+    assert.match(revenue.stdout, /ARPU/);
+
+    const retention = await harness.run(['analytics', 'retention']);
+    assert.equal(retention.exitCode, ExitCode.Success);
+    assert.match(retention.stdout, /Day 1: 45.2%/);
+  });
+
+  it('filters events by type', async () => {
+    const result = await harness.run(['analytics', 'events', '--event', 'level_complete']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.equal(result.requests[0].query.eventType, 'level_complete');
+    assert.match(result.stdout, /Event: level_complete/);
+  });
+
+  it('exports data', async () => {
+    const result = await harness.run(['analytics', 'export', '--type', 'revenue', '--format', 'json', '--period', 'week']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.calls, ['POST /v1/analytics/export']);
+    assert.deepEqual(result.requests[0].body, { type: 'revenue', format: 'json', period: 'week' });
+    assert.match(result.stdout, /File: revenue-week\.json/);
+  });
+});
@@ -0,0 +1,185 @@
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Harness, TEST_TOKEN } from './harness';
+import { ExitCode } from '../../src/utils/errors';
+
+describe('api', () => {
+  let harness: Harness;
+  let gameId: string;
+
+  before(async () => {
+    harness = await Harness.start();
+    gameId = await harness.setUp();
+  });
+
+  after(async () => {
+    await harness.stop();
+  });
+
+  it('requires a login', async () => {
+    await harness.run(['auth', 'logout']);
+    try {
+      const result = await harness.run(['api', 'get', '/v1/games']);
+
+      assert.equal(result.exitCode, ExitCode.Unauthenticated);
+    } finally {
+      await harness.run(['auth', 'login', '--token', TEST_TOKEN]);
+    }
+  });
+
+  it('prints the response as pretty JSON', async () => {
+    const result = await harness.run(['api', 'get', `/v1/games/${gameId}`]);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.calls, [`GET /v1/games/${gameId}`]);
+    assert.match(result.stdout, /^{\n {2}"id": "game_\d+",\n/);
+    assert.equal(JSON.parse(result.stdout).name, 'E2E Game');
+  });
+
+  it('sends fields in the query string of GET requests', async () => {
+    const result = await harness.run(['api', 'GET', 'v1/analytics/overview', '-f', 'period=month', '-f', `gameId=${gameId}`]);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.calls, ['GET /v1/analytics/overview']);
+    assert.deepEqual(result.requests[0].query, { period: 'month', gameId });
+  });
+
+  it('sends fields as a JSON body, with nesting, arrays and typed values', async () => {
+    const result = await harness.run([
+      'api', 'post', '/v1/analytics/dashboards',
+      '-f', 'name=Launch',
+      '-f', 'widgets[][type]=retention',
+      '-F', 'widgets[][size]=2',
+      '-F', 'shared=false'
+    ]);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.requests[0].body, {
+      name: 'Launch',
+      widgets: [{ type: 'retention' }, { size: 2 }],
+      shared: false
+    });
+    assert.equal(harness.state.dashboards[harness.state.dashboards.length - 1].name, 'Launch');
+  });
+
+  it('sends the body from --input and fields as query parameters', async () => {
+    const file = path.join(harness.projectDir, 'dashboard.json');
+    fs.writeFileSync(file, JSON.stringify({ name: 'From file', widgets: [{ type: 'revenue' }] }));
+
+    const result = await harness.run(['api', 'post', '/v1/analytics/dashboards', '--input', 'dashboard.json', '-f', 'dryRun=1']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.requests[0].body, { name: 'From file', widgets: [{ type: 'revenue' }] });
+    assert.deepEqual(result.requests[0].query, { dryRun: '1' });
+  });
+
+  it('points at the line of invalid --input JSON', async () => {
+    fs.writeFileSync(path.join(harness.projectDir, 'broken.json'), '{\n  "name": "x",\n}\n');
+
+    const result = await harness.run(['api', 'post', '/v1/analytics/dashboards', '--input', 'broken.json']);
+
+    assert.equal(result.exitCode, ExitCode.Validation);
+    assert.deepEqual(result.calls, []);
+    assert.match(result.stderr, /Invalid JSON in broken\.json at line 3/);
+  });
+
+  it('expands {gameId} to the current project', async () => {
+    const result = await harness.run(['api', 'get', '/v1/games/{gameId}/builds']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.calls, [`GET /v1/games/${gameId}/builds`]);
+  });
+
+  it('prints the status and headers with --include', async () => {
+    const result = await harness.run(['api', 'get', '/v1/user/me', '--include']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.match(result.stdout, /^HTTP 200\n/);
+    assert.match(result.stdout, /^content-type: application\/json/m);
+  });
+
+  it('applies --output, --fields and --query to the response', async () => {
+    const result = await harness.run(['api', 'get', '/v1/games', '--paginate', '--query', 'games[].id']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(JSON.parse(result.stdout), [gameId]);
+
+    const yaml = await harness.run(['api', 'get', `/v1/games/${gameId}`, '-o', 'yaml', '--fields', 'name']);
+    assert.equal(yaml.stdout, 'name: E2E Game\n');
+  });
+
+  it('stops paginating when the cursor or next link repeats', async () => {
+    harness.respondWith('GET', '/v1/games', { status: 200, body: { games: [{ id: 'game_a' }], nextCursor: 'stuck' } }, 2);
+    const cursor = await harness.run(['api', 'get', '/v1/games', '--paginate']);
+
+    assert.equal(cursor.exitCode, ExitCode.Success);
+    assert.deepEqual(cursor.requests.map((request) => request.query), [{}, { cursor: 'stuck' }]);
+
+    harness.respondWith(
+      'GET',
+      '/v1/games',
+      { status: 200, headers: { Link: '</v1/games?page=2>; rel="next"' }, body: { games: [] } },
+      2
+    );
+    const link = await harness.run(['api', 'get', '/v1/games', '--paginate']);
+
+    assert.equal(link.exitCode, ExitCode.Success);
+    assert.deepEqual(link.requests.map((request) => request.query), [{}, { page: '2' }]);
+  });
+
+  it('follows next links under a base URL with a path', async () => {
+    const env = { GAMEBUILD_BASE_URL: `${process.env.GAMEBUILD_BASE_URL}/api` };
+    harness.respondWith('GET', '/api/v1/games', {
+      status: 200,
+      headers: { Link: '</api/v1/games?page=2>; rel="next"' },
+      body: { games: [{ id: 'game_a' }] }
+    });
+    harness.respondWith('GET', '/api/v1/games', { status: 200, body: { games: [{ id: 'game_b' }] } });
+
+    const result = await harness.run(['api', 'get', '/v1/games', '--paginate', '--query', 'games[].id'], { env });
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.requests.map((request) => `${request.path} ${JSON.stringify(request.query)}`), [
+      '/api/v1/games {}',
+      '/api/v1/games {"page":"2"}'
+    ]);
+    assert.deepEqual(JSON.parse(result.stdout), ['game_a', 'game_b']);
+  });
+
+  it('does not follow next links to another host', async () => {
+    harness.respondWith('GET', '/v1/games', {
+      status: 200,
+      headers: { Link: '<https://elsewhere.example/v1/games?page=2>; rel="next"' },
+      body: { games: [] }
+    });
+
+    const result = await harness.run(['api', 'get', '/v1/games', '--paginate']);
+
+    assert.equal(result.exitCode, ExitCode.RemoteFailure);
+    assert.match(result.stderr, /points outside the API/);
+    assert.deepEqual(result.calls, ['GET /v1/games']);
+  });
+
+  it('exits with the code matching the API error', async () => {
+    const result = await harness.run(['api', 'get', '/v1/games/game_missing']);
+
+    assert.equal(result.exitCode, ExitCode.NotFound);
+    assert.match(result.stderr, /GET \/v1\/games\/game_missing failed: Game not found/);
+  });
+
+  it('rejects unknown methods, absolute URLs and paginated writes before sending anything', async () => {
+    for (const args of [
+      ['api', 'fetch', '/v1/games'],
+      ['api', 'get', 'https://example.com/v1/games'],
+      ['api', 'post', '/v1/games', '--paginate'],
+      ['api', 'post', '/v1/games', '-f', 'name']
+    ]) {
+      const result = await harness.run(args);
+
+      assert.equal(result.exitCode, ExitCode.Validation, args.join(' '));
+      assert.deepEqual(result.calls, []);
+    }
+  });
+});
@@ -0,0 +1,116 @@
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as path from 'path';
+import { Harness, TEST_TOKEN } from './harness';
+import { ExitCode } from '../../src/utils/errors';
+
+const RECIPIENT = '0x00000000000000000000000000000000000000b2';
+
+describe('asset', () => {
+  let harness: Harness;
+
+  before(async () => {
+    harness = await Harness.start();
+    await harness.run(['auth', 'login', '--token', TEST_TOKEN]);
+    harness.state.assets.push({
+      id: 'asset_seed',
+      name: 'Golden Sword',
+      description: 'Shiny',
+      tokenId: '1',
+      owner: '0x00000000000000000000000000000000000000a1',
+      ipfsUrl: 'https://ipfs.io/ipfs/seed'
+    });
+  });
+
+  after(async () => {
+    await harness.stop();
+  });
+
+  it('lists and shows assets', async () => {
+    const list = await harness.run(['asset', 'list']);
+    assert.equal(list.exitCode, ExitCode.Success);
+    assert.match(list.stdout, /Golden Sword/);
+
+    const info = await harness.run(['asset', 'info', 'asset_seed']);
+    assert.equal(info.exitCode, ExitCode.Success);
+    assert.deepEqual(info.calls, ['GET /v1/assets/asset_seed']);
+  });
+
+  it('transfers an asset', async () => {
+    const result = await harness.run(['asset', 'transfer', 'asset_seed', RECIPIENT]);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.requests[0].body, { toAddress: RECIPIENT });
+    assert.equal(harness.state.assets[0].owner, RECIPIENT);
+  });
+
+  it('fails to mint before uploading when the file is missing', async () => {
+    const result = await harness.run(['asset', 'mint'], {
+      answers: { name: 'Shield', description: '', file: path.join(harness.home, 'missing.png') }
+    });
+
+    assert.equal(result.exitCode, ExitCode.GeneralError);
+    assert.match(result.stderr, /ENOENT/);
+    assert.deepEqual(result.calls, []);
+  });
+
+  it('issues an ERC20 token from prompted values', async () => {
+    const result = await harness.run(['asset', 'issue-erc20', '--decimals', '6'], {
+      answers: { name: 'Gold', symbol: 'GLD', totalSupply: '1000000' }
+    });
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.calls, ['POST /v1/tokens/erc20/issue']);
+    assert.deepEqual(result.requests[0].body, { name: 'Gold', symbol: 'GLD', decimals: 6, totalSupply: '1000000' });
+  });
+
+  it('issues an ERC721 collection and mints into it', async () => {
+    const issue = await harness.run(['asset', 'issue-erc721', '--name', 'Swords', '--symbol', 'SWD', '--base-uri', 'ipfs://swords/']);
+    assert.equal(issue.exitCode, ExitCode.Success);
+    const collection = harness.state.erc721Collections[0];
+
+    const mint = await harness.run(['asset', 'mint-erc721', collection.contractAddress], {
+      answers: { toAddress: RECIPIENT, metadataUri: 'ipfs://swords/1' }
+    });
+    assert.equal(mint.exitCode, ExitCode.Success);
+    assert.deepEqual(mint.requests[0].body, {
+      contractAddress: collection.contractAddress,
+      toAddress: RECIPIENT,
+      metadataUri: 'ipfs://swords/1'
+    });
+    assert.match(mint.stdout, /Token ID: 1/);
+  });
+
+  it('rejects an invalid recipient address', async () => {
+    const collection = harness.state.erc721Collections[0];
+    const result = await harness.run(['asset', 'mint-erc721', collection.contractAddress], {
+      answers: { toAddress: 'not-an-address', metadataUri: '' }
+    });
+
+    assert.equal(result.exitCode, ExitCode.GeneralError);
+    assert.match(result.stderr, /valid Ethereum address/);
+    assert.deepEqual(result.calls, []);
+  });
+
+  it('lists tokens and collections as JSON', async () => {
+    const tokens = await harness.run(['asset', 'list-erc20', '--format', 'json']);
+    assert.deepEqual(
+      JSON.parse(tokens.stdout).map((token: any) => token.symbol),
+      ['GLD']
+    );
+
+    const collections = await harness.run(['asset', 'list-erc721', '--format', 'json']);
+    assert.deepEqual(
+      JSON.parse(collections.stdout).map((collection: any) => collection.symbol),
+      ['SWD']
+    );
+  });
+
+  it('burns an asset', async () => {
+    const result = await harness.run(['asset', 'burn', 'asset_seed']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.calls, ['POST /v1/assets/asset_seed/burn']);
+    assert.equal(harness.state.assets.length, 0);
+  });
+});
@@ -0,0 +1,349 @@
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ethers } from 'ethers';
+import { Harness, TEST_TOKEN } from './harness';
+import { CREDENTIALS_FILE, KEY_FILE } from '../../src/services/credentials';
+import { ExitCode } from '../../src/utils/errors';
+
+describe('auth', () => {
+  let harness: Harness;
+
+  before(async () => {
+    harness = await Harness.start();
+  });
+
+  after(async () => {
+    await harness.stop();
+  });
+
+  it('requires a login before calling the API', async () => {
+    const result = await harness.run(['auth', 'status']);
+
+    assert.equal(result.exitCode, ExitCode.Unauthenticated);
+    assert.deepEqual(result.calls, []);
+  });
+
+  it('logs in with a token', async () => {
+    const result = await harness.run(['auth', 'login', '--token', TEST_TOKEN]);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.calls, ['GET /v1/user/me']);
+    assert.match(result.stdout, /Successfully authenticated/);
+    assert.match(result.stdout, /Account: mock-developer/);
+  });
+
+  it('encrypts the token with a random key kept next to the store', async () => {
+    const dir = path.join(harness.home, '.gamebuild');
+    const store = fs.readFileSync(path.join(dir, CREDENTIALS_FILE), 'utf8');
+
+    assert.equal(JSON.parse(store).keySource, 'file');
+    assert.ok(!store.includes(TEST_TOKEN));
+    assert.ok(!fs.readFileSync(path.join(dir, 'config.json'), 'utf8').includes(TEST_TOKEN));
+    assert.equal(fs.statSync(path.join(dir, KEY_FILE)).mode & 0o777, 0o600);
+  });
+
+  it('asks for the token when it is not passed', async () => {
+    const result = await harness.run(['auth', 'login'], { answers: { token: TEST_TOKEN } });
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(
+      result.questions.map((question) => question.name),
+      ['token', 'baseUrl']
+    );
+  });
+
+  it('shows the account and plan limits', async () => {
+    const result = await harness.run(['auth', 'status']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.match(result.stdout, /User: mock-developer/);
+    assert.match(result.stdout, /Plan: Pro/);
+    assert.match(result.stdout, /Concurrent builds: 5/);
+  });
+
+  it('creates a scoped access token', async () => {
+    const result = await harness.run(['auth', 'tokens', 'create', '--description', 'CI', '--scopes', 'builds:write', '--expires-in', '30d']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    const request = result.requests.find((entry) => entry.method === 'POST' && entry.path === '/v1/user/tokens');
+    assert.ok(request);
+    assert.equal(request.body.description, 'CI');
+    assert.deepEqual(request.body.scopes, ['builds:write']);
+  });
+
+  it('rejects unknown scopes without calling the API', async () => {
+    const result = await harness.run(['auth', 'tokens', 'create', '--description', 'CI', '--scopes', 'everything']);
+
+    assert.equal(result.exitCode, ExitCode.Validation);
+    assert.deepEqual(result.calls, []);
+  });
+
+  it('needs --force to revoke a token without a terminal', async () => {
+    const token = harness.state.tokens[0];
+    const result = await harness.run(['auth', 'tokens', 'revoke', token.id]);
+
+    assert.equal(result.exitCode, ExitCode.Validation);
+    assert.match(result.stderr, /Pass --yes instead/);
+    assert.deepEqual(result.calls, []);
+  });
+
+  it('revokes a token after confirmation', async () => {
+    const token = harness.state.tokens[0];
+    const result = await harness.run(['auth', 'tokens', 'revoke', token.id], { answers: { confirm: true } });
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.calls, [`DELETE /v1/user/tokens/${token.id}`]);
+    assert.equal(harness.state.tokens.length, 0);
+  });
+
+  it('names the private key options when a wallet login cannot prompt', async () => {
+    const result = await harness.run(['auth', 'login', '--wallet']);
+
+    assert.equal(result.exitCode, ExitCode.Validation);
+    assert.match(result.stderr, /GAMEBUILD_PRIVATE_KEY, or pass --private-key <key>/);
+    assert.deepEqual(result.calls, []);
+  });
+
+  it('logs out', async () => {
+    const logout = await harness.run(['auth', 'logout']);
+    assert.equal(logout.exitCode, 0);
+
+    const status = await harness.run(['auth', 'status']);
+    assert.equal(status.exitCode, ExitCode.Unauthenticated);
+  });
+});
+
+describe('auth sessions', () => {
+  let harness: Harness;
+
+  before(async () => {
+    harness = await Harness.start();
+  });
+
+  after(async () => {
+    await harness.stop();
+  });
+
+  // Expire the mock's only session while the CLI still thinks it is valid
+  const expireSession = () => {
+    const [session] = harness.state.sessions;
+    session.expiresAt = new Date(Date.now() - 1000).toISOString();
+    return session;
+  };
+
+  it('logs in with a device code', async () => {
+    const result = await harness.run(['auth', 'login', '--device']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.calls, ['POST /v1/oauth/device/code', 'POST /v1/oauth/token', 'GET /v1/user/me']);
+    assert.match(result.stdout, /enter the code:\s+[0-9A-F]{4}-[0-9A-F]{4}/);
+    assert.equal(result.requests[1].body.grant_type, 'urn:ietf:params:oauth:grant-type:device_code');
+    assert.equal(harness.state.sessions.length, 1);
+  });
+
+  it('refreshes the session when the API rejects the access token', async () => {
+    const { refreshToken } = expireSession();
+
+    const result = await harness.run(['game', 'list']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.calls, ['GET /v1/games', 'POST /v1/oauth/token', 'GET /v1/games']);
+    assert.equal(result.requests[0].status, 401);
+    assert.equal(result.requests[1].body.grant_type, 'refresh_token');
+    assert.equal(result.requests[1].body.refresh_token, refreshToken);
+    assert.notEqual(harness.state.sessions[0].refreshToken, refreshToken);
+  });
+
+  it('refreshes the session for auth status', async () => {
+    expireSession();
+
+    const result = await harness.run(['auth', 'status']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.calls.slice(0, 3), ['GET /v1/user/me', 'POST /v1/oauth/token', 'GET /v1/user/me']);
+    assert.match(result.stdout, /User: mock-developer/);
+  });
+
+  it('asks for a new login once the refresh token is rejected', async () => {
+    expireSession().refreshToken = 'revoked';
+
+    const result = await harness.run(['game', 'list']);
+
+    assert.equal(result.exitCode, ExitCode.Unauthenticated);
+    assert.deepEqual(result.calls, ['GET /v1/games', 'POST /v1/oauth/token']);
+    assert.match(result.stderr, /auth login/);
+  });
+
+  it('uses GAMEBUILD_TOKEN as is, whatever the state of the stored session', async () => {
+    const env = { GAMEBUILD_TOKEN: TEST_TOKEN };
+    await harness.run(['config', 'set', 'auth.expiresAt', String(Date.now() - 1000)]);
+
+    const refreshable = await harness.run(['auth', 'token', '--show'], { env });
+    assert.equal(refreshable.exitCode, ExitCode.Success);
+    assert.equal(refreshable.stdout.trim(), TEST_TOKEN);
+    assert.deepEqual(refreshable.calls, []);
+
+    const list = await harness.run(['game', 'list'], { env });
+    assert.equal(list.exitCode, ExitCode.Success);
+    assert.deepEqual(list.calls, ['GET /v1/games']);
+
+    await harness.run(['config', 'delete', 'auth.refreshToken', '--force']);
+    const expired = await harness.run(['auth', 'token', '--show'], { env });
+    assert.equal(expired.exitCode, ExitCode.Success);
+    assert.equal(expired.stdout.trim(), TEST_TOKEN);
+
+    const stored = await harness.run(['auth', 'token', '--show']);
+    assert.equal(stored.exitCode, ExitCode.Unauthenticated);
+    assert.match(stored.stderr, /session has expired/);
+  });
+
+  it('logs in in the browser', async () => {
+    // Stands in for the user's browser: follows the authorize redirect back to the CLI
+    const bin = path.join(harness.home, 'bin');
+    fs.mkdirSync(bin);
+    for (const name of ['xdg-open', 'open']) {
+      fs.writeFileSync(
+        path.join(bin, name),
+        `#!${process.execPath}\nfetch(process.argv[2]).catch(() => process.exit(1));\n`,
+        { mode: 0o755 }
+      );
+    }
+
+    const result = await harness.run(['auth', 'login', '--web'], {
+      env: { PATH: `${bin}${path.delimiter}${process.env.PATH}` }
+    });
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.calls, ['GET /v1/oauth/authorize', 'POST /v1/oauth/token', 'GET /v1/user/me']);
+    assert.equal(result.requests[0].query.code_challenge_method, 'S256');
+    assert.equal(result.requests[1].body.grant_type, 'authorization_code');
+    assert.equal(result.requests[1].status, 200);
+    assert.match(result.stdout, /Opened your browser/);
+  });
+
+  it('signs in with an Ethereum wallet', async () => {
+    const wallet = ethers.Wallet.createRandom();
+
+    const result = await harness.run(['auth', 'login', '--wallet'], { env: { GAMEBUILD_PRIVATE_KEY: wallet.privateKey } });
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.calls, ['GET /v1/auth/siwe/nonce', 'POST /v1/auth/siwe/verify', 'GET /v1/user/me']);
+    assert.equal(result.requests[0].query.address, wallet.address);
+    assert.match(result.stdout, new RegExp(`Wallet: ${wallet.address}`));
+  });
+
+  it('keeps the store encrypted with a passphrase when one is set', async () => {
+    const env = { GAMEBUILD_PASSPHRASE: 'correct horse battery staple' };
+    const login = await harness.run(['auth', 'login', '--token', TEST_TOKEN], { env });
+    assert.equal(login.exitCode, ExitCode.Success);
+
+    const store = JSON.parse(fs.readFileSync(path.join(harness.home, '.gamebuild', CREDENTIALS_FILE), 'utf8'));
+    assert.equal(store.keySource, 'passphrase');
+
+    const locked = await harness.run(['auth', 'status']);
+    assert.equal(locked.exitCode, ExitCode.Unauthenticated);
+    assert.match(locked.stderr, /Set GAMEBUILD_PASSPHRASE to unlock it/);
+
+    const wrong = await harness.run(['auth', 'status'], { env: { GAMEBUILD_PASSPHRASE: 'wrong' } });
+    assert.equal(wrong.exitCode, ExitCode.Unauthenticated);
+    assert.match(wrong.stderr, /Could not decrypt the credential store/);
+
+    const unlocked = await harness.run(['auth', 'status'], { env });
+    assert.equal(unlocked.exitCode, ExitCode.Success);
+  });
+
+  it('reports a missing key file instead of losing the session silently', async () => {
+    const dir = path.join(harness.home, '.gamebuild');
+    await harness.run(['auth', 'logout'], { env: { GAMEBUILD_PASSPHRASE: 'correct horse battery staple' } });
+    await harness.run(['auth', 'login', '--token', TEST_TOKEN]);
+    fs.rmSync(path.join(dir, KEY_FILE));
+
+    const result = await harness.run(['auth', 'status']);
+
+    assert.notEqual(result.exitCode, ExitCode.Success);
+    assert.match(result.stderr, /credentials\.key is missing/);
+    assert.match(result.stderr, /Run "gamebuild auth login" or "gamebuild config reset"/);
+  });
+
+  it('replaces an unreadable store when logging in again', async () => {
+    const login = await harness.run(['auth', 'login', '--token', TEST_TOKEN]);
+
+    assert.equal(login.exitCode, ExitCode.Success);
+    assert.match(login.stderr, /credentials\.key is missing\. Replacing the credential store/);
+    assert.equal((await harness.run(['auth', 'status'])).exitCode, ExitCode.Success);
+  });
+
+  it('keeps a store locked with another passphrase when logging in', async () => {
+    await harness.run(['auth', 'login', '--token', 'locked-token'], { env: { GAMEBUILD_PASSPHRASE: 'first' } });
+
+    const login = await harness.run(['auth', 'login', '--token', TEST_TOKEN], { env: { GAMEBUILD_PASSPHRASE: 'second' } });
+
+    assert.equal(login.exitCode, ExitCode.Unauthenticated);
+    assert.match(login.stderr, /Could not decrypt the credential store/);
+  });
+
+  it('replaces an unreadable store on config reset', async () => {
+    const store = path.join(harness.home, '.gamebuild', CREDENTIALS_FILE);
+    fs.writeFileSync(store, 'not json');
+
+    const reset = await harness.run(['config', 'reset', '--force']);
+
+    assert.equal(reset.exitCode, ExitCode.Success);
+    assert.match(reset.stderr, /The credential store is corrupted\. Replacing the credential store/);
+    assert.ok(!fs.existsSync(store));
+  });
+});
+
+describe('auth accounts', () => {
+  let harness: Harness;
+
+  before(async () => {
+    harness = await Harness.start();
+  });
+
+  after(async () => {
+    await harness.stop();
+  });
+
+  it('keeps a session per account', async () => {
+    await harness.run(['auth', 'login', '--token', TEST_TOKEN]);
+    const login = await harness.run(['--account', 'ci', 'auth', 'login', '--token', 'ci-token']);
+    assert.equal(login.exitCode, ExitCode.Success);
+    assert.match(login.stdout, /Account: ci/);
+
+    const list = await harness.run(['auth', 'accounts', 'list', '--format', 'json']);
+    assert.deepEqual(
+      JSON.parse(list.stdout).map((account: any) => account.name).sort(),
+      ['ci', 'mock-developer']
+    );
+  });
+
+  it('uses the token of the selected account', async () => {
+    const ci = await harness.run(['--account', 'ci', 'auth', 'token', '--show']);
+    assert.equal(ci.stdout.trim(), 'ci-token');
+
+    const env = await harness.run(['auth', 'token', '--show'], { env: { GAMEBUILD_ACCOUNT: 'mock-developer' } });
+    assert.equal(env.stdout.trim(), TEST_TOKEN);
+  });
+
+  it('switches the active account', async () => {
+    const use = await harness.run(['auth', 'accounts', 'use', 'mock-developer']);
+    assert.equal(use.exitCode, ExitCode.Success);
+
+    const token = await harness.run(['auth', 'token', '--show']);
+    assert.equal(token.stdout.trim(), TEST_TOKEN);
+  });
+
+  it('removes an account and its session', async () => {
+    const remove = await harness.run(['auth', 'accounts', 'remove', 'ci', '--force']);
+    assert.equal(remove.exitCode, ExitCode.Success);
+
+    const list = await harness.run(['auth', 'accounts', 'list', '--format', 'json']);
+    assert.deepEqual(JSON.parse(list.stdout).map((account: any) => account.name), ['mock-developer']);
+
+    const token = await harness.run(['--account', 'ci', 'auth', 'token', '--show']);
+    assert.equal(token.exitCode, ExitCode.Unauthenticated);
+  });
+});
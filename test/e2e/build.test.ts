@@ -0,0 +1,115 @@
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Harness } from './harness';
+import { ExitCode } from '../../src/utils/errors';
+
+describe('build', () => {
+  let harness: Harness;
+  let gameId: string;
+
+  before(async () => {
+    harness = await Harness.start();
+    gameId = await harness.setUp();
+  });
+
+  after(async () => {
+    await harness.stop();
+  });
+
+  it('starts a build of the linked game', async () => {
+    const result = await harness.run(['build', 'start', '--env', 'staging', '--platform', 'web']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.calls, ['POST /v1/builds']);
+    assert.deepEqual(result.requests[0].body, { gameId, environment: 'staging', platform: 'web' });
+    assert.match(result.stdout, /Build started/);
+  });
+
+  it('starts a build when run without a subcommand', async () => {
+    const result = await harness.run(['build']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.calls, ['POST /v1/builds']);
+    assert.equal(result.requests[0].body.environment, 'dev');
+  });
+
+  it('needs a linked project', async () => {
+    const result = await harness.run(['build', 'start'], { cwd: harness.home });
+
+    assert.equal(result.exitCode, ExitCode.NotFound);
+    assert.match(result.stderr, /No GameBuild project found/);
+    assert.deepEqual(result.calls, []);
+  });
+
+  it('shows the latest build', async () => {
+    const latest = harness.state.builds[harness.state.builds.length - 1];
+    const result = await harness.run(['build', 'status']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.calls, [`GET /v1/games/${gameId}/builds`]);
+    assert.match(result.stdout, new RegExp(`Build ID: ${latest.id}`));
+    assert.match(result.stdout, /building/);
+  });
+
+  it('lists builds up to --limit', async () => {
+    const result = await harness.run(['build', 'list', '--limit', '1', '--format', 'json']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.equal(result.requests[0].query.limit, '1');
+    assert.equal(JSON.parse(result.stdout).length, 1);
+  });
+
+  it('prints the logs of a finished build', async () => {
+    const buildId = harness.seedBuild(gameId);
+    const result = await harness.run(['build', 'logs', buildId]);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.calls, [`GET /v1/builds/${buildId}/logs`]);
+    assert.match(result.stdout, new RegExp(`Build ${buildId} succeeded`));
+  });
+
+  it('stops following logs once the build has finished', async () => {
+    const buildId = harness.seedBuild(gameId);
+    const result = await harness.run(['build', 'logs', buildId, '--follow']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.match(result.stdout, /Following logs/);
+    assert.match(result.stdout, new RegExp(`Build ${buildId} succeeded`));
+  });
+
+  it('exits with RemoteFailure when the followed build failed', async () => {
+    const buildId = harness.seedBuild(gameId, 'failed');
+    const result = await harness.run(['build', 'logs', buildId, '--follow']);
+
+    assert.equal(result.exitCode, ExitCode.RemoteFailure);
+    assert.match(result.stderr, new RegExp(`Build ${buildId} failed`));
+  });
+
+  it('downloads a build archive', async () => {
+    const buildId = harness.seedBuild(gameId);
+    const dir = path.join(harness.home, 'downloads');
+    const result = await harness.run(['build', 'download', buildId, '--dir', dir]);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.calls, [`GET /v1/builds/${buildId}/download`]);
+    assert.ok(fs.statSync(path.join(dir, `build-${buildId}.zip`)).size > 0);
+  });
+
+  it('still accepts the old -o option of download', async () => {
+    const buildId = harness.seedBuild(gameId);
+    const dir = path.join(harness.home, 'old-downloads');
+    const result = await harness.run(['build', 'download', buildId, '-o', dir]);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.match(result.stderr, /--output is deprecated/);
+    assert.ok(fs.statSync(path.join(dir, `build-${buildId}.zip`)).size > 0);
+  });
+
+  it('exits with NotFound for an unknown build', async () => {
+    const result = await harness.run(['build', 'logs', 'build_missing']);
+
+    assert.equal(result.exitCode, ExitCode.NotFound);
+  });
+});
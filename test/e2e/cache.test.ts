@@ -0,0 +1,155 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Harness, TEST_TOKEN } from './harness';
+import { ExitCode } from '../../src/utils/errors';
+
+describe('response cache', () => {
+  let harness: Harness;
+  let gameId: string;
+
+  const cacheDir = () => path.join(harness.home, '.gamebuild', 'cache');
+
+  const cachedFiles = (dir = cacheDir()): string[] =>
+    fs.existsSync(dir)
+      ? fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) =>
+          entry.isDirectory() ? cachedFiles(path.join(dir, entry.name)) : [path.join(dir, entry.name)]
+        )
+      : [];
+
+  before(async () => {
+    harness = await Harness.start();
+    delete process.env.GAMEBUILD_CACHE__ENABLED;
+    gameId = await harness.setUp();
+  });
+
+  after(async () => {
+    await harness.stop();
+  });
+
+  beforeEach(async () => {
+    await harness.run(['cache', 'clear']);
+  });
+
+  it('answers repeated reads from the cache', async () => {
+    const first = await harness.run(['game', 'list', '-o', 'json']);
+    const second = await harness.run(['game', 'list', '-o', 'json']);
+
+    assert.deepEqual(first.calls, ['GET /v1/games']);
+    assert.equal(second.exitCode, ExitCode.Success);
+    assert.deepEqual(second.calls, []);
+    assert.equal(second.stdout, first.stdout);
+  });
+
+  it('keys entries by params', async () => {
+    await harness.run(['analytics', 'overview', '--period', 'week']);
+    const month = await harness.run(['analytics', 'overview', '--period', 'month']);
+    const week = await harness.run(['analytics', 'overview', '--period', 'week']);
+
+    assert.deepEqual(month.calls, ['GET /v1/analytics/overview']);
+    assert.deepEqual(week.calls, []);
+  });
+
+  it('fetches again with --refresh and stores the fresh response', async () => {
+    await harness.run(['game', 'info', gameId]);
+    harness.state.games[0].name = 'Renamed';
+
+    const cached = await harness.run(['game', 'info', gameId]);
+    assert.match(cached.stdout, /Name: E2E Game/);
+
+    const refreshed = await harness.run(['--refresh', 'game', 'info', gameId]);
+    assert.deepEqual(refreshed.calls, [`GET /v1/games/${gameId}`]);
+    assert.match(refreshed.stdout, /Name: Renamed/);
+
+    const after = await harness.run(['game', 'info', gameId]);
+    assert.deepEqual(after.calls, []);
+    assert.match(after.stdout, /Name: Renamed/);
+    harness.state.games[0].name = 'E2E Game';
+  });
+
+  it('neither reads nor writes with --no-cache', async () => {
+    await harness.run(['game', 'list']);
+
+    const uncached = await harness.run(['--no-cache', 'game', 'list']);
+    assert.deepEqual(uncached.calls, ['GET /v1/games']);
+
+    await harness.run(['cache', 'clear']);
+    await harness.run(['--no-cache', 'game', 'list']);
+    assert.deepEqual(cachedFiles(), []);
+  });
+
+  it('clears the profile after a successful write', async () => {
+    await harness.run(['game', 'list']);
+    await harness.run(['game', 'create', '--name', 'Second', '--platform', 'web', '--template', 'basic']);
+
+    const result = await harness.run(['game', 'list', '-o', 'json']);
+    assert.deepEqual(result.calls, ['GET /v1/games']);
+    assert.equal(JSON.parse(result.stdout).length, 2);
+  });
+
+  it('does not cache builds', async () => {
+    await harness.run(['build', 'list']);
+    const result = await harness.run(['build', 'list']);
+
+    assert.deepEqual(result.calls, [`GET /v1/games/${gameId}/builds`]);
+  });
+
+  it('honours per-resource TTLs and expiry', async () => {
+    await harness.run(['config', 'set', 'cache.ttl.games', '0']);
+    try {
+      await harness.run(['game', 'list']);
+      const disabled = await harness.run(['game', 'list']);
+      assert.deepEqual(disabled.calls, ['GET /v1/games']);
+    } finally {
+      await harness.run(['config', 'delete', 'cache.ttl.games', '--force']);
+    }
+
+    await harness.run(['game', 'list']);
+    for (const file of cachedFiles()) {
+      const entry = JSON.parse(fs.readFileSync(file, 'utf8'));
+      assert.equal(entry.expiresAt - entry.storedAt, 60000);
+      fs.writeFileSync(file, JSON.stringify({ ...entry, expiresAt: Date.now() - 1 }));
+    }
+    const expired = await harness.run(['game', 'list']);
+    assert.deepEqual(expired.calls, ['GET /v1/games']);
+  });
+
+  it('keeps profiles apart and never stores tokens', async () => {
+    await harness.run(['game', 'list']);
+    await harness.run(['config', 'profile', 'create', 'staging']);
+    await harness.run(['--profile', 'staging', 'auth', 'login', '--token', 'staging-token']);
+
+    const staging = await harness.run(['--profile', 'staging', 'game', 'list']);
+    assert.deepEqual(staging.calls, ['GET /v1/games']);
+    assert.ok(fs.existsSync(path.join(cacheDir(), 'responses', 'staging')));
+
+    for (const file of cachedFiles()) {
+      const contents = fs.readFileSync(file, 'utf8');
+      assert.ok(!contents.includes(TEST_TOKEN) && !contents.includes('staging-token'), file);
+    }
+  });
+
+  it('stays out of --record', async () => {
+    await harness.run(['game', 'list']);
+    const file = path.join(harness.home, 'games.json');
+
+    const result = await harness.run(['--record', file, 'game', 'list']);
+
+    assert.deepEqual(result.calls, ['GET /v1/games']);
+    assert.equal(JSON.parse(fs.readFileSync(file, 'utf8')).interactions.length, 1);
+  });
+
+  it('removes responses and names with cache clear', async () => {
+    await harness.run(['game', 'list']);
+    await harness.run(['game', 'info', 'E2E Game']);
+
+    const result = await harness.run(['cache', 'clear']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.match(result.stdout, /Cleared [2-9] cached entries/);
+    assert.deepEqual(cachedFiles(), []);
+    const again = await harness.run(['cache', 'clear']);
+    assert.match(again.stdout, /already empty/);
+  });
+});
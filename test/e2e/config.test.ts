@@ -0,0 +1,131 @@
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Harness, TEST_TOKEN } from './harness';
+import { ExitCode } from '../../src/utils/errors';
+import { CREDENTIALS_FILE } from '../../src/services/credentials';
+import { PROJECT_FILE } from '../../src/services/project';
+
+describe('config', () => {
+  let harness: Harness;
+
+  before(async () => {
+    harness = await Harness.start();
+    await harness.setUp();
+  });
+
+  after(async () => {
+    await harness.stop();
+  });
+
+  function readGlobalConfig(): any {
+    return JSON.parse(fs.readFileSync(path.join(harness.home, '.gamebuild', 'config.json'), 'utf8'));
+  }
+
+  it('sets and gets a global value', async () => {
+    const set = await harness.run(['config', 'set', 'http.timeout', '5000']);
+    assert.equal(set.exitCode, ExitCode.Success);
+    assert.equal(readGlobalConfig().http.timeout, 5000);
+
+    const get = await harness.run(['config', 'get', 'http.timeout']);
+    assert.equal(get.exitCode, ExitCode.Success);
+    assert.match(get.stdout, /5000/);
+    assert.deepEqual(get.calls, []);
+  });
+
+  it('stores --local values in the project file', async () => {
+    const result = await harness.run(['config', 'set', 'http.retries', '1', '--local']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    const manifest = JSON.parse(fs.readFileSync(path.join(harness.projectDir, PROJECT_FILE), 'utf8'));
+    assert.equal(manifest.settings.http.retries, 1);
+  });
+
+  it('shows where each value comes from', async () => {
+    const result = await harness.run(['config', 'list', '--show-origin']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.match(result.stdout, /auth\.baseUrl = .*\(env: GAMEBUILD_BASE_URL\)/);
+    assert.match(result.stdout, /http\.retries = 1 .*\(project: /);
+    assert.match(result.stdout, /http\.retryDelay = 500 .*\(default\)/);
+  });
+
+  it('keeps IDs from the environment as typed', async () => {
+    process.env.GAMEBUILD_GAME_ID = '007';
+    try {
+      const result = await harness.run(['build', 'list']);
+      assert.deepEqual(result.calls, ['GET /v1/games/007/builds']);
+    } finally {
+      delete process.env.GAMEBUILD_GAME_ID;
+    }
+  });
+
+  it('masks the token', async () => {
+    const result = await harness.run(['config', 'list']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.match(result.stdout, /auth\.token = /);
+    assert.ok(!result.stdout.includes(TEST_TOKEN));
+  });
+
+  it('exits with NotFound for an unknown key', async () => {
+    const result = await harness.run(['config', 'get', 'missing.key']);
+
+    assert.equal(result.exitCode, ExitCode.NotFound);
+  });
+
+  it('deletes a value after confirmation', async () => {
+    const result = await harness.run(['config', 'delete', 'http.timeout'], { answers: { confirm: true } });
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.equal(readGlobalConfig().http?.timeout, undefined);
+  });
+
+  it('creates, switches and lists profiles', async () => {
+    const create = await harness.run(['config', 'profile', 'create', 'staging', '--url', 'https://staging.example.com', '--use']);
+    assert.equal(create.exitCode, ExitCode.Success);
+    assert.equal(readGlobalConfig().activeProfile, 'staging');
+
+    const list = await harness.run(['config', 'profile', 'list', '--format', 'json']);
+    assert.equal(list.exitCode, ExitCode.Success);
+    assert.deepEqual(
+      JSON.parse(list.stdout).map((profile: any) => profile.name),
+      ['default', 'staging']
+    );
+
+    const use = await harness.run(['config', 'profile', 'use', 'default']);
+    assert.equal(use.exitCode, ExitCode.Success);
+  });
+
+  it('keeps credentials per profile', async () => {
+    const result = await harness.run(['--profile', 'staging', 'game', 'list']);
+
+    assert.equal(result.exitCode, ExitCode.Unauthenticated);
+    assert.deepEqual(result.calls, []);
+  });
+
+  it('moves plaintext tokens out of an old config file on first read', async () => {
+    const dir = path.join(harness.home, 'legacy');
+    const file = path.join(dir, 'config.json');
+    fs.mkdirSync(dir);
+    fs.writeFileSync(file, JSON.stringify({ auth: { token: 'legacy-plaintext-token' } }), { mode: 0o644 });
+
+    const get = await harness.run(['--config', file, 'config', 'get', 'http.timeout']);
+    assert.equal(get.exitCode, ExitCode.Success);
+    assert.ok(!fs.readFileSync(file, 'utf8').includes('legacy-plaintext-token'));
+    assert.equal(fs.statSync(file).mode & 0o777, 0o600);
+    assert.ok(fs.existsSync(path.join(dir, CREDENTIALS_FILE)));
+
+    const token = await harness.run(['--config', file, 'auth', 'token', '--show']);
+    assert.equal(token.stdout.trim(), 'legacy-plaintext-token');
+  });
+
+  it('writes to the file passed with --config', async () => {
+    const file = path.join(harness.home, 'other-config.json');
+    const result = await harness.run(['--config', file, 'config', 'set', 'http.retries', '2']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.equal(JSON.parse(fs.readFileSync(file, 'utf8')).http.retries, 2);
+  });
+});
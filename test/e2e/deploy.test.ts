@@ -0,0 +1,125 @@
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Harness, choiceValues } from './harness';
+import { ExitCode } from '../../src/utils/errors';
+
+describe('deploy', () => {
+  let harness: Harness;
+  let gameId: string;
+
+  before(async () => {
+    harness = await Harness.start();
+    gameId = await harness.setUp('web');
+  });
+
+  after(async () => {
+    await harness.stop();
+  });
+
+  it('needs a successful build', async () => {
+    harness.seedBuild(gameId, 'failed');
+    const result = await harness.run(['deploy', 'start', '--platform', 'gamebuild']);
+
+    assert.equal(result.exitCode, ExitCode.NotFound);
+    assert.match(result.stderr, /No successful builds found/);
+    assert.deepEqual(result.calls, [`GET /v1/games/${gameId}/builds`]);
+  });
+
+  it('offers the platforms for the game type and deploys to the one picked', async () => {
+    const buildId = harness.seedBuild(gameId);
+    const result = await harness.run(['deploy', 'start'], { answers: { selectedPlatform: 'netlify' } });
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.questions.map((question) => question.name), ['selectedPlatform']);
+    assert.deepEqual(choiceValues(result.questions[0]), ['gamebuild', 'netlify', 'vercel', 'firebase', 'github-pages']);
+    assert.deepEqual(result.calls, [`GET /v1/games/${gameId}/builds`, `GET /v1/games/${gameId}`, 'POST /v1/deployments']);
+    assert.deepEqual(result.requests[2].body, { buildId, environment: 'staging', platform: 'netlify' });
+    assert.match(result.stdout, /Platform: netlify/);
+  });
+
+  it('offers the store platforms for a mobile game', async () => {
+    const mobile = harness.state.games.find((game) => game.id === gameId)!;
+    mobile.platform = 'mobile';
+    try {
+      const result = await harness.run(['deploy', 'start'], { answers: { selectedPlatform: 'testflight' } });
+
+      assert.equal(result.exitCode, ExitCode.Success);
+      assert.deepEqual(choiceValues(result.questions[0]), ['app-store', 'google-play', 'testflight', 'internal-testing']);
+      assert.equal(result.requests[result.requests.length - 1].body.platform, 'testflight');
+    } finally {
+      mobile.platform = 'web';
+    }
+  });
+
+  it('skips the prompt when --platform is passed', async () => {
+    const buildId = harness.seedBuild(gameId);
+    const result = await harness.run(['deploy', 'start', '--build-id', buildId, '--env', 'prod', '--platform', 'vercel']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.questions, []);
+    assert.deepEqual(result.calls, ['POST /v1/deployments']);
+    assert.deepEqual(result.requests[0].body, { buildId, environment: 'prod', platform: 'vercel' });
+  });
+
+  it('fails without --platform when prompts are disabled', async () => {
+    const result = await harness.run(['deploy', 'start']);
+
+    assert.equal(result.exitCode, ExitCode.Validation);
+    assert.match(result.stderr, /--platform <platform>/);
+    assert.ok(!result.calls.includes('POST /v1/deployments'));
+  });
+
+  it('starts a deployment when run without a subcommand', async () => {
+    const result = await harness.run(['deploy', '--platform', 'gamebuild']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.ok(result.calls.includes('POST /v1/deployments'));
+  });
+
+  it('lists deployments', async () => {
+    const result = await harness.run(['deploy', 'list', '--format', 'json']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.calls, [`GET /v1/games/${gameId}/deployments`]);
+    assert.equal(JSON.parse(result.stdout).length, harness.state.deployments.length);
+  });
+
+  it('rolls back after confirmation', async () => {
+    const deployment = harness.state.deployments[0];
+    const refused = await harness.run(['deploy', 'rollback', deployment.id], { answers: { confirm: false } });
+    assert.equal(refused.exitCode, ExitCode.Cancelled);
+    assert.deepEqual(refused.calls, []);
+
+    const result = await harness.run(['deploy', 'rollback', deployment.id], { answers: { confirm: true } });
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.calls, [`POST /v1/deployments/${deployment.id}/rollback`]);
+  });
+
+  it('exits with RemoteFailure when the followed deployment failed', async () => {
+    const buildId = harness.seedBuild(gameId);
+    const startedAt = new Date(Date.now() - 60000).toISOString();
+    harness.state.deployments.push({
+      id: 'deploy_failed',
+      gameId,
+      buildId,
+      status: 'failed',
+      environment: 'production',
+      platform: 'gamebuild',
+      startedAt,
+      completedAt: startedAt
+    });
+
+    const result = await harness.run(['deploy', 'logs', 'deploy_failed', '--follow']);
+
+    assert.equal(result.exitCode, ExitCode.RemoteFailure);
+    assert.match(result.stderr, /Deployment deploy_failed failed/);
+  });
+
+  it('refuses to deploy a build that has not succeeded', async () => {
+    const buildId = harness.seedBuild(gameId, 'failed');
+    const result = await harness.run(['deploy', 'start', '--build-id', buildId, '--platform', 'gamebuild']);
+
+    assert.equal(result.exitCode, ExitCode.Conflict);
+  });
+});
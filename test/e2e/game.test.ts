@@ -0,0 +1,103 @@
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Harness, TEST_TOKEN, choiceValues } from './harness';
+import { ExitCode } from '../../src/utils/errors';
+import { PROJECT_FILE } from '../../src/services/project';
+
+describe('game', () => {
+  let harness: Harness;
+
+  before(async () => {
+    harness = await Harness.start();
+    await harness.run(['auth', 'login', '--token', TEST_TOKEN]);
+  });
+
+  after(async () => {
+    await harness.stop();
+  });
+
+  it('creates a game from options', async () => {
+    const result = await harness.run(['game', 'create', '--name', 'Space Race', '--platform', 'web', '--template', 'racing']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.calls, ['POST /v1/games']);
+    assert.deepEqual(result.requests[0].body, { name: 'Space Race', platform: 'web', template: 'racing' });
+    assert.match(result.stdout, /Game created successfully/);
+  });
+
+  it('asks for the name, platform and template', async () => {
+    const result = await harness.run(['game', 'create'], {
+      answers: { name: 'Dungeon', platform: 'desktop', template: 'rpg' }
+    });
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    const platform = result.questions.find((question) => question.name === 'platform');
+    assert.deepEqual(choiceValues(platform), ['web', 'mobile', 'desktop', 'console']);
+    assert.deepEqual(result.requests[0].body, { name: 'Dungeon', platform: 'desktop', template: 'rpg' });
+  });
+
+  it('fails without a name when prompts are disabled', async () => {
+    const result = await harness.run(['game', 'create', '--platform', 'web']);
+
+    assert.equal(result.exitCode, ExitCode.Validation);
+    assert.match(result.stderr, /--name <name>/);
+    assert.deepEqual(result.calls, []);
+  });
+
+  it('fails without a template when prompts are disabled', async () => {
+    const result = await harness.run(['game', 'create', '--name', 'Untitled', '--platform', 'web']);
+
+    assert.equal(result.exitCode, ExitCode.Validation);
+    assert.match(result.stderr, /--template <template>/);
+    assert.deepEqual(result.calls, []);
+  });
+
+  it('lists games as JSON', async () => {
+    const result = await harness.run(['game', 'list', '--format', 'json']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    const games = JSON.parse(result.stdout);
+    assert.deepEqual(
+      games.map((game: any) => game.name),
+      ['Space Race', 'Dungeon']
+    );
+  });
+
+  it('shows a game', async () => {
+    const game = harness.state.games[0];
+    const result = await harness.run(['game', 'info', game.id]);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.calls, [`GET /v1/games/${game.id}`]);
+    assert.match(result.stdout, /Space Race/);
+  });
+
+  it('exits with NotFound for an unknown game', async () => {
+    const result = await harness.run(['game', 'info', 'game_missing']);
+
+    assert.equal(result.exitCode, ExitCode.NotFound);
+    assert.match(result.stderr, /Game not found/);
+    assert.match(result.stderr, /Request ID: mock-/);
+  });
+
+  it('links the working directory to a picked game', async () => {
+    const game = harness.state.games[1];
+    const result = await harness.run(['game', 'init'], { answers: { selectedGame: game.id } });
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(choiceValues(result.questions[0]), harness.state.games.map((entry) => entry.id));
+    const manifest = JSON.parse(fs.readFileSync(path.join(harness.projectDir, PROJECT_FILE), 'utf8'));
+    assert.equal(manifest.gameId, game.id);
+  });
+
+  it('deletes a game with --force', async () => {
+    const game = harness.state.games[0];
+    const result = await harness.run(['game', 'delete', game.id, '--force']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.calls, [`GET /v1/games/${game.id}`, `DELETE /v1/games/${game.id}`]);
+    assert.ok(!harness.state.games.some((entry) => entry.id === game.id));
+  });
+});
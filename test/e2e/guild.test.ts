@@ -0,0 +1,77 @@
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Harness, TEST_TOKEN } from './harness';
+import { ExitCode } from '../../src/utils/errors';
+
+describe('guild', () => {
+  let harness: Harness;
+
+  before(async () => {
+    harness = await Harness.start();
+    await harness.run(['auth', 'login', '--token', TEST_TOKEN]);
+  });
+
+  after(async () => {
+    await harness.stop();
+  });
+
+  it('creates a guild from options', async () => {
+    const result = await harness.run(['guild', 'create', '--name', 'Knights', '--description', 'Sword and board']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.calls, ['POST /v1/guilds']);
+    assert.deepEqual(result.requests[0].body, { name: 'Knights', description: 'Sword and board' });
+  });
+
+  it('asks for the name and description', async () => {
+    const result = await harness.run(['guild', 'create'], { answers: { name: 'Mages', description: 'Spells' } });
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.requests[0].body, { name: 'Mages', description: 'Spells' });
+  });
+
+  it('fails without a name when prompts are disabled', async () => {
+    const result = await harness.run(['guild', 'create']);
+
+    assert.equal(result.exitCode, ExitCode.Validation);
+    assert.deepEqual(result.calls, []);
+  });
+
+  it('lists guilds', async () => {
+    const result = await harness.run(['guild', 'list']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.calls, ['GET /v1/guilds']);
+    assert.match(result.stdout, /Knights/);
+    assert.match(result.stdout, /Mages/);
+  });
+
+  it('shows a guild with its members', async () => {
+    const guild = harness.state.guilds[0];
+    const result = await harness.run(['guild', 'info', guild.id]);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.match(result.stdout, /Members: 1/);
+    assert.match(result.stdout, /mock-developer \(user_1\)/);
+  });
+
+  it('leaves and rejoins a guild', async () => {
+    const guild = harness.state.guilds[0];
+
+    const leave = await harness.run(['guild', 'leave', guild.id]);
+    assert.equal(leave.exitCode, ExitCode.Success);
+    assert.deepEqual(leave.calls, [`GET /v1/guilds/${guild.id}`, `POST /v1/guilds/${guild.id}/leave`]);
+
+    const join = await harness.run(['guild', 'join', guild.id]);
+    assert.equal(join.exitCode, ExitCode.Success);
+    assert.deepEqual(join.calls, [`GET /v1/guilds/${guild.id}`, `POST /v1/guilds/${guild.id}/join`]);
+  });
+
+  it('exits with Conflict when joining a guild twice', async () => {
+    const guild = harness.state.guilds[0];
+    const result = await harness.run(['guild', 'join', guild.id]);
+
+    assert.equal(result.exitCode, ExitCode.Conflict);
+    assert.match(result.stderr, /Already a member/);
+  });
+});
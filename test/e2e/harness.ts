@@ -0,0 +1,247 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import chalk from 'chalk';
+import { pickName, run } from '../../src/program';
+import { ConfigService } from '../../src/services/config';
+import { Context } from '../../src/services/context';
+import { MockRequestLog, MockResponse, MockServer, MockState } from '../../src/services/mock-server';
+import { PromptQuestion, prompter } from '../../src/utils/prompt';
+
+export const TEST_TOKEN = 'e2e-token';
+
+export interface RunOptions {
+  // Answers to interactive prompts, keyed by question name. Unanswered questions take
+  // their default, as if Enter was pressed; without one the prompt fails the run.
+  answers?: Record<string, any>;
+  // Working directory for the command, the harness project directory by default
+  cwd?: string;
+  // Environment variables set for this run only
+  env?: Record<string, string>;
+}
+
+export interface RunResult {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+  // Requests the command sent to the mock API, in order
+  requests: MockRequestLog[];
+  // The same requests as "METHOD /path", for compact assertions
+  calls: string[];
+  // Questions the command asked, with their choices
+  questions: PromptQuestion[];
+}
+
+// Thrown by the process.exit stand-in so the command stops where the real process would
+class ExitSignal extends Error {
+  constructor(readonly status: number) {
+    super(`process.exit(${status})`);
+  }
+}
+
+/**
+ * Runs gamebuild commands in this process against a mock API, with HOME and the working
+ * directory pointed at temporary directories. Output, exit codes and the requests each
+ * command makes are captured per run.
+ */
+export class Harness {
+  readonly home: string;
+  readonly projectDir: string;
+  private server: MockServer;
+  private requests: MockRequestLog[] = [];
+
+  private constructor(home: string) {
+    this.home = home;
+    this.projectDir = path.join(home, 'project');
+    this.server = new MockServer({ port: 0, onRequest: (request) => this.requests.push(request) });
+  }
+
+  static async start(): Promise<Harness> {
+    const home = fs.mkdtempSync(path.join(os.tmpdir(), 'gamebuild-e2e-'));
+    fs.mkdirSync(path.join(home, 'project'));
+
+    const harness = new Harness(home);
+    const url = await harness.server.start();
+
+    for (const name of Object.keys(process.env)) {
+      if (name.startsWith('GAMEBUILD_')) {
+        delete process.env[name];
+      }
+    }
+    process.env.HOME = home;
+    process.env.GAMEBUILD_BASE_URL = url;
+    // Tests change the mock's data directly, which cached responses would hide
+    process.env.GAMEBUILD_CACHE__ENABLED = 'false';
+    // Prompts without scripted answers take the non-interactive path instead of waiting on stdin
+    process.env.CI = 'true';
+    chalk.level = 0;
+
+    return harness;
+  }
+
+  async stop(): Promise<void> {
+    await this.server.stop();
+    fs.rmSync(this.home, { recursive: true, force: true });
+  }
+
+  // The mock API's data, for seeding records and checking what commands changed
+  get state(): MockState {
+    return this.server.getState();
+  }
+
+  /**
+   * Make the mock API answer the next `times` requests to `method path` with `response`,
+   * e.g. a 429 or a 503 to exercise retries.
+   */
+  respondWith(method: string, path: string, response: MockResponse, times = 1): void {
+    this.server.respondWith(method, path, response, times);
+  }
+
+  /**
+   * Run `gamebuild <args>` and resolve once the command has finished or exited.
+   */
+  async run(args: string[], options: RunOptions = {}): Promise<RunResult> {
+    const stdout: string[] = [];
+    const stderr: string[] = [];
+    const questions: PromptQuestion[] = [];
+    let exitCode: number | undefined;
+
+    const original = {
+      stdoutWrite: process.stdout.write,
+      stderrWrite: process.stderr.write,
+      exit: process.exit,
+      cwd: process.cwd(),
+      env: Object.fromEntries(Object.keys(options.env || {}).map((name) => [name, process.env[name]]))
+    };
+
+    const capture = (chunks: string[], stream: NodeJS.WriteStream, write: typeof process.stdout.write) =>
+      ((chunk: string | Uint8Array, ...rest: any[]) => {
+        // Under node --test, the runner reports results to the parent process as binary
+        // chunks on stdout. Commands only write strings.
+        if (typeof chunk !== 'string') {
+          return write.call(stream, chunk, ...rest);
+        }
+        // Nothing a real process prints after exiting reaches the terminal
+        if (exitCode === undefined) {
+          chunks.push(chunk);
+        }
+        return true;
+      }) as typeof process.stdout.write;
+
+    this.requests = [];
+    process.stdout.write = capture(stdout, process.stdout, original.stdoutWrite);
+    process.stderr.write = capture(stderr, process.stderr, original.stderrWrite);
+    process.exit = ((code?: number) => {
+      exitCode = exitCode ?? code ?? 0;
+      throw new ExitSignal(exitCode);
+    }) as typeof process.exit;
+    process.exitCode = undefined;
+    process.chdir(options.cwd || this.projectDir);
+    Object.assign(process.env, options.env);
+    prompter.useHandler(options.answers ? scripted(options.answers, questions) : undefined);
+
+    try {
+      await run(['node', 'gamebuild', ...args], new Context({ config: new ConfigService(), pickName }));
+    } catch (error) {
+      if (!(error instanceof ExitSignal)) {
+        throw error;
+      }
+    } finally {
+      process.stdout.write = original.stdoutWrite;
+      process.stderr.write = original.stderrWrite;
+      process.exit = original.exit;
+      process.chdir(original.cwd);
+      for (const [name, value] of Object.entries(original.env)) {
+        if (value === undefined) {
+          delete process.env[name];
+        } else {
+          process.env[name] = value;
+        }
+      }
+      prompter.useHandler(undefined);
+    }
+
+    const result: RunResult = {
+      exitCode: exitCode ?? Number(process.exitCode ?? 0),
+      stdout: stdout.join(''),
+      stderr: stderr.join(''),
+      requests: this.requests,
+      calls: this.requests.map((request) => `${request.method} ${request.path}`),
+      questions
+    };
+    process.exitCode = undefined;
+    return result;
+  }
+
+  /**
+   * Log in with TEST_TOKEN and link the project directory to a new game.
+   */
+  async setUp(platform = 'web'): Promise<string> {
+    await this.expectSuccess(['auth', 'login', '--token', TEST_TOKEN]);
+    await this.expectSuccess(['game', 'create', '--name', 'E2E Game', '--platform', platform, '--template', 'basic']);
+    const game = this.state.games[this.state.games.length - 1];
+    await this.expectSuccess(['game', 'init', '--game-id', game.id]);
+    return game.id;
+  }
+
+  /**
+   * A finished build of `gameId`, added straight to the mock's data.
+   */
+  seedBuild(gameId: string, status = 'success'): string {
+    const id = `build_seed_${this.state.nextId++}`;
+    const startedAt = new Date(Date.now() - 60000).toISOString();
+    this.state.builds.push({
+      id,
+      gameId,
+      status,
+      environment: 'production',
+      platform: 'web',
+      startedAt,
+      completedAt: startedAt,
+      duration: 5
+    });
+    return id;
+  }
+
+  private async expectSuccess(args: string[]): Promise<RunResult> {
+    const result = await this.run(args);
+    if (result.exitCode !== 0) {
+      throw new Error(`gamebuild ${args.join(' ')} exited with ${result.exitCode}:\n${result.stdout}${result.stderr}`);
+    }
+    return result;
+  }
+}
+
+// Answers prompts the way inquirer would, from a fixed set of answers
+function scripted(answers: Record<string, any>, asked: PromptQuestion[]) {
+  return async (questions: PromptQuestion[]): Promise<Record<string, any>> => {
+    const result: Record<string, any> = {};
+    for (const question of questions) {
+      const when = typeof question.when === 'function' ? question.when(result) : question.when;
+      if (when === false) {
+        continue;
+      }
+
+      asked.push(question);
+      const defaultValue = typeof question.default === 'function' ? question.default(result) : question.default;
+      if (!(question.name in answers) && defaultValue === undefined) {
+        throw new Error(`Unexpected prompt "${question.name}": ${question.message}`);
+      }
+
+      const answer = question.name in answers ? answers[question.name] : defaultValue;
+      const valid = question.validate ? await question.validate(answer, result) : true;
+      if (valid !== true) {
+        throw new Error(`Answer for "${question.name}" was rejected: ${valid}`);
+      }
+      result[question.name] = answer;
+    }
+    return result;
+  };
+}
+
+/**
+ * The values offered by a list question.
+ */
+export function choiceValues(question: PromptQuestion | undefined): any[] {
+  return (question?.choices || []).map((choice) => (choice && typeof choice === 'object' ? choice.value : choice));
+}
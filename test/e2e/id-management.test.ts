@@ -0,0 +1,129 @@
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Harness, TEST_TOKEN, choiceValues } from './harness';
+import { ExitCode } from '../../src/utils/errors';
+
+const WALLET = '0x00000000000000000000000000000000000000a1';
+
+describe('identity', () => {
+  let harness: Harness;
+
+  before(async () => {
+    harness = await Harness.start();
+    await harness.run(['auth', 'login', '--token', TEST_TOKEN]);
+  });
+
+  after(async () => {
+    await harness.stop();
+  });
+
+  it('creates an identity for an existing wallet', async () => {
+    const result = await harness.run(['identity', 'create', '--name', 'Hero', '--wallet', WALLET, '--email', 'hero@example.com']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.calls, ['POST /v1/identities']);
+    assert.deepEqual(result.requests[0].body, {
+      type: 'player',
+      walletAddress: WALLET,
+      displayName: 'Hero',
+      email: 'hero@example.com'
+    });
+    assert.doesNotMatch(result.stdout, /Private Key/);
+  });
+
+  it('generates a wallet when the address is left empty', async () => {
+    const result = await harness.run(['identity', 'create', '--type', 'guild'], {
+      answers: { walletAddress: '', displayName: 'Order', email: '' }
+    });
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(
+      result.questions.map((question) => question.name),
+      ['walletAddress', 'displayName', 'email']
+    );
+    assert.equal(result.requests[0].body.type, 'guild');
+    assert.match(result.stdout, /New wallet generated/);
+    assert.match(result.stdout, /Private Key: 0x[0-9a-f]{64}/);
+  });
+
+  it('asks for the identity type when it is unset', async () => {
+    const result = await harness.run(['identity', 'create', '--type', ''], {
+      answers: { identityType: 'moderator', walletAddress: WALLET, displayName: 'Mod', email: '' }
+    });
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(choiceValues(result.questions[0]), ['player', 'developer', 'guild', 'moderator']);
+    assert.equal(result.requests[0].body.type, 'moderator');
+  });
+
+  it('fails without an identity type when prompts are disabled', async () => {
+    const result = await harness.run(['identity', 'create', '--type', '', '--name', 'Nobody']);
+
+    assert.equal(result.exitCode, ExitCode.Validation);
+    assert.match(result.stderr, /--type <type>/);
+    assert.deepEqual(result.calls, []);
+  });
+
+  it('lists identities filtered by type', async () => {
+    const result = await harness.run(['identity', 'list', '--type', 'player', '--format', 'json']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.equal(result.requests[0].query.type, 'player');
+    assert.deepEqual(
+      JSON.parse(result.stdout).map((identity: any) => identity.displayName),
+      ['Hero']
+    );
+  });
+
+  it('shows the current identity', async () => {
+    const result = await harness.run(['identity', 'profile']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.calls, ['GET /v1/identities/me']);
+    assert.match(result.stdout, /Name: mock-developer/);
+  });
+
+  it('updates a profile, keeping unanswered fields', async () => {
+    const result = await harness.run(['identity', 'profile', 'identity_1', '--update'], { answers: { bio: 'Builds games', avatar: '' } });
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    const update = result.requests.find((request) => request.method === 'PATCH');
+    assert.ok(update);
+    assert.equal(update.body.displayName, 'mock-developer');
+    assert.equal(update.body.bio, 'Builds games');
+  });
+
+  it('links a wallet', async () => {
+    const result = await harness.run(['identity', 'link', 'identity_1', WALLET, '--network', 'polygon']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.calls, ['POST /v1/identities/identity_1/wallets']);
+    assert.deepEqual(result.requests[0].body, { walletAddress: WALLET, network: 'polygon' });
+  });
+
+  it('verifies with a prompted signature', async () => {
+    const result = await harness.run(['identity', 'verify', 'identity_1'], { answers: { providedSignature: '0xsigned' } });
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.requests[0].body, { signature: '0xsigned' });
+    assert.match(result.stdout, /Identity verified successfully/);
+  });
+
+  it('adds, lists and removes permissions', async () => {
+    const add = await harness.run(['identity', 'permissions', 'identity_1', '--add', 'games:publish']);
+    assert.equal(add.exitCode, ExitCode.Success);
+
+    const list = await harness.run(['identity', 'permissions', 'identity_1', '--list']);
+    assert.match(list.stdout, /games:publish/);
+
+    const remove = await harness.run(['identity', 'permissions', 'identity_1', '--remove', 'games:publish']);
+    assert.equal(remove.exitCode, ExitCode.Success);
+    assert.equal(remove.requests[0].method, 'DELETE');
+  });
+
+  it('exits with NotFound for an unknown identity', async () => {
+    const result = await harness.run(['identity', 'reputation', 'identity_missing']);
+
+    assert.equal(result.exitCode, ExitCode.NotFound);
+  });
+});
@@ -0,0 +1,96 @@
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Harness, choiceValues } from './harness';
+import { ExitCode } from '../../src/utils/errors';
+
+describe('pagination', () => {
+  let harness: Harness;
+  let gameId: string;
+  const builds: string[] = [];
+
+  before(async () => {
+    harness = await Harness.start();
+    gameId = await harness.setUp();
+    for (let i = 0; i < 25; i++) {
+      builds.push(harness.seedBuild(gameId));
+    }
+
+    // 60 games in all, more than the API returns on one page by default
+    for (let i = harness.state.games.length; i < 60; i++) {
+      const game = { ...harness.state.games[0], id: `game_seed_${i}`, name: `Seeded ${i}` };
+      harness.state.games.push(game);
+    }
+  });
+
+  after(async () => {
+    await harness.stop();
+  });
+
+  it('lists the first page and prints the cursor of the next one', async () => {
+    const result = await harness.run(['build', 'list', '--output', 'json']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.calls, [`GET /v1/games/${gameId}/builds`]);
+    assert.equal(JSON.parse(result.stdout).length, 10);
+    assert.match(result.stderr, /More results are available\. Use --all, or --cursor \S+ for the next page\./);
+  });
+
+  it('continues from --cursor with --page-size', async () => {
+    const first = await harness.run(['build', 'list', '--page-size', '20', '--output', 'json']);
+    const cursor = /--cursor (\S+)/.exec(first.stderr)![1];
+
+    const result = await harness.run(['build', 'list', '--page-size', '20', '--cursor', cursor, '--output', 'json']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.requests[0].query, { limit: '20', cursor });
+    const ids = [...JSON.parse(first.stdout), ...JSON.parse(result.stdout)].map((build: any) => build.id);
+    assert.deepEqual([...ids].sort(), [...builds].sort());
+    assert.equal(result.stderr, '');
+  });
+
+  it('fetches every page with --all', async () => {
+    const result = await harness.run(['build', 'list', '--all', '--limit', '10', '--query', '[].id']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.equal(result.calls.length, 3);
+    assert.equal(result.stdout.trim().split('\n').length, 25);
+    assert.equal(result.stderr, '');
+  });
+
+  it('pages through games, deployments, assets, guilds, identities and campaigns', async () => {
+    const games = await harness.run(['game', 'list', '--all', '--output', 'json']);
+    assert.equal(JSON.parse(games.stdout).length, 60);
+    assert.equal(games.calls.length, 2);
+
+    for (const command of [['deploy', 'list'], ['asset', 'list'], ['guild', 'list'], ['id', 'list'], ['ad', 'list']]) {
+      const result = await harness.run([...command, '--page-size', '1', '--all', '--output', 'json']);
+
+      assert.equal(result.exitCode, ExitCode.Success, command.join(' '));
+      assert.equal(result.requests[0].query.limit, '1', command.join(' '));
+    }
+  });
+
+  it('offers every game when linking a project', async () => {
+    const result = await harness.run(['game', 'init'], { answers: { selectedGame: 'game_seed_59' } });
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.equal(choiceValues(result.questions[0]).length, 60);
+  });
+
+  it('follows nextCursor in api --paginate', async () => {
+    const result = await harness.run(['api', 'get', '/v1/games', '-f', 'limit=25', '--paginate']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.equal(result.calls.length, 3);
+    const body = JSON.parse(result.stdout);
+    assert.equal(body.games.length, 60);
+    assert.equal(body.nextCursor, undefined);
+  });
+
+  it('rejects an invalid page size', async () => {
+    const result = await harness.run(['game', 'list', '--page-size', '0']);
+
+    assert.equal(result.exitCode, ExitCode.Validation);
+    assert.deepEqual(result.calls, []);
+  });
+});
@@ -0,0 +1,77 @@
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Harness } from './harness';
+import { PROJECT_FILE, PROJECT_MANIFEST_VERSION } from '../../src/services/project';
+import { ExitCode } from '../../src/utils/errors';
+
+describe('project', () => {
+  let harness: Harness;
+  let projectFile: string;
+
+  // A project file from before the schema was versioned
+  const unversioned = { gameId: 'game_legacy', buildPath: './dist', platform: 'web' };
+
+  before(async () => {
+    harness = await Harness.start();
+    projectFile = path.join(harness.projectDir, PROJECT_FILE);
+    fs.writeFileSync(projectFile, JSON.stringify(unversioned, null, 2));
+  });
+
+  after(async () => {
+    await harness.stop();
+  });
+
+  const readProject = () => JSON.parse(fs.readFileSync(projectFile, 'utf8'));
+
+  it('flags an outdated schema version', async () => {
+    const result = await harness.run(['project', 'validate']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.match(result.stdout, /Schema version 0 is outdated/);
+  });
+
+  it('prints the migrated file on a dry run without writing it', async () => {
+    const result = await harness.run(['project', 'migrate', '--dry-run']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(JSON.parse(result.stdout), { version: PROJECT_MANIFEST_VERSION, ...unversioned });
+    assert.deepEqual(readProject(), unversioned);
+  });
+
+  it('upgrades the file and keeps a backup', async () => {
+    const result = await harness.run(['project', 'migrate']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.match(result.stdout, /from version 0 to 1/);
+    assert.deepEqual(readProject(), { version: PROJECT_MANIFEST_VERSION, ...unversioned });
+    assert.deepEqual(JSON.parse(fs.readFileSync(`${projectFile}.v0.bak`, 'utf8')), unversioned);
+  });
+
+  it('leaves a current file alone', async () => {
+    const result = await harness.run(['project', 'migrate']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.match(result.stdout, /Nothing to migrate/);
+  });
+
+  it('points at the invalid field with its line', async () => {
+    fs.writeFileSync(projectFile, JSON.stringify({ version: 1, gameId: 42 }, null, 2));
+
+    const result = await harness.run(['project', 'validate']);
+
+    assert.equal(result.exitCode, ExitCode.Validation);
+    assert.match(result.stderr, /gameId: must be a non-empty string/);
+    assert.match(result.stderr, /3 \|\s+"gameId": 42/);
+  });
+
+  it('refuses files from a newer CLI', async () => {
+    fs.writeFileSync(projectFile, JSON.stringify({ version: PROJECT_MANIFEST_VERSION + 1, gameId: 'game_1' }));
+
+    const result = await harness.run(['project', 'migrate']);
+
+    assert.equal(result.exitCode, ExitCode.Validation);
+    assert.match(result.stderr, /newer than this CLI supports/);
+  });
+});
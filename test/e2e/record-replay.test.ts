@@ -0,0 +1,131 @@
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Harness, TEST_TOKEN } from './harness';
+import { ExitCode } from '../../src/utils/errors';
+
+describe('--record and --replay', () => {
+  let harness: Harness;
+  let gameId: string;
+
+  before(async () => {
+    harness = await Harness.start();
+    gameId = await harness.setUp();
+  });
+
+  after(async () => {
+    await harness.stop();
+  });
+
+  function recording(name: string): string {
+    return path.join(harness.home, 'recordings', `${name}.json`);
+  }
+
+  it('records requests and responses with credentials redacted', async () => {
+    const file = recording('login');
+    const result = await harness.run(['--record', file, 'auth', 'login', '--token', TEST_TOKEN]);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    const contents = fs.readFileSync(file, 'utf8');
+    assert.ok(!contents.includes(TEST_TOKEN));
+
+    const cassette = JSON.parse(contents);
+    assert.equal(cassette.interactions.length, 1);
+    const [interaction] = cassette.interactions;
+    assert.equal(interaction.request.method, 'GET');
+    assert.equal(interaction.request.headers.Authorization, '[REDACTED]');
+    assert.equal(interaction.response.status, 200);
+    assert.equal(interaction.response.body.username, 'mock-developer');
+  });
+
+  it('redacts secrets in request bodies', async () => {
+    const file = recording('identity');
+    const result = await harness.run(['--record', file, 'identity', 'create', '--name', 'Hero']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    const [, privateKey] = result.stdout.match(/Private Key: (0x[0-9a-f]+)/)!;
+    const contents = fs.readFileSync(file, 'utf8');
+    assert.ok(!contents.includes(privateKey));
+
+    const cassette = JSON.parse(contents);
+    assert.equal(cassette.interactions[0].request.body.displayName, 'Hero');
+    assert.equal(cassette.interactions[0].request.body.privateKey, '[REDACTED]');
+  });
+
+  it('replays a recording without calling the API', async () => {
+    const file = recording('builds');
+    const recorded = await harness.run(['--record', file, 'build', 'list']);
+    // The API's answer changes, the replayed one does not
+    harness.seedBuild(gameId);
+
+    const replayed = await harness.run(['--replay', file, 'build', 'list']);
+
+    assert.equal(replayed.exitCode, ExitCode.Success);
+    assert.deepEqual(replayed.calls, []);
+    assert.equal(replayed.stdout, recorded.stdout);
+  });
+
+  it('replays without a login or project file', async () => {
+    const file = recording('offline');
+    const recorded = await harness.run(['--record', file, 'build', 'list']);
+    const elsewhere = fs.mkdtempSync(path.join(os.tmpdir(), 'gamebuild-replay-'));
+
+    try {
+      const replayed = await harness.run(
+        ['--config', path.join(elsewhere, 'config.json'), '--replay', file, 'build', 'list'],
+        { cwd: elsewhere }
+      );
+
+      assert.equal(replayed.exitCode, ExitCode.Success);
+      assert.deepEqual(replayed.calls, []);
+      assert.equal(replayed.stdout, recorded.stdout);
+    } finally {
+      fs.rmSync(elsewhere, { recursive: true, force: true });
+    }
+  });
+
+  it('replays error responses with their exit codes', async () => {
+    const file = recording('missing-game');
+    const recorded = await harness.run(['--record', file, 'game', 'info', 'game_missing']);
+    assert.equal(recorded.exitCode, ExitCode.NotFound);
+
+    const replayed = await harness.run(['--replay', file, 'game', 'info', 'game_missing']);
+
+    assert.equal(replayed.exitCode, ExitCode.NotFound);
+    assert.deepEqual(replayed.calls, []);
+    assert.equal(replayed.stderr, recorded.stderr);
+  });
+
+  it('replays binary downloads', async () => {
+    const buildId = harness.seedBuild(gameId);
+    const file = recording('download');
+    await harness.run(['--record', file, 'build', 'download', buildId, '--dir', path.join(harness.home, 'live')]);
+
+    const result = await harness.run(['--replay', file, 'build', 'download', buildId, '--dir', path.join(harness.home, 'replayed')]);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.calls, []);
+    assert.deepEqual(
+      fs.readFileSync(path.join(harness.home, 'replayed', `build-${buildId}.zip`)),
+      fs.readFileSync(path.join(harness.home, 'live', `build-${buildId}.zip`))
+    );
+  });
+
+  it('fails on requests that are not in the recording', async () => {
+    const result = await harness.run(['--replay', recording('builds'), 'guild', 'list']);
+
+    assert.equal(result.exitCode, ExitCode.Network);
+    assert.match(result.stderr, /No recorded response for GET \/v1\/guilds/);
+    assert.deepEqual(result.calls, []);
+  });
+
+  it('rejects a missing recording and combined flags', async () => {
+    const missing = await harness.run(['--replay', recording('nothing'), 'game', 'list']);
+    assert.equal(missing.exitCode, ExitCode.NotFound);
+
+    const both = await harness.run(['--record', recording('a'), '--replay', recording('builds'), 'game', 'list']);
+    assert.equal(both.exitCode, ExitCode.Validation);
+  });
+});
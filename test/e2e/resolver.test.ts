@@ -0,0 +1,240 @@
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Harness, RunOptions, TEST_TOKEN, choiceValues } from './harness';
+import { createClient } from '../../src';
+import { RESPONSES_DIR } from '../../src/services/cache';
+import { ExitCode } from '../../src/utils/errors';
+import { prompter } from '../../src/utils/prompt';
+
+describe('name resolution', () => {
+  let harness: Harness;
+  let gameId: string;
+  const ids: Record<string, string> = {};
+
+  const namesFile = () => path.join(harness.home, '.gamebuild', 'cache', 'names.json');
+
+  // Names are only cached when responses are. Cached responses are dropped before each
+  // run, so the calls show every lookup the resolver makes.
+  const run = (args: string[], options?: RunOptions) => {
+    fs.rmSync(path.join(harness.home, '.gamebuild', 'cache', RESPONSES_DIR), { recursive: true, force: true });
+    return harness.run(args, options);
+  };
+
+  before(async () => {
+    harness = await Harness.start();
+    delete process.env.GAMEBUILD_CACHE__ENABLED;
+    gameId = await harness.setUp();
+    for (const name of ['Space Race', 'Space Rangers', 'Tower Siege']) {
+      await run(['game', 'create', '--name', name, '--platform', 'web', '--template', 'basic']);
+      ids[name] = harness.state.games[harness.state.games.length - 1].id;
+    }
+    await run(['guild', 'create', '--name', 'Night Owls', '--description', 'Late raids']);
+    await run(['guild', 'leave', harness.state.guilds[0].id]);
+  });
+
+  after(async () => {
+    await harness.stop();
+  });
+
+  it('tries the input as an ID before listing names', async () => {
+    const result = await run(['game', 'info', ids['Tower Siege']]);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.calls, [`GET /v1/games/${ids['Tower Siege']}`]);
+  });
+
+  it('accepts IDs in any format', async () => {
+    harness.state.games.push({ ...harness.state.games[0], id: '5f3c9a71', name: 'Odd ID' });
+
+    const result = await run(['game', 'info', '5f3c9a71']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.calls, ['GET /v1/games/5f3c9a71']);
+    harness.state.games.pop();
+  });
+
+  it('resolves "." to the current project', async () => {
+    const result = await run(['game', 'info', '.']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.calls, [`GET /v1/games/${gameId}`]);
+  });
+
+  it('resolves exact names and unique prefixes, ignoring case', async () => {
+    fs.rmSync(namesFile(), { force: true });
+
+    const exact = await run(['game', 'info', 'Space Race']);
+    assert.equal(exact.exitCode, ExitCode.Success);
+    assert.deepEqual(exact.calls, ['GET /v1/games/Space%20Race', 'GET /v1/games', `GET /v1/games/${ids['Space Race']}`]);
+
+    const prefix = await run(['game', 'info', 'tower']);
+    assert.equal(prefix.exitCode, ExitCode.Success);
+    assert.equal(prefix.calls[2], `GET /v1/games/${ids['Tower Siege']}`);
+  });
+
+  it('caches names per profile and account', async () => {
+    const result = await run(['game', 'info', 'Space Rangers']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.calls, [`GET /v1/games/${ids['Space Rangers']}`]);
+    const cache = JSON.parse(fs.readFileSync(namesFile(), 'utf8'));
+    assert.equal(cache.default['mock-developer'].game.names['Space Rangers'], ids['Space Rangers']);
+  });
+
+  it('looks a cached name up again once its game is gone', async () => {
+    await run(['game', 'create', '--name', 'Playground', '--platform', 'web', '--template', 'basic']);
+    await run(['game', 'info', 'Playground']);
+    const old = harness.state.games.pop()!;
+    harness.state.games.push({ ...old, id: 'game_recreated' });
+
+    const result = await run(['game', 'info', 'Playground']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.calls, [
+      `GET /v1/games/${old.id}`,
+      'GET /v1/games/Playground',
+      'GET /v1/games',
+      'GET /v1/games/game_recreated'
+    ]);
+    harness.state.games.pop();
+  });
+
+  it('keeps the names of each account apart', async () => {
+    await run(['--account', 'other', 'auth', 'login', '--token', 'other-token']);
+    try {
+      const result = await run(['game', 'info', 'Space Rangers']);
+      assert.deepEqual(result.calls, ['GET /v1/games/Space%20Rangers', 'GET /v1/games', `GET /v1/games/${ids['Space Rangers']}`]);
+      const cache = JSON.parse(fs.readFileSync(namesFile(), 'utf8'));
+      assert.equal(cache.default.other.game.names['Space Rangers'], ids['Space Rangers']);
+    } finally {
+      await run(['auth', 'accounts', 'remove', 'other', '--force']);
+    }
+  });
+
+  it('skips cached names with --refresh and --no-cache', async () => {
+    const lookup = ['GET /v1/games/Space%20Rangers', 'GET /v1/games', `GET /v1/games/${ids['Space Rangers']}`];
+
+    const refresh = await run(['--refresh', 'game', 'info', 'Space Rangers']);
+    assert.deepEqual(refresh.calls, lookup);
+
+    fs.rmSync(namesFile());
+    const noCache = await run(['--no-cache', 'game', 'info', 'Space Rangers']);
+    assert.deepEqual(noCache.calls, lookup);
+    assert.ok(!fs.existsSync(namesFile()));
+  });
+
+  it('expires cached names with the games TTL', async () => {
+    await run(['game', 'info', 'Space Race']);
+    await run(['config', 'set', 'cache.ttl.games', '0']);
+    try {
+      const result = await run(['game', 'info', 'Space Race']);
+      assert.deepEqual(result.calls, ['GET /v1/games/Space%20Race', 'GET /v1/games', `GET /v1/games/${ids['Space Race']}`]);
+    } finally {
+      await run(['config', 'delete', 'cache.ttl.games', '--force']);
+    }
+  });
+
+  it('asks which one was meant when a prefix is ambiguous', async () => {
+    const result = await run(['game', 'info', 'space'], { answers: { id: ids['Space Rangers'] } });
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(choiceValues(result.questions[0]), [ids['Space Race'], ids['Space Rangers']]);
+    assert.equal(result.calls[2], `GET /v1/games/${ids['Space Rangers']}`);
+  });
+
+  it('lists the matches instead of asking when prompts are disabled', async () => {
+    const result = await run(['game', 'info', 'space']);
+
+    assert.equal(result.exitCode, ExitCode.Validation);
+    assert.match(result.stderr, /"space" matches 2 games: Space Race \(game_\d+\), Space Rangers \(game_\d+\)/);
+    assert.deepEqual(result.calls, ['GET /v1/games/space', 'GET /v1/games']);
+  });
+
+  it('never prompts from the SDK', async () => {
+    const asked: unknown[] = [];
+    prompter.useHandler(async (questions) => {
+      asked.push(...questions);
+      return {};
+    });
+    try {
+      const client = createClient({ baseUrl: process.env.GAMEBUILD_BASE_URL, token: TEST_TOKEN });
+      await assert.rejects(client.resolver.findGame('space'), /"space" matches 2 games/);
+      assert.deepEqual(asked, []);
+    } finally {
+      prompter.useHandler(undefined);
+    }
+  });
+
+  it('fails with the API error for unknown IDs and names', async () => {
+    const result = await run(['game', 'info', 'Nothing Like It']);
+
+    assert.equal(result.exitCode, ExitCode.NotFound);
+    assert.deepEqual(result.calls, ['GET /v1/games/Nothing%20Like%20It', 'GET /v1/games']);
+  });
+
+  it('deletes a game by name and forgets it', async () => {
+    const result = await run(['game', 'delete', 'Space Rangers', '--force']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.calls, [`GET /v1/games/${ids['Space Rangers']}`, `DELETE /v1/games/${ids['Space Rangers']}`]);
+    const cache = JSON.parse(fs.readFileSync(namesFile(), 'utf8'));
+    assert.equal(cache.default['mock-developer'].game.names['Space Rangers'], undefined);
+  });
+
+  it('only deletes by ID or exact name, and names the game when confirming', async () => {
+    const prefix = await run(['game', 'delete', 'tower', '--force']);
+    assert.equal(prefix.exitCode, ExitCode.NotFound);
+    assert.ok(harness.state.games.some((game) => game.id === ids['Tower Siege']));
+
+    const declined = await run(['game', 'delete', 'Tower Siege'], { answers: { confirm: false } });
+    assert.equal(declined.exitCode, ExitCode.Cancelled);
+    assert.equal(declined.questions[0].message, `Are you sure you want to delete game "Tower Siege" (${ids['Tower Siege']})? This action cannot be undone.`);
+    assert.ok(!declined.calls.some((call) => call.startsWith('DELETE')));
+  });
+
+  it('looks a cached name up again once its game was renamed', async () => {
+    const renamed = harness.state.games.find((game) => game.id === ids['Tower Siege'])!;
+    renamed.name = 'Tower Siege Classic';
+    harness.state.games.push({ ...renamed, id: 'game_new_tower', name: 'Tower Siege' });
+
+    const result = await run(['game', 'delete', 'Tower Siege', '--force']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.calls, [
+      `GET /v1/games/${ids['Tower Siege']}`,
+      'GET /v1/games/Tower%20Siege',
+      'GET /v1/games',
+      'GET /v1/games/game_new_tower',
+      'DELETE /v1/games/game_new_tower'
+    ]);
+    assert.ok(harness.state.games.some((game) => game.id === ids['Tower Siege']));
+  });
+
+  it('resolves guild and asset names', async () => {
+    const join = await run(['guild', 'join', 'night']);
+    assert.equal(join.exitCode, ExitCode.Success);
+    const guildId = harness.state.guilds[0].id;
+    assert.deepEqual(join.calls, ['GET /v1/guilds/night', 'GET /v1/guilds', `GET /v1/guilds/${guildId}`, `POST /v1/guilds/${guildId}/join`]);
+
+    harness.state.assets.push({
+      id: 'asset_sword',
+      name: 'Flame Sword',
+      description: 'Legendary',
+      tokenId: '1',
+      owner: '0x0',
+      ipfsUrl: 'ipfs://sword'
+    } as any);
+    const info = await run(['asset', 'info', 'flame sword']);
+    assert.equal(info.exitCode, ExitCode.Success);
+    assert.deepEqual(info.calls, ['GET /v1/assets/flame%20sword', 'GET /v1/assets', 'GET /v1/assets/asset_sword']);
+  });
+
+  it('only accepts "." for games', async () => {
+    const result = await run(['guild', 'info', '.']);
+
+    assert.equal(result.exitCode, ExitCode.Validation);
+    assert.deepEqual(result.calls, []);
+  });
+});
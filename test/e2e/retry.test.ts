@@ -0,0 +1,82 @@
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Harness } from './harness';
+import { ExitCode } from '../../src/utils/errors';
+
+describe('retries', () => {
+  let harness: Harness;
+
+  // Keep the backoff short so failing requests are retried straight away
+  const env = { GAMEBUILD_HTTP__RETRY_DELAY: '1', GAMEBUILD_HTTP__RETRIES: '2' };
+  const unavailable = { status: 503, body: { message: 'Service unavailable' } };
+
+  before(async () => {
+    harness = await Harness.start();
+    await harness.setUp();
+  });
+
+  after(async () => {
+    await harness.stop();
+  });
+
+  it('retries reads after a server error', async () => {
+    harness.respondWith('GET', '/v1/games', unavailable, 2);
+
+    const result = await harness.run(['game', 'list'], { env });
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.calls, ['GET /v1/games', 'GET /v1/games', 'GET /v1/games']);
+    assert.deepEqual(result.requests.map((request) => request.status), [503, 503, 200]);
+  });
+
+  it('gives up once the retries are used', async () => {
+    harness.respondWith('GET', '/v1/games', unavailable, 3);
+
+    const result = await harness.run(['game', 'list'], { env });
+
+    assert.equal(result.exitCode, ExitCode.RemoteFailure);
+    assert.equal(result.calls.length, 3);
+  });
+
+  it('does not repeat writes after a server error', async () => {
+    harness.respondWith('POST', '/v1/games', unavailable);
+
+    const result = await harness.run(['game', 'create', '--name', 'Once', '--platform', 'web', '--template', 'basic'], { env });
+
+    assert.equal(result.exitCode, ExitCode.RemoteFailure);
+    assert.deepEqual(result.calls, ['POST /v1/games']);
+    assert.ok(!harness.state.games.some((game) => game.name === 'Once'));
+  });
+
+  it('retries rate-limited writes after Retry-After', async () => {
+    harness.respondWith('POST', '/v1/games', {
+      status: 429,
+      headers: { 'Retry-After': '0' },
+      body: { message: 'Too many requests' }
+    });
+
+    const result = await harness.run(['game', 'create', '--name', 'Limited', '--platform', 'web', '--template', 'basic']);
+
+    assert.equal(result.exitCode, ExitCode.Success);
+    assert.deepEqual(result.requests.map((request) => request.status), [429, 201]);
+  });
+
+  it('does not retry before a Retry-After longer than the maximum delay', async () => {
+    harness.respondWith('GET', '/v1/games', { status: 429, headers: { 'Retry-After': '120' }, body: {} });
+
+    const result = await harness.run(['game', 'list'], { env });
+
+    assert.equal(result.exitCode, ExitCode.RateLimited);
+    assert.deepEqual(result.calls, ['GET /v1/games']);
+    assert.match(result.stderr, /Try again in 120s/);
+  });
+
+  it('exits with the rate limit code when the API keeps refusing', async () => {
+    harness.respondWith('GET', '/v1/games', { status: 429, headers: { 'Retry-After': '0' }, body: {} }, 3);
+
+    const result = await harness.run(['game', 'list'], { env });
+
+    assert.equal(result.exitCode, ExitCode.RateLimited);
+    assert.equal(result.calls.length, 3);
+  });
+});
@@ -0,0 +1,5 @@
+// Compile the TypeScript tests and sources on the fly when running under node --test
+require('ts-node').register({
+  project: `${__dirname}/tsconfig.json`,
+  transpileOnly: true
+});